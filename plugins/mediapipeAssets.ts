@@ -0,0 +1,159 @@
+/**
+ * Vite plugin that self-hosts the MediaPipe WASM fileset and face landmarker model
+ * Emits versioned copies under /mediapipe/<version>/ together with a SHA-256 manifest.
+ * The model must match the hash pinned in mediapipe-model.lock.json, so a wrong or
+ * replaced model fails the build instead of being served with a matching manifest entry.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { resolve } from 'path';
+import type { Plugin } from 'vite';
+
+interface MediaPipeAssetsOptions {
+  readonly packageDir?: string;
+  readonly modelPath?: string;
+  readonly lockPath?: string;
+}
+
+interface ModelLock {
+  readonly url: string;
+  readonly sha256: string | null;
+  readonly size: number | null;
+}
+
+interface AssetSource {
+  readonly fileName: string;
+  readonly sourcePath: string;
+}
+
+const MODEL_FILE_NAME = 'face_landmarker.task';
+
+export function mediapipeAssets(options: MediaPipeAssetsOptions = {}): Plugin {
+  const packageDir = options.packageDir ?? resolve(process.cwd(), 'node_modules/@mediapipe/tasks-vision');
+  const modelPath = options.modelPath ?? resolve(process.cwd(), 'models', MODEL_FILE_NAME);
+  const lockPath = options.lockPath ?? resolve(process.cwd(), 'mediapipe-model.lock.json');
+
+  const packageJson = JSON.parse(readFileSync(resolve(packageDir, 'package.json'), 'utf-8')) as { version: string };
+  const version = packageJson.version;
+  const basePath = `mediapipe/${version}`;
+
+  // Modification time of the model file last checked, so the dev server hashes it once per change
+  let verifiedModelMtime: number | null = null;
+
+  const verifyModel = (): void => {
+    const mtime = statSync(modelPath).mtimeMs;
+    if (verifiedModelMtime === mtime) return;
+
+    const lock = JSON.parse(readFileSync(lockPath, 'utf-8')) as ModelLock;
+    if (lock.sha256 === null) {
+      throw new Error(
+        `No MediaPipe model hash is pinned in ${lockPath}. Run "npm run assets:model -- --pin" and commit the lock file.`
+      );
+    }
+
+    const content = readFileSync(modelPath);
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    if (sha256 !== lock.sha256 || content.byteLength !== lock.size) {
+      throw new Error(
+        `MediaPipe model at ${modelPath} does not match the pinned hash ` +
+        `(expected ${lock.sha256}, got ${sha256}). Run "npm run assets:model" to download the pinned model.`
+      );
+    }
+    verifiedModelMtime = mtime;
+  };
+
+  const collectSources = (): AssetSource[] => {
+    const wasmDir = resolve(packageDir, 'wasm');
+    const wasmFiles = readdirSync(wasmDir).map(name => ({
+      fileName: `wasm/${name}`,
+      sourcePath: resolve(wasmDir, name),
+    }));
+
+    if (!existsSync(modelPath)) {
+      throw new Error(
+        `MediaPipe model not found at ${modelPath}. Run "npm run assets:model" once to download it.`
+      );
+    }
+    verifyModel();
+
+    return [...wasmFiles, { fileName: `models/${MODEL_FILE_NAME}`, sourcePath: modelPath }];
+  };
+
+  const buildManifest = (sources: readonly AssetSource[]): string => {
+    const files: Record<string, { sha256: string; size: number }> = {};
+    for (const source of sources) {
+      const content = readFileSync(source.sourcePath);
+      files[source.fileName] = {
+        sha256: createHash('sha256').update(content).digest('hex'),
+        size: content.byteLength,
+      };
+    }
+    return JSON.stringify({ version, files }, null, 2);
+  };
+
+  return {
+    name: 'sheike-mediapipe-assets',
+
+    config() {
+      return {
+        define: {
+          __MEDIAPIPE_VERSION__: JSON.stringify(version),
+        },
+      };
+    },
+
+    configureServer(server) {
+      // Serve the same layout in development so the runtime never needs a CDN
+      server.middlewares.use((req, res, next) => {
+        const prefix = `/${basePath}/`;
+        const url = req.url?.split('?')[0];
+        if (url?.startsWith(prefix) !== true) {
+          next();
+          return;
+        }
+
+        try {
+          const sources = collectSources();
+          const fileName = url.slice(prefix.length);
+
+          if (fileName === 'manifest.json') {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(buildManifest(sources));
+            return;
+          }
+
+          const source = sources.find(candidate => candidate.fileName === fileName);
+          if (source === undefined) {
+            next();
+            return;
+          }
+
+          res.setHeader('Content-Type', fileName.endsWith('.wasm') ? 'application/wasm' : 'application/octet-stream');
+          res.end(readFileSync(source.sourcePath));
+        } catch (error) {
+          res.statusCode = 500;
+          res.end(String(error));
+        }
+      });
+    },
+
+    generateBundle() {
+      const sources = collectSources();
+
+      for (const source of sources) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${basePath}/${source.fileName}`,
+          source: readFileSync(source.sourcePath),
+        });
+      }
+
+      this.emitFile({
+        type: 'asset',
+        fileName: `${basePath}/manifest.json`,
+        source: buildManifest(sources),
+      });
+    },
+  };
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Downloads the face landmarker model into models/ so the build can bundle it
+ * Run once on a machine with internet access; the build never fetches it.
+ * The download must match the hash pinned in mediapipe-model.lock.json; pass --pin
+ * to record the hash of a fresh download instead, and review the lock file change.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+
+const lockPath = resolve(process.cwd(), 'mediapipe-model.lock.json');
+const outputPath = resolve(process.cwd(), 'models', 'face_landmarker.task');
+const shouldPin = process.argv.includes('--pin');
+
+const lock = JSON.parse(await readFile(lockPath, 'utf-8'));
+if (lock.sha256 === null && !shouldPin) {
+  console.error(`No model hash is pinned in ${lockPath}. Run with --pin once and commit the lock file.`);
+  process.exit(1);
+}
+
+const response = await fetch(lock.url);
+if (!response.ok) {
+  console.error(`Failed to download model: ${response.status} ${response.statusText}`);
+  process.exit(1);
+}
+
+const content = Buffer.from(await response.arrayBuffer());
+const sha256 = createHash('sha256').update(content).digest('hex');
+
+if (shouldPin) {
+  if (lock.sha256 !== null && lock.sha256 !== sha256) {
+    console.warn(`Replacing pinned sha256 ${lock.sha256} with ${sha256}`);
+  }
+  await writeFile(lockPath, `${JSON.stringify({ ...lock, sha256, size: content.byteLength }, null, 2)}\n`);
+} else if (sha256 !== lock.sha256 || content.byteLength !== lock.size) {
+  console.error(
+    `Downloaded model does not match the pinned hash (expected sha256 ${lock.sha256}, ${lock.size} bytes; ` +
+    `got ${sha256}, ${content.byteLength} bytes). Nothing was written.`
+  );
+  process.exit(1);
+}
+
+await mkdir(dirname(outputPath), { recursive: true });
+await writeFile(outputPath, content);
+console.log(`Saved ${outputPath} (${content.byteLength} bytes, sha256 ${sha256})`);
@@ -1,31 +1,52 @@
-import { useState } from 'react';
+import { useState, useMemo, useCallback } from 'react';
+import type { CSSProperties } from 'react';
 import { Capture } from './ui/Capture';
 import { DebugOverlay } from './ui/DebugOverlay';
-import type { NormalizedLandmark } from './types/mediapipe';
+import { CalibrationPanel } from './ui/CalibrationPanel';
+import { SymmetryView } from './ui/SymmetryView';
+import { ScoreEvidence } from './ui/ScoreEvidence';
+import { FacialMetricsCalculator, LOW_CONFIDENCE_THRESHOLD } from './lib/metrics';
+import { listProfiles, getProfile } from './lib/profiles';
+import type { NormalizedLandmark, DetectedFace } from './types/mediapipe';
 import type { QualityCheckResult } from './types/quality';
 import type { FacialFeatures, QualityScores } from './types/metrics';
+import type { AggregatedFeatures } from './types/aggregation';
 
 interface CaptureResult {
   readonly imageData: ImageData;
+  readonly face: DetectedFace;
   readonly landmarks: readonly NormalizedLandmark[];
   readonly qualityCheck: QualityCheckResult;
   readonly features: FacialFeatures;
   readonly scores: QualityScores;
+  readonly aggregation?: AggregatedFeatures;
 }
 
 export function App() {
   const [result, setResult] = useState<CaptureResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [profile, setProfile] = useState(() => getProfile());
 
-  const handleCapture = (captureResult: CaptureResult) => {
+  // Switching profiles rescores the current result without re-detecting
+  const calculator = useMemo(() => FacialMetricsCalculator.fromProfile(profile), [profile]);
+  const scores = useMemo(
+    () => result === null ? null : calculator.calculateQualityScores(result.features, result.qualityCheck),
+    [result, calculator]
+  );
+  const explanation = useMemo(
+    () => result === null ? null : calculator.explainQualityScores(result.features),
+    [result, calculator]
+  );
+
+  const handleCapture = useCallback((captureResult: CaptureResult) => {
     setResult(captureResult);
     setError(null);
-  };
+  }, []);
 
-  const handleError = (errorMessage: string) => {
+  const handleError = useCallback((errorMessage: string) => {
     setError(errorMessage);
     setResult(null);
-  };
+  }, []);
 
   return (
     <div style={{ 
@@ -52,11 +73,29 @@ export function App() {
         </div>
       )}
 
+      <div style={{ marginBottom: '20px', textAlign: 'center' }}>
+        <label>
+          スコアリングプロファイル:{' '}
+          <select
+            value={profile.name}
+            onChange={event => setProfile(getProfile(event.target.value))}
+            style={{ padding: '4px 8px', fontSize: '14px' }}
+          >
+            {listProfiles().map(option => (
+              <option key={option.name} value={option.name}>
+                {option.name} (v{option.version})
+              </option>
+            ))}
+          </select>
+        </label>
+        <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>{profile.description}</div>
+      </div>
+
       <div style={{ marginBottom: '30px' }}>
-        <Capture onCapture={handleCapture} onError={handleError} />
+        <Capture onCapture={handleCapture} onError={handleError} profile={profile} />
       </div>
 
-      {result && (
+      {result && scores && (
         <div>
           <h2>解析結果</h2>
           <div style={{ 
@@ -67,10 +106,22 @@ export function App() {
           }}>
             <div style={{ padding: '15px', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
               <h3>スコア</h3>
-              <div>👁️ Eyes: {result.scores.eyes}/100</div>
-              <div>👃 Nose: {result.scores.nose}/100</div>
-              <div>🦴 Jaw: {result.scores.jaw}/100</div>
-              <div><strong>📊 Overall: {result.scores.overall}/100</strong></div>
+              <div style={confidenceStyle(scores.confidence.eyes)}>👁️ Eyes: {scores.eyes}/100</div>
+              <div style={confidenceStyle(scores.confidence.brows)}>〰️ Brows: {scores.brows}/100</div>
+              <div style={confidenceStyle(scores.confidence.nose)}>👃 Nose: {scores.nose}/100</div>
+              <div style={confidenceStyle(scores.confidence.jaw)}>🦴 Jaw: {scores.jaw}/100</div>
+              <div style={confidenceStyle(scores.confidence.mouth)}>👄 Mouth: {scores.mouth}/100</div>
+              <div style={confidenceStyle(scores.confidence.proportions)}>📐 Proportions: {scores.proportions}/100</div>
+              <div style={confidenceStyle(scores.confidence.overall)}>
+                <strong>📊 Overall: {scores.overall}/100</strong>
+              </div>
+              <div style={{ fontSize: '12px', color: '#666' }}>
+                信頼度: {Math.round(scores.confidence.overall * 100)}%
+                {scores.confidence.overall < LOW_CONFIDENCE_THRESHOLD && '（参考値）'}
+              </div>
+              <div style={{ fontSize: '12px', color: '#666' }}>
+                プロファイル: {scores.profile.name} v{scores.profile.version}
+              </div>
             </div>
             <div style={{ padding: '15px', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
               <h3>品質チェック</h3>
@@ -79,17 +130,31 @@ export function App() {
               </div>
               <div>信頼度: {result.qualityCheck.confidence}%</div>
               <div>ランドマーク: {result.landmarks.length}点</div>
+              <div>姿勢補正: {result.features.alignment.angle.toFixed(1)}°</div>
+              {result.aggregation !== undefined && (
+                <div>
+                  集約: {result.aggregation.frameCount - result.aggregation.rejectedFrames.length}/
+                  {result.aggregation.frameCount}フレーム（中央値）
+                </div>
+              )}
             </div>
           </div>
 
+          {explanation && <ScoreEvidence explanation={explanation} />}
+
           <DebugOverlay
             imageData={result.imageData}
             landmarks={result.landmarks}
             qualityCheck={result.qualityCheck}
             features={result.features}
-            scores={result.scores}
+            scores={scores}
+            blendshapes={result.face.blendshapes}
           />
 
+          <CalibrationPanel imageData={result.imageData} features={result.features} />
+
+          <SymmetryView imageData={result.imageData} landmarks={result.landmarks} />
+
           {result.qualityCheck.recommendations.length > 0 && (
             <div style={{ 
               marginTop: '20px',
@@ -121,4 +186,9 @@ export function App() {
       </footer>
     </div>
   );
+}
+
+// Scores that should not be trusted are greyed out rather than hidden
+function confidenceStyle(confidence: number): CSSProperties {
+  return confidence < LOW_CONFIDENCE_THRESHOLD ? { color: '#9e9e9e' } : {};
 }
\ No newline at end of file
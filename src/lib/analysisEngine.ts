@@ -0,0 +1,202 @@
+/**
+ * Worker-backed analysis engine
+ * Sends frames to the analysis worker as transferable ImageBitmaps and resolves typed results
+ */
+
+import type { CancellationOptions, FaceLandmarkerOptions, MediaPipeCapabilities } from '@/types/mediapipe';
+import type { ImageQualityMetrics } from '@/types/quality';
+import type {
+  AnalysisEngineError,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  AnalyzeOptions,
+  FrameAnalysisResult,
+} from '@/types/worker';
+import { throwIfCancelled, withTimeout } from '@/lib/cancellation';
+
+// The worker applies the landmarker's own 60 s deadline to MediaPipe; this one also
+// covers a worker that never loads or never answers
+const DEFAULT_INIT_TIMEOUT_MS = 60000;
+
+interface PendingRequest {
+  readonly resolve: (response: AnalysisWorkerResponse) => void;
+  readonly reject: (error: AnalysisEngineError) => void;
+}
+
+export class AnalysisEngine {
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private initializationPromise: Promise<MediaPipeCapabilities | null> | null = null;
+
+  constructor(private readonly options: FaceLandmarkerOptions = {}) {}
+
+  /**
+   * Whether this browser can run detection in a module worker
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap === 'function';
+  }
+
+  /**
+   * Start the worker and build its landmarker. A timed out or cancelled start terminates
+   * the worker, so calling again starts a fresh one.
+   */
+  async initialize(options: CancellationOptions = {}): Promise<MediaPipeCapabilities | null> {
+    throwIfCancelled(options.signal, 'Analysis worker initialization');
+    if (this.initializationPromise === null) {
+      this.initializationPromise = this.doInitialize();
+    }
+    const initialization = this.initializationPromise;
+
+    try {
+      return await withTimeout(() => initialization, {
+        operation: 'Analysis worker initialization',
+        timeoutMs: options.timeoutMs ?? this.options.initTimeoutMs ?? DEFAULT_INIT_TIMEOUT_MS,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (this.initializationPromise === initialization) this.dispose();
+      throw error;
+    }
+  }
+
+  private async doInitialize(): Promise<MediaPipeCapabilities | null> {
+    if (!AnalysisEngine.isSupported()) {
+      throw createEngineError('WORKER_UNAVAILABLE', 'Module workers with OffscreenCanvas are not supported');
+    }
+
+    this.worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.addEventListener('message', this.handleMessage);
+    this.worker.addEventListener('error', this.handleWorkerError);
+
+    const response = await this.send({ type: 'initialize', id: this.nextId(), options: this.options });
+    return response.type === 'initialized' ? response.capabilities : null;
+  }
+
+  /**
+   * Detect faces and measure pixel quality; the bitmap is transferred and must not be reused
+   */
+  async analyze(bitmap: ImageBitmap, options: AnalyzeOptions = {}): Promise<FrameAnalysisResult> {
+    if (this.worker === null || this.initializationPromise === null) {
+      bitmap.close();
+      throw createEngineError('NOT_INITIALIZED', 'Analysis engine used before initialization');
+    }
+    await this.initializationPromise;
+
+    const response = await this.send({ type: 'analyze', id: this.nextId(), bitmap }, [bitmap], options.signal);
+    if (response.type !== 'result') {
+      throw createEngineError('WORKER_FAILED', `Unexpected worker response: ${response.type}`);
+    }
+    return response.result;
+  }
+
+  /**
+   * Measure pixel quality only, for frames whose faces are already known; the bitmap is transferred
+   */
+  async measureQuality(bitmap: ImageBitmap, options: AnalyzeOptions = {}): Promise<ImageQualityMetrics> {
+    if (this.worker === null || this.initializationPromise === null) {
+      bitmap.close();
+      throw createEngineError('NOT_INITIALIZED', 'Analysis engine used before initialization');
+    }
+    await this.initializationPromise;
+
+    const response = await this.send({ type: 'measure', id: this.nextId(), bitmap }, [bitmap], options.signal);
+    if (response.type !== 'measured') {
+      throw createEngineError('WORKER_FAILED', `Unexpected worker response: ${response.type}`);
+    }
+    return response.imageQuality;
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.initializationPromise = null;
+    this.rejectAll(createEngineError('CANCELLED', 'Analysis engine disposed'));
+  }
+
+  private send(
+    request: Exclude<AnalysisWorkerRequest, { type: 'cancel' }>,
+    transfer: Transferable[] = [],
+    signal?: AbortSignal
+  ): Promise<AnalysisWorkerResponse> {
+    const worker = this.worker;
+    if (worker === null) {
+      return Promise.reject(createEngineError('NOT_INITIALIZED', 'Analysis worker is not running'));
+    }
+
+    if (signal?.aborted === true) {
+      if (request.type !== 'initialize') request.bitmap.close();
+      return Promise.reject(createEngineError('CANCELLED', 'Analysis was cancelled'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        // The worker may already be busy with this frame; it drops the result when done
+        this.pending.delete(request.id);
+        worker.postMessage({ type: 'cancel', id: request.id } satisfies AnalysisWorkerRequest);
+        reject(createEngineError('CANCELLED', 'Analysis was cancelled'));
+      };
+
+      this.pending.set(request.id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.postMessage(request, transfer);
+    });
+  }
+
+  private readonly handleMessage = (event: MessageEvent<AnalysisWorkerResponse>): void => {
+    const response = event.data;
+    const request = this.pending.get(response.id);
+    if (request === undefined) return;
+
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(createEngineError(response.code, response.message));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  private readonly handleWorkerError = (event: ErrorEvent): void => {
+    this.rejectAll(createEngineError('WORKER_FAILED', `Analysis worker crashed: ${event.message}`, event));
+    this.worker?.terminate();
+    this.worker = null;
+    this.initializationPromise = null;
+  };
+
+  private rejectAll(error: AnalysisEngineError): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private nextId(): number {
+    return this.nextRequestId++;
+  }
+}
+
+function createEngineError(
+  code: AnalysisEngineError['code'],
+  message: string,
+  details?: unknown
+): AnalysisEngineError {
+  return {
+    name: 'AnalysisEngineError',
+    message,
+    code,
+    details,
+  };
+}
\ No newline at end of file
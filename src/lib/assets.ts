@@ -0,0 +1,240 @@
+/**
+ * MediaPipe asset loading module
+ * Resolves self-hosted WASM and model files, verifies them against the build manifest,
+ * and only reaches for the public CDN when remote fallback is explicitly allowed.
+ * Transient request failures are retried with exponential backoff.
+ */
+
+import type {
+  FaceLandmarkerOptions,
+  MediaPipeAssetManifest,
+  MediaPipeAssetSource,
+  MediaPipeError,
+  RetryPolicy,
+  WasmFileset,
+} from '@/types/mediapipe';
+import { retryWithBackoff } from '@/lib/cancellation';
+
+// Replaced at build time with the installed @mediapipe/tasks-vision version
+declare const __MEDIAPIPE_VERSION__: string | undefined;
+
+// Guarded so the module still loads outside Vite (e.g. Node test runners)
+const MEDIAPIPE_VERSION = typeof __MEDIAPIPE_VERSION__ === 'string' ? __MEDIAPIPE_VERSION__ : 'latest';
+
+const MODEL_FILE = 'models/face_landmarker.task';
+
+export const DEFAULT_ASSET_BASE_URL = `/mediapipe/${MEDIAPIPE_VERSION}`;
+
+const REMOTE_WASM_BASE_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`;
+const REMOTE_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+
+// Request timeout, rate limiting and server errors are worth another attempt; other statuses are not
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface LoadedMediaPipeAssets {
+  readonly wasmFileset: WasmFileset;
+  readonly model: { readonly modelAssetPath: string } | { readonly modelAssetBuffer: Uint8Array };
+  readonly source: MediaPipeAssetSource;
+  /** Revokes object URLs created for verified WASM files once the task is built */
+  readonly release: () => void;
+}
+
+/**
+ * Retry policy and cancellation shared by every request of one load
+ */
+export interface AssetRequest {
+  readonly retry?: RetryPolicy | undefined;
+  readonly signal?: AbortSignal | undefined;
+}
+
+/**
+ * Resolve the WASM fileset and model for the landmarker
+ */
+export async function loadMediaPipeAssets(
+  options: FaceLandmarkerOptions,
+  resolveFileset: (wasmBasePath: string) => Promise<WasmFileset>,
+  signal?: AbortSignal
+): Promise<LoadedMediaPipeAssets> {
+  const baseUrl = (options.assetBaseUrl ?? DEFAULT_ASSET_BASE_URL).replace(/\/$/, '');
+  const request: AssetRequest = { retry: options.assetRetry, signal };
+
+  let manifest: MediaPipeAssetManifest;
+  try {
+    manifest = await fetchManifest(baseUrl, request);
+  } catch (error) {
+    if (signal?.aborted === true) throw error;
+    if (options.allowRemoteFallback !== true) {
+      // An unreachable server is reported as such rather than as missing assets
+      if (isNetworkError(error)) throw error;
+      throw createAssetError(
+        'ASSET_UNAVAILABLE',
+        `Local MediaPipe assets are unavailable at ${baseUrl} and remote fallback is disabled`,
+        error
+      );
+    }
+    return loadRemoteAssets(options, resolveFileset);
+  }
+
+  const fileset = await resolveFileset(options.wasmLoaderScript ?? `${baseUrl}/wasm`);
+  signal?.throwIfAborted();
+
+  if (options.verifyAssetIntegrity === false) {
+    return {
+      wasmFileset: fileset,
+      model: { modelAssetPath: options.modelAssetPath ?? `${baseUrl}/${MODEL_FILE}` },
+      source: 'local',
+      release: () => undefined,
+    };
+  }
+
+  // Load verified bytes through object URLs so MediaPipe runs exactly what was checked
+  const [loaderBuffer, binaryBuffer] = await Promise.all([
+    fetchVerifiedAsset(baseUrl, fileset.wasmLoaderPath, manifest, request),
+    fetchVerifiedAsset(baseUrl, fileset.wasmBinaryPath, manifest, request),
+  ]);
+  const wasmLoaderPath = URL.createObjectURL(new Blob([loaderBuffer], { type: 'text/javascript' }));
+  const wasmBinaryPath = URL.createObjectURL(new Blob([binaryBuffer], { type: 'application/wasm' }));
+  const release = (): void => {
+    URL.revokeObjectURL(wasmLoaderPath);
+    URL.revokeObjectURL(wasmBinaryPath);
+  };
+
+  try {
+    const modelBuffer = await fetchVerifiedAsset(
+      baseUrl,
+      options.modelAssetPath ?? `${baseUrl}/${MODEL_FILE}`,
+      manifest,
+      request
+    );
+    return {
+      wasmFileset: { wasmLoaderPath, wasmBinaryPath },
+      model: { modelAssetBuffer: new Uint8Array(modelBuffer) },
+      source: 'local',
+      release,
+    };
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+/**
+ * Fetch an asset and check its SHA-256 digest against the manifest
+ */
+export async function fetchVerifiedAsset(
+  baseUrl: string,
+  url: string,
+  manifest: MediaPipeAssetManifest,
+  request: AssetRequest = {}
+): Promise<ArrayBuffer> {
+  const key = url.startsWith(`${baseUrl}/`) ? url.slice(baseUrl.length + 1) : url;
+  const entry = manifest.files[key];
+  if (entry === undefined) {
+    throw createAssetError('ASSET_INTEGRITY_FAILED', `No integrity entry for MediaPipe asset ${key}`);
+  }
+
+  const buffer = await fetchBuffer(url, request);
+  const digest = await sha256Hex(buffer);
+  if (buffer.byteLength !== entry.size || digest !== entry.sha256) {
+    throw createAssetError(
+      'ASSET_INTEGRITY_FAILED',
+      `Integrity check failed for MediaPipe asset ${key}`,
+      { expected: entry.sha256, actual: digest }
+    );
+  }
+
+  return buffer;
+}
+
+async function loadRemoteAssets(
+  options: FaceLandmarkerOptions,
+  resolveFileset: (wasmBasePath: string) => Promise<WasmFileset>
+): Promise<LoadedMediaPipeAssets> {
+  const wasmFileset = await resolveFileset(options.wasmLoaderScript ?? REMOTE_WASM_BASE_URL);
+  return {
+    wasmFileset,
+    model: { modelAssetPath: options.modelAssetPath ?? REMOTE_MODEL_URL },
+    source: 'remote',
+    release: () => undefined,
+  };
+}
+
+async function fetchManifest(baseUrl: string, request: AssetRequest): Promise<MediaPipeAssetManifest> {
+  const response = await fetchWithRetry(`${baseUrl}/manifest.json`, request);
+  if (!response.ok) {
+    throw new Error(`Manifest request failed with status ${response.status}`);
+  }
+
+  const manifest: unknown = await response.json();
+  if (!isAssetManifest(manifest)) {
+    throw new Error('Malformed MediaPipe asset manifest');
+  }
+  return manifest;
+}
+
+async function fetchBuffer(url: string, request: AssetRequest): Promise<ArrayBuffer> {
+  const response = await fetchWithRetry(url, request);
+  if (!response.ok) {
+    throw createAssetError('ASSET_UNAVAILABLE', `Failed to load MediaPipe asset ${url}: ${response.status}`);
+  }
+  return response.arrayBuffer();
+}
+
+/**
+ * Fetch with backoff on connection failures and retryable statuses.
+ * Other responses, including 404, are returned for the caller to judge.
+ */
+async function fetchWithRetry(url: string, { retry, signal }: AssetRequest): Promise<Response> {
+  return retryWithBackoff(async () => {
+    let response: Response;
+    try {
+      response = await fetch(url, signal === undefined ? {} : { signal });
+    } catch (error) {
+      // fetch rejects with a TypeError when the connection itself fails
+      if (signal?.aborted === true || !(error instanceof TypeError)) throw error;
+      throw createAssetError('NETWORK_ERROR', `Network request for ${url} failed`, error);
+    }
+
+    if (RETRYABLE_STATUSES.has(response.status)) {
+      throw createAssetError('NETWORK_ERROR', `Request for ${url} failed with status ${response.status}`);
+    }
+    return response;
+  }, retry, { signal, shouldRetry: isNetworkError });
+}
+
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isAssetManifest(value: unknown): value is MediaPipeAssetManifest {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as { version?: unknown; files?: unknown };
+  if (typeof candidate.version !== 'string' || typeof candidate.files !== 'object' || candidate.files === null) {
+    return false;
+  }
+
+  return Object.values(candidate.files).every(entry => {
+    if (typeof entry !== 'object' || entry === null) return false;
+    const fileEntry = entry as { sha256?: unknown; size?: unknown };
+    return typeof fileEntry.sha256 === 'string' && typeof fileEntry.size === 'number';
+  });
+}
+
+function isNetworkError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'NETWORK_ERROR';
+}
+
+function createAssetError(
+  code: 'ASSET_UNAVAILABLE' | 'ASSET_INTEGRITY_FAILED' | 'NETWORK_ERROR',
+  message: string,
+  details?: unknown
+): MediaPipeError {
+  return {
+    name: 'MediaPipeAssetError',
+    message,
+    code,
+    details,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,176 @@
+/**
+ * Physical-unit calibration
+ * Converts image-height lengths to millimeters from the iris diameter or a user-supplied reference
+ */
+
+import type { FacialFeatures } from '@/types/metrics';
+import type {
+  CalibratedMeasurements,
+  Calibration,
+  CalibrationError,
+  CalibrationSource,
+  Measurement,
+} from '@/types/calibration';
+
+// Horizontal visible iris diameter in adults: 11.7 ± 0.5 mm, nearly independent of age and sex
+export const IRIS_DIAMETER_MM = 11.7;
+const IRIS_DIAMETER_SD_MM = 0.5;
+
+// ISO/IEC 7810 ID-1 (bank card) long edge
+export const ID1_CARD_WIDTH_MM = 85.6;
+
+// Adult IPD is in this range; anything outside is almost certainly a typing error
+const IPD_RANGE_MM = [40, 80] as const;
+// A pupillometer or ruler reading is good to about half a millimeter
+const IPD_ENTRY_ERROR_MM = 0.5;
+
+// Typical landmark jitter in normalized units, applied to every measured length
+const LANDMARK_ERROR = 0.002;
+// Relative error of the pupil position when the iris mesh is missing and lid centroids stand in
+const EYELID_CENTROID_PUPIL_ERROR = 0.05;
+// A reference held in front of the face is rarely at exactly the same depth
+const REFERENCE_PLANE_ERROR = 0.05;
+
+/**
+ * Estimate millimeters per image-height unit, or null when the chosen source is not measurable in this frame.
+ * The aspect ratio (width / height) of the frame converts reference points to the units the features use.
+ */
+export function createCalibration(
+  features: FacialFeatures,
+  source: CalibrationSource,
+  aspectRatio = 1
+): Calibration | null {
+  switch (source.type) {
+    case 'iris':
+      return calibrateFromIris(features);
+    case 'ipd':
+      return calibrateFromIpd(features, source.millimeters);
+    case 'reference': {
+      assertPositive(source.millimeters, 'Reference length must be a positive number of millimeters');
+      const length = Math.hypot((source.end.x - source.start.x) * aspectRatio, source.end.y - source.start.y);
+      if (length <= 0) {
+        throw createCalibrationError('INVALID_REFERENCE', 'Reference points must not coincide', source);
+      }
+      // Each marked end carries landmark-sized placement error
+      const placementError = (Math.SQRT2 * LANDMARK_ERROR) / length;
+      return {
+        source: 'reference',
+        millimetersPerUnit: source.millimeters / length,
+        relativeUncertainty: Math.hypot(placementError, REFERENCE_PLANE_ERROR),
+      };
+    }
+  }
+}
+
+/**
+ * Attach millimeters to an image-height length; uncertainty combines the scale and landmark error
+ */
+export function toMeasurement(normalized: number, calibration: Calibration | null): Measurement {
+  if (calibration === null) {
+    return { normalized, millimeters: null, uncertaintyMm: null };
+  }
+
+  const millimeters = normalized * calibration.millimetersPerUnit;
+  const uncertaintyMm = Math.hypot(
+    millimeters * calibration.relativeUncertainty,
+    LANDMARK_ERROR * calibration.millimetersPerUnit
+  );
+
+  return { normalized, millimeters, uncertaintyMm };
+}
+
+/**
+ * Express every length in the features in both normalized units and millimeters
+ */
+export function calibrateFeatures(
+  features: FacialFeatures,
+  calibration: Calibration | null
+): CalibratedMeasurements {
+  const { eyes, nose, jaw, mouth } = features;
+  const measure = (value: number): Measurement => toMeasurement(value, calibration);
+
+  return {
+    calibration,
+    eyes: {
+      leftWidth: measure(eyes.leftEye.width),
+      leftHeight: measure(eyes.leftEye.height),
+      rightWidth: measure(eyes.rightEye.width),
+      rightHeight: measure(eyes.rightEye.height),
+      interPupillaryDistance: measure(eyes.interPupillaryDistance),
+      irisDiameter: eyes.irisDiameter === null ? null : measure(eyes.irisDiameter),
+    },
+    nose: {
+      width: measure(nose.width),
+      length: measure(nose.length),
+      bridgeWidth: measure(nose.bridgeWidth),
+    },
+    jaw: {
+      width: measure(jaw.width),
+    },
+    mouth: {
+      width: measure(mouth.width),
+      upperLipHeight: measure(mouth.upperLipHeight),
+      lowerLipHeight: measure(mouth.lowerLipHeight),
+    },
+  };
+}
+
+function calibrateFromIris(features: FacialFeatures): Calibration | null {
+  const { irisDiameter, leftEye, rightEye } = features.eyes;
+  if (irisDiameter === null || irisDiameter <= 0) return null;
+
+  // Disagreement between the two irises shows how well the mesh fits this frame
+  const left = leftEye.iris?.diameter ?? irisDiameter;
+  const right = rightEye.iris?.diameter ?? irisDiameter;
+  const disagreement = Math.abs(left - right) / (left + right);
+
+  return {
+    source: 'iris',
+    millimetersPerUnit: IRIS_DIAMETER_MM / irisDiameter,
+    relativeUncertainty: Math.hypot(
+      IRIS_DIAMETER_SD_MM / IRIS_DIAMETER_MM,
+      LANDMARK_ERROR / irisDiameter,
+      disagreement
+    ),
+  };
+}
+
+function calibrateFromIpd(features: FacialFeatures, millimeters: number): Calibration | null {
+  assertPositive(millimeters, 'IPD must be a positive number of millimeters');
+  const [min, max] = IPD_RANGE_MM;
+  if (millimeters < min || millimeters > max) {
+    throw createCalibrationError('INVALID_REFERENCE', `IPD must be between ${min} and ${max} mm`, millimeters);
+  }
+
+  const { interPupillaryDistance, interPupillaryDistanceSource } = features.eyes;
+  if (interPupillaryDistance <= 0) return null;
+
+  const pupilError = interPupillaryDistanceSource === 'iris'
+    ? (Math.SQRT2 * LANDMARK_ERROR) / interPupillaryDistance
+    : EYELID_CENTROID_PUPIL_ERROR;
+
+  return {
+    source: 'ipd',
+    millimetersPerUnit: millimeters / interPupillaryDistance,
+    relativeUncertainty: Math.hypot(IPD_ENTRY_ERROR_MM / millimeters, pupilError),
+  };
+}
+
+function assertPositive(value: number, message: string): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw createCalibrationError('INVALID_REFERENCE', message, value);
+  }
+}
+
+function createCalibrationError(
+  code: CalibrationError['code'],
+  message: string,
+  details?: unknown
+): CalibrationError {
+  return {
+    name: 'CalibrationError',
+    message,
+    code,
+    details,
+  };
+}
\ No newline at end of file
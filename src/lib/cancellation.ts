@@ -0,0 +1,127 @@
+/**
+ * Deadlines, cancellation and retry helpers for MediaPipe setup and detection
+ */
+
+import type { MediaPipeError, RetryPolicy } from '@/types/mediapipe';
+
+const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 4000,
+  backoffFactor: 2,
+} as const;
+
+export interface TimeoutOptions {
+  /** Named in the TIMEOUT and ABORTED error messages */
+  readonly operation: string;
+  /** No deadline when omitted, zero or not finite */
+  readonly timeoutMs?: number | undefined;
+  readonly signal?: AbortSignal | undefined;
+}
+
+export interface RetryOptions {
+  readonly signal?: AbortSignal | undefined;
+  /** Only errors this accepts are retried; the rest are thrown at once */
+  readonly shouldRetry: (error: unknown) => boolean;
+}
+
+/**
+ * Run a task against a deadline and an optional caller signal.
+ * The task's own signal aborts when either fires, so it can stop in-flight work.
+ */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  { operation, timeoutMs, signal }: TimeoutOptions
+): Promise<T> {
+  throwIfCancelled(signal, operation);
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const cancelled = new Promise<never>((_, reject) => {
+    const fail = (error: MediaPipeError): void => {
+      controller.abort(error);
+      reject(error);
+    };
+
+    if (timeoutMs !== undefined && timeoutMs > 0 && Number.isFinite(timeoutMs)) {
+      timer = setTimeout(
+        () => fail(createCancellationError('TIMEOUT', `${operation} timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    }
+    onAbort = () => fail(createCancellationError('ABORTED', `${operation} was cancelled`));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), cancelled]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort !== undefined) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Throw the ABORTED error when the signal has already fired, before any work is started for it
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted === true) {
+    throw createCancellationError('ABORTED', `${operation} was cancelled`);
+  }
+}
+
+/**
+ * Retry a task with exponentially growing delays between attempts
+ */
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = {},
+  { signal, shouldRetry }: RetryOptions
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+  const initialDelayMs = policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const backoffFactor = policy.backoffFactor ?? DEFAULT_RETRY_POLICY.backoffFactor;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || signal?.aborted === true || !shouldRetry(error)) throw error;
+      await delay(Math.min(maxDelayMs, initialDelayMs * backoffFactor ** (attempt - 1)), signal);
+    }
+  }
+}
+
+/**
+ * Whether an error is a TIMEOUT or ABORTED error from these helpers
+ */
+export function isCancellationError(error: unknown): error is MediaPipeError {
+  if (typeof error !== 'object' || error === null) return false;
+  const code = (error as { code?: unknown }).code;
+  return code === 'TIMEOUT' || code === 'ABORTED';
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(createCancellationError('ABORTED', 'Retry was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function createCancellationError(code: 'TIMEOUT' | 'ABORTED', message: string): MediaPipeError {
+  return {
+    name: code === 'TIMEOUT' ? 'MediaPipeTimeoutError' : 'MediaPipeAbortError',
+    message,
+    code,
+  };
+}
\ No newline at end of file
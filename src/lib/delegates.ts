@@ -0,0 +1,43 @@
+/**
+ * Inference delegate probing module
+ * Decides which MediaPipe delegates are worth trying on the current device
+ */
+
+import type { Delegate, DelegatePreference } from '@/types/mediapipe';
+
+/**
+ * Check whether a WebGL2 context can be created, which the GPU delegate requires
+ */
+export function isWebGL2Available(): boolean {
+  try {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const context = new OffscreenCanvas(1, 1).getContext('webgl2');
+      if (context !== null) return true;
+    }
+
+    if (typeof document !== 'undefined') {
+      return document.createElement('canvas').getContext('webgl2') !== null;
+    }
+  } catch {
+    // Some browsers throw instead of returning null when WebGL is blocked
+  }
+
+  return false;
+}
+
+/**
+ * Order in which delegates should be attempted for a preference
+ */
+export function resolveDelegateOrder(
+  preference: DelegatePreference,
+  webgl2Available: boolean
+): readonly Delegate[] {
+  switch (preference) {
+    case 'GPU':
+      return ['GPU'];
+    case 'CPU':
+      return ['CPU'];
+    case 'auto':
+      return webgl2Available ? ['GPU', 'CPU'] : ['CPU'];
+  }
+}
\ No newline at end of file
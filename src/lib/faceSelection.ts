@@ -0,0 +1,151 @@
+/**
+ * Face selection utilities for multi-face detection results
+ * Builds per-face bounding boxes and picks the primary face to analyze
+ */
+
+import type {
+  FaceLandmarkerResult,
+  NormalizedLandmark,
+  DetectedFace,
+  FaceBoundingBox,
+  FaceSelectionPolicy,
+} from '@/types/mediapipe';
+import { extractIrises } from '@/lib/iris';
+
+export const DEFAULT_SELECTION_POLICY: FaceSelectionPolicy = { type: 'largest' } as const;
+
+/**
+ * Calculate the normalized bounding box enclosing a set of landmarks
+ */
+export function calculateFaceBoundingBox(landmarks: readonly NormalizedLandmark[]): FaceBoundingBox {
+  if (landmarks.length === 0) {
+    return { left: 0, top: 0, width: 0, height: 0 };
+  }
+
+  let minX = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+
+  for (const landmark of landmarks) {
+    minX = Math.min(minX, landmark.x);
+    maxX = Math.max(maxX, landmark.x);
+    minY = Math.min(minY, landmark.y);
+    maxY = Math.max(maxY, landmark.y);
+  }
+
+  return {
+    left: minX,
+    top: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+  };
+}
+
+/**
+ * Estimate detection confidence for a face from its landmarks
+ */
+export function estimateFaceConfidence(landmarks: readonly NormalizedLandmark[]): number {
+  // Face Landmarker does not report a per-face score, so landmark presence
+  // (or visibility) is the closest signal; models that omit both count as certain
+  let total = 0;
+  let count = 0;
+
+  for (const landmark of landmarks) {
+    const score = landmark.presence ?? landmark.visibility;
+    if (score !== undefined && score > 0) {
+      total += score;
+      count++;
+    }
+  }
+
+  return count === 0 ? 1 : Math.max(0, Math.min(1, total / count));
+}
+
+/**
+ * Convert a raw landmarker result into detected face records
+ */
+export function createDetectedFaces(result: FaceLandmarkerResult): readonly DetectedFace[] {
+  const faces: DetectedFace[] = [];
+
+  // Blendshapes and matrices are parallel to faceLandmarks and absent when disabled
+  result.faceLandmarks.forEach((landmarks, index) => {
+    if (landmarks.length === 0) return;
+
+    faces.push({
+      index,
+      landmarks,
+      boundingBox: calculateFaceBoundingBox(landmarks),
+      confidence: estimateFaceConfidence(landmarks),
+      blendshapes: result.faceBlendshapes?.[index]?.categories ?? [],
+      transformationMatrix: result.facialTransformationMatrixes?.[index] ?? null,
+      irises: extractIrises(landmarks),
+    });
+  });
+
+  return faces;
+}
+
+/**
+ * Find the face whose bounding box contains a normalized point
+ */
+export function findFaceAtPoint(
+  faces: readonly DetectedFace[],
+  x: number,
+  y: number
+): DetectedFace | undefined {
+  const containing = faces.filter(face => {
+    const box = face.boundingBox;
+    return x >= box.left && x <= box.left + box.width && y >= box.top && y <= box.top + box.height;
+  });
+
+  // Prefer the smallest box when faces overlap (the tapped face is usually in front)
+  if (containing.length > 0) {
+    return containing.reduce((best, face) => (boxArea(face.boundingBox) < boxArea(best.boundingBox) ? face : best));
+  }
+
+  // Fall back to the face whose center is nearest to the point
+  return minBy(faces, face => distanceToCenter(face.boundingBox, x, y));
+}
+
+/**
+ * Select the primary face to analyze according to a selection policy
+ */
+export function selectPrimaryFace(
+  faces: readonly DetectedFace[],
+  policy: FaceSelectionPolicy = DEFAULT_SELECTION_POLICY
+): DetectedFace | undefined {
+  switch (policy.type) {
+    case 'largest':
+      return minBy(faces, face => -boxArea(face.boundingBox));
+    case 'most_centered':
+      return minBy(faces, face => distanceToCenter(face.boundingBox, 0.5, 0.5));
+    case 'point':
+      return findFaceAtPoint(faces, policy.x, policy.y);
+  }
+}
+
+function boxArea(box: FaceBoundingBox): number {
+  return box.width * box.height;
+}
+
+function distanceToCenter(box: FaceBoundingBox, x: number, y: number): number {
+  const centerX = box.left + box.width / 2;
+  const centerY = box.top + box.height / 2;
+  return Math.sqrt(Math.pow(centerX - x, 2) + Math.pow(centerY - y, 2));
+}
+
+function minBy<T>(items: readonly T[], key: (item: T) => number): T | undefined {
+  let best: T | undefined;
+  let bestKey = Number.POSITIVE_INFINITY;
+
+  for (const item of items) {
+    const value = key(item);
+    if (value < bestKey) {
+      best = item;
+      bestKey = value;
+    }
+  }
+
+  return best;
+}
\ No newline at end of file
@@ -0,0 +1,254 @@
+/**
+ * Fixture-driven face detector
+ * Replays recorded landmark sets so the analysis pipeline runs without a browser, WebGL or the model
+ */
+
+import type {
+  Category,
+  DetectedFace,
+  FaceSelectionPolicy,
+  MediaPipeCapabilities,
+  MediaPipeError,
+  Matrix,
+  NormalizedLandmark,
+} from '@/types/mediapipe';
+import type {
+  FaceDetector,
+  FixtureFaceDetectorOptions,
+  LandmarkFixture,
+  LandmarkFixtureFace,
+} from '@/types/detector';
+import type { FrameSource } from '@/types/frame';
+import {
+  calculateFaceBoundingBox,
+  estimateFaceConfidence,
+  selectPrimaryFace,
+  DEFAULT_SELECTION_POLICY,
+} from '@/lib/faceSelection';
+import { extractIrises } from '@/lib/iris';
+
+// Face mesh without and with the refined iris points
+const SUPPORTED_LANDMARK_COUNTS: readonly number[] = [468, 478];
+
+export class FixtureFaceDetector implements FaceDetector {
+  private cursor = 0;
+
+  constructor(
+    private readonly fixtures: readonly LandmarkFixture[],
+    private readonly options: FixtureFaceDetectorOptions = {}
+  ) {}
+
+  /**
+   * Build a detector from raw JSON values (parsed objects or strings)
+   */
+  static fromJson(...values: readonly unknown[]): FixtureFaceDetector {
+    return new FixtureFaceDetector(
+      values.map(value => parseLandmarkFixture(typeof value === 'string' ? JSON.parse(value) as unknown : value))
+    );
+  }
+
+  initialize(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Return the faces of the next fixture; the input image is ignored
+   */
+  detectFaces(): Promise<readonly DetectedFace[]> {
+    return Promise.resolve(this.nextFaces());
+  }
+
+  detectFacesForVideo(): Promise<readonly DetectedFace[]> {
+    return Promise.resolve(this.nextFaces());
+  }
+
+  async detectLandmarks(
+    _input: FrameSource,
+    policy: FaceSelectionPolicy = DEFAULT_SELECTION_POLICY
+  ): Promise<readonly NormalizedLandmark[]> {
+    const faces = await this.detectFaces();
+    return selectPrimaryFace(faces, policy)?.landmarks ?? [];
+  }
+
+  getCapabilities(): MediaPipeCapabilities | null {
+    return null;
+  }
+
+  /**
+   * Rewind to the first fixture
+   */
+  reset(): void {
+    this.cursor = 0;
+  }
+
+  dispose(): void {
+    this.reset();
+  }
+
+  private nextFaces(): readonly DetectedFace[] {
+    const count = this.fixtures.length;
+    if (count === 0) return [];
+
+    // Past the end, either loop or keep replaying the final fixture
+    const index = this.options.loop === true ? this.cursor % count : Math.min(this.cursor, count - 1);
+    this.cursor++;
+
+    const fixture = this.fixtures[index];
+    return fixture === undefined ? [] : fixture.faces.map(createFixtureFace);
+  }
+}
+
+/**
+ * Validate a parsed JSON value as a landmark fixture
+ */
+export function parseLandmarkFixture(value: unknown): LandmarkFixture {
+  const record = asRecord(value, 'fixture');
+  const faces = record['faces'];
+  if (!Array.isArray(faces)) {
+    throw createFixtureError('Fixture must contain a "faces" array');
+  }
+
+  return {
+    name: typeof record['name'] === 'string' ? record['name'] : 'unnamed',
+    imageWidth: readPositiveNumber(record['imageWidth'], 'imageWidth'),
+    imageHeight: readPositiveNumber(record['imageHeight'], 'imageHeight'),
+    faces: faces.map((face: unknown, i) => parseFixtureFace(face, i)),
+  };
+}
+
+/**
+ * Record detected faces as a fixture that can be saved with JSON.stringify
+ */
+export function createLandmarkFixture(
+  name: string,
+  faces: readonly DetectedFace[],
+  imageWidth: number,
+  imageHeight: number
+): LandmarkFixture {
+  return {
+    name,
+    imageWidth,
+    imageHeight,
+    faces: faces.map(face => ({
+      landmarks: face.landmarks,
+      blendshapes: face.blendshapes,
+      transformationMatrix: face.transformationMatrix,
+    })),
+  };
+}
+
+function createFixtureFace(face: LandmarkFixtureFace, index: number): DetectedFace {
+  return {
+    index,
+    landmarks: face.landmarks,
+    boundingBox: calculateFaceBoundingBox(face.landmarks),
+    confidence: estimateFaceConfidence(face.landmarks),
+    blendshapes: face.blendshapes ?? [],
+    transformationMatrix: face.transformationMatrix ?? null,
+    irises: extractIrises(face.landmarks),
+  };
+}
+
+function parseFixtureFace(value: unknown, faceIndex: number): LandmarkFixtureFace {
+  const record = asRecord(value, `faces[${faceIndex}]`);
+  const landmarks = record['landmarks'];
+  if (!Array.isArray(landmarks) || !SUPPORTED_LANDMARK_COUNTS.includes(landmarks.length)) {
+    throw createFixtureError(
+      `faces[${faceIndex}].landmarks must contain ${SUPPORTED_LANDMARK_COUNTS.join(' or ')} points`
+    );
+  }
+
+  const blendshapes = record['blendshapes'];
+  const matrix = record['transformationMatrix'];
+
+  return {
+    landmarks: landmarks.map((point: unknown, i) => parseLandmark(point, `faces[${faceIndex}].landmarks[${i}]`)),
+    ...(Array.isArray(blendshapes) && {
+      blendshapes: blendshapes.map((category: unknown, i) => parseCategory(category, i)),
+    }),
+    ...(matrix !== undefined && matrix !== null && { transformationMatrix: parseMatrix(matrix, faceIndex) }),
+  };
+}
+
+function parseLandmark(value: unknown, path: string): NormalizedLandmark {
+  // Points may be recorded compactly as [x, y, z] tuples
+  if (Array.isArray(value)) {
+    const [x, y, z] = value as unknown[];
+    return {
+      x: readNumber(x, `${path}[0]`),
+      y: readNumber(y, `${path}[1]`),
+      ...(z !== undefined && { z: readNumber(z, `${path}[2]`) }),
+    };
+  }
+
+  const record = asRecord(value, path);
+  return {
+    x: readNumber(record['x'], `${path}.x`),
+    y: readNumber(record['y'], `${path}.y`),
+    ...(record['z'] !== undefined && { z: readNumber(record['z'], `${path}.z`) }),
+    ...(record['visibility'] !== undefined && { visibility: readNumber(record['visibility'], `${path}.visibility`) }),
+    ...(record['presence'] !== undefined && { presence: readNumber(record['presence'], `${path}.presence`) }),
+  };
+}
+
+function parseCategory(value: unknown, index: number): Category {
+  const record = asRecord(value, `blendshapes[${index}]`);
+  const categoryName = record['categoryName'];
+  if (typeof categoryName !== 'string') {
+    throw createFixtureError(`blendshapes[${index}].categoryName must be a string`);
+  }
+
+  return {
+    index: typeof record['index'] === 'number' ? record['index'] : index,
+    score: readNumber(record['score'], `blendshapes[${index}].score`),
+    categoryName,
+    displayName: typeof record['displayName'] === 'string' ? record['displayName'] : '',
+  };
+}
+
+function parseMatrix(value: unknown, faceIndex: number): Matrix {
+  const path = `faces[${faceIndex}].transformationMatrix`;
+  const record = asRecord(value, path);
+  const rows = readPositiveNumber(record['rows'], `${path}.rows`);
+  const columns = readPositiveNumber(record['columns'], `${path}.columns`);
+  const data = record['data'];
+  if (!Array.isArray(data) || data.length !== rows * columns) {
+    throw createFixtureError(`${path}.data must contain rows × columns values`);
+  }
+
+  return {
+    rows,
+    columns,
+    data: data.map((entry: unknown, i) => readNumber(entry, `${path}.data[${i}]`)),
+  };
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw createFixtureError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw createFixtureError(`${path} must be a finite number`);
+  }
+  return value;
+}
+
+function readPositiveNumber(value: unknown, path: string): number {
+  const number = readNumber(value, path);
+  if (number <= 0) {
+    throw createFixtureError(`${path} must be positive`);
+  }
+  return number;
+}
+
+function createFixtureError(message: string): MediaPipeError {
+  return {
+    name: 'LandmarkFixtureError',
+    message: `Invalid landmark fixture: ${message}`,
+    code: 'INVALID_FIXTURE',
+  };
+}
\ No newline at end of file
@@ -0,0 +1,342 @@
+/**
+ * Multi-frame feature aggregation
+ * Rejects outlier frames and takes per-metric medians so landmark jitter does not move the scores
+ */
+
+import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { PoseCorrection } from '@/types/pose';
+import type {
+  BrowMetrics,
+  EyeMetrics,
+  FacialFeatures,
+  FrameCoverage,
+  IrisMetrics,
+  JawMetrics,
+  MouthMetrics,
+  NoseMetrics,
+  ProportionMetrics,
+  SingleBrowMetrics,
+  SingleEyeMetrics,
+} from '@/types/metrics';
+import type { AggregatedFeatures, AggregationError, AggregationOptions, MetricSpread } from '@/types/aggregation';
+
+// Iglewicz and Hoaglin's modified z-score cut-off
+const DEFAULT_OUTLIER_THRESHOLD = 3.5;
+const DEFAULT_MAX_OUTLIER_SHARE = 0.25;
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_TO_SIGMA = 1.4826;
+
+// Outlier rejection needs a majority to define "normal"
+const MIN_FRAMES_FOR_REJECTION = 3;
+
+// Landmark positions (including the estimated trichion), the pose and the frame coverage move with the head rather
+// than the face's shape, so they take per-entry medians like every other value but are neither scored for outliers
+// nor reported as spread
+const UNSCORED_KEYS: ReadonlySet<string> = new Set(['landmarks', 'center', 'trichion', 'alignment', 'frameCoverage']);
+
+/**
+ * Combine the features measured on several frames of the same face
+ */
+export function aggregateFacialFeatures(
+  frames: readonly FacialFeatures[],
+  options: AggregationOptions = {}
+): AggregatedFeatures {
+  const [firstFrame] = frames;
+  if (firstFrame === undefined) {
+    const error: AggregationError = {
+      name: 'AggregationError',
+      message: 'At least one frame is needed to aggregate features',
+      code: 'INSUFFICIENT_FRAMES',
+    };
+    throw error;
+  }
+
+  const outlierThreshold = options.outlierThreshold ?? DEFAULT_OUTLIER_THRESHOLD;
+  const maxOutlierShare = options.maxOutlierShare ?? DEFAULT_MAX_OUTLIER_SHARE;
+
+  const frameMetrics = frames.map(frame => flattenMetrics(frame));
+  const paths = [...new Set(frameMetrics.flatMap(metrics => [...metrics.keys()]))];
+
+  // Score every frame against the medians of all frames
+  const initialSpreads = new Map(paths.map(path => [path, describeSpread(collectValues(frameMetrics, path))]));
+  const frameScores = frameMetrics.map(metrics => {
+    let outliers = 0;
+    let scored = 0;
+    let zTotal = 0;
+    for (const [path, value] of metrics) {
+      const spread = initialSpreads.get(path);
+      if (spread === undefined || spread.mad === 0) continue;
+
+      const z = Math.abs(value - spread.median) / (MAD_TO_SIGMA * spread.mad);
+      zTotal += z;
+      scored++;
+      if (z > outlierThreshold) outliers++;
+    }
+    return {
+      outlierShare: scored === 0 ? 0 : outliers / scored,
+      meanZ: scored === 0 ? 0 : zTotal / scored,
+    };
+  });
+
+  const outlierFrames = frames.length < MIN_FRAMES_FOR_REJECTION
+    ? []
+    : frameScores.flatMap((score, index) => score.outlierShare > maxOutlierShare ? [index] : []);
+  // Never reject every frame; a uniformly noisy burst is still better than nothing
+  const rejectedFrames = outlierFrames.length === frames.length ? [] : outlierFrames;
+  const keptIndices = frames.map((_, index) => index).filter(index => !rejectedFrames.includes(index));
+
+  const keptFrames = keptIndices.flatMap(index => frames[index] ?? []);
+  const keptMetrics = keptIndices.flatMap(index => frameMetrics[index] ?? []);
+
+  const representativeFrame = keptIndices.reduce((best, index) =>
+    (frameScores[index]?.meanZ ?? Infinity) < (frameScores[best]?.meanZ ?? Infinity) ? index : best
+  );
+  const representative = frames[representativeFrame] ?? firstFrame;
+
+  return {
+    features: medianFeatures(representative, keptFrames),
+    frameCount: frames.length,
+    rejectedFrames,
+    representativeFrame,
+    spread: Object.fromEntries(paths.map(path => [path, describeSpread(collectValues(keptMetrics, path))])),
+  };
+}
+
+type MedianOf<T> = (select: (frame: T) => number | null | undefined) => number;
+
+/**
+ * Median of one number across the frames; frames where it is missing or not finite are
+ * skipped, and the template's value is kept when no frame has it
+ */
+function medianAcross<T>(template: T, frames: readonly T[]): MedianOf<T> {
+  return select => {
+    const values = frames.flatMap(frame => {
+      const value = select(frame);
+      return typeof value === 'number' && Number.isFinite(value) ? [value] : [];
+    });
+    return values.length === 0 ? select(template) ?? NaN : median(values);
+  };
+}
+
+/**
+ * Replace every number in the template with the median of the same field across the frames.
+ * Labels such as the pupil source and alignment method come from the template frame.
+ */
+function medianFeatures(template: FacialFeatures, frames: readonly FacialFeatures[]): FacialFeatures {
+  return {
+    eyes: medianEyes(template.eyes, frames.map(frame => frame.eyes)),
+    brows: medianBrows(template.brows, frames.map(frame => frame.brows)),
+    nose: medianNose(template.nose, frames.map(frame => frame.nose)),
+    jaw: medianJaw(template.jaw, frames.map(frame => frame.jaw)),
+    mouth: medianMouth(template.mouth, frames.map(frame => frame.mouth)),
+    proportions: medianProportions(template.proportions, frames.map(frame => frame.proportions)),
+    alignment: medianAlignment(template.alignment, frames.map(frame => frame.alignment)),
+    frameCoverage: medianCoverage(template.frameCoverage, frames.map(frame => frame.frameCoverage)),
+  };
+}
+
+function medianEyes(template: EyeMetrics, frames: readonly EyeMetrics[]): EyeMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    leftEye: medianEye(template.leftEye, frames.map(frame => frame.leftEye)),
+    rightEye: medianEye(template.rightEye, frames.map(frame => frame.rightEye)),
+    interPupillaryDistance: medianOf(frame => frame.interPupillaryDistance),
+    interPupillaryDistanceSource: template.interPupillaryDistanceSource,
+    irisDiameter: template.irisDiameter === null ? null : medianOf(frame => frame.irisDiameter),
+    eyeSymmetry: medianOf(frame => frame.eyeSymmetry),
+  };
+}
+
+function medianEye(template: SingleEyeMetrics, frames: readonly SingleEyeMetrics[]): SingleEyeMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    width: medianOf(frame => frame.width),
+    height: medianOf(frame => frame.height),
+    aspectRatio: medianOf(frame => frame.aspectRatio),
+    tilt: medianOf(frame => frame.tilt),
+    iris: template.iris === null ? null : medianIris(template.iris, frames.flatMap(frame => frame.iris ?? [])),
+    landmarks: medianLandmarks(template.landmarks, frames.map(frame => frame.landmarks)),
+  };
+}
+
+function medianIris(template: IrisMetrics, frames: readonly IrisMetrics[]): IrisMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    center: medianLandmark(template.center, frames.map(frame => frame.center)),
+    diameter: medianOf(frame => frame.diameter),
+    pupilPosition: {
+      horizontal: medianOf(frame => frame.pupilPosition.horizontal),
+      vertical: medianOf(frame => frame.pupilPosition.vertical),
+    },
+  };
+}
+
+function medianBrows(template: BrowMetrics, frames: readonly BrowMetrics[]): BrowMetrics {
+  return {
+    leftBrow: medianBrow(template.leftBrow, frames.map(frame => frame.leftBrow)),
+    rightBrow: medianBrow(template.rightBrow, frames.map(frame => frame.rightBrow)),
+    symmetry: medianAcross(template, frames)(frame => frame.symmetry),
+  };
+}
+
+function medianBrow(template: SingleBrowMetrics, frames: readonly SingleBrowMetrics[]): SingleBrowMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    length: medianOf(frame => frame.length),
+    archHeight: medianOf(frame => frame.archHeight),
+    archRatio: medianOf(frame => frame.archRatio),
+    peakPosition: medianOf(frame => frame.peakPosition),
+    peakOffset: medianOf(frame => frame.peakOffset),
+    tilt: medianOf(frame => frame.tilt),
+    browEyeDistance: medianOf(frame => frame.browEyeDistance),
+    browEyeRatio: medianOf(frame => frame.browEyeRatio),
+    landmarks: medianLandmarks(template.landmarks, frames.map(frame => frame.landmarks)),
+  };
+}
+
+function medianNose(template: NoseMetrics, frames: readonly NoseMetrics[]): NoseMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    width: medianOf(frame => frame.width),
+    length: medianOf(frame => frame.length),
+    tipProjection: medianOf(frame => frame.tipProjection),
+    bridgeWidth: medianOf(frame => frame.bridgeWidth),
+    nostrilSymmetry: medianOf(frame => frame.nostrilSymmetry),
+    landmarks: medianLandmarks(template.landmarks, frames.map(frame => frame.landmarks)),
+  };
+}
+
+function medianJaw(template: JawMetrics, frames: readonly JawMetrics[]): JawMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    width: medianOf(frame => frame.width),
+    angle: medianOf(frame => frame.angle),
+    chinProjection: medianOf(frame => frame.chinProjection),
+    lowerFaceRatio: medianOf(frame => frame.lowerFaceRatio),
+    asymmetry: medianOf(frame => frame.asymmetry),
+    landmarks: medianLandmarks(template.landmarks, frames.map(frame => frame.landmarks)),
+  };
+}
+
+function medianMouth(template: MouthMetrics, frames: readonly MouthMetrics[]): MouthMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    width: medianOf(frame => frame.width),
+    upperLipHeight: medianOf(frame => frame.upperLipHeight),
+    lowerLipHeight: medianOf(frame => frame.lowerLipHeight),
+    lipRatio: medianOf(frame => frame.lipRatio),
+    widthToIpdRatio: medianOf(frame => frame.widthToIpdRatio),
+    cupidsBowSymmetry: medianOf(frame => frame.cupidsBowSymmetry),
+    commissureTilt: medianOf(frame => frame.commissureTilt),
+    landmarks: medianLandmarks(template.landmarks, frames.map(frame => frame.landmarks)),
+  };
+}
+
+function medianProportions(template: ProportionMetrics, frames: readonly ProportionMetrics[]): ProportionMetrics {
+  const medianOf = medianAcross(template, frames);
+  return {
+    thirds: [
+      medianOf(frame => frame.thirds[0]),
+      medianOf(frame => frame.thirds[1]),
+      medianOf(frame => frame.thirds[2]),
+    ],
+    fifths: [
+      medianOf(frame => frame.fifths[0]),
+      medianOf(frame => frame.fifths[1]),
+      medianOf(frame => frame.fifths[2]),
+      medianOf(frame => frame.fifths[3]),
+      medianOf(frame => frame.fifths[4]),
+    ],
+    thirdsDeviation: medianOf(frame => frame.thirdsDeviation),
+    fifthsDeviation: medianOf(frame => frame.fifthsDeviation),
+    faceRatio: medianOf(frame => frame.faceRatio),
+    trichion: medianLandmark(template.trichion, frames.map(frame => frame.trichion)),
+    landmarks: medianLandmarks(template.landmarks, frames.map(frame => frame.landmarks)),
+  };
+}
+
+function medianAlignment(template: PoseCorrection, frames: readonly PoseCorrection[]): PoseCorrection {
+  const medianOf = medianAcross(template, frames);
+  return {
+    method: template.method,
+    yaw: medianOf(frame => frame.yaw),
+    pitch: medianOf(frame => frame.pitch),
+    roll: medianOf(frame => frame.roll),
+    angle: medianOf(frame => frame.angle),
+    residual: template.residual === null ? null : medianOf(frame => frame.residual),
+  };
+}
+
+function medianCoverage(template: FrameCoverage, frames: readonly FrameCoverage[]): FrameCoverage {
+  const medianOf = medianAcross(template, frames);
+  return {
+    eyes: medianOf(frame => frame.eyes),
+    brows: medianOf(frame => frame.brows),
+    nose: medianOf(frame => frame.nose),
+    jaw: medianOf(frame => frame.jaw),
+    mouth: medianOf(frame => frame.mouth),
+    proportions: medianOf(frame => frame.proportions),
+  };
+}
+
+function medianLandmarks(
+  template: readonly NormalizedLandmark[],
+  frames: readonly (readonly NormalizedLandmark[])[]
+): NormalizedLandmark[] {
+  return template.map((point, index) => medianLandmark(point, frames.flatMap(frame => frame[index] ?? [])));
+}
+
+function medianLandmark(template: NormalizedLandmark, frames: readonly NormalizedLandmark[]): NormalizedLandmark {
+  const medianOf = medianAcross(template, frames);
+  return {
+    x: medianOf(point => point.x),
+    y: medianOf(point => point.y),
+    ...(template.z !== undefined && { z: medianOf(point => point.z) }),
+    ...(template.visibility !== undefined && { visibility: medianOf(point => point.visibility) }),
+    ...(template.presence !== undefined && { presence: medianOf(point => point.presence) }),
+  };
+}
+
+function flattenMetrics(value: unknown, path = '', metrics = new Map<string, number>()): Map<string, number> {
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) metrics.set(path, value);
+  } else if (Array.isArray(value)) {
+    value.forEach((entry: unknown, index) => flattenMetrics(entry, `${path}.${index}`, metrics));
+  } else if (isRecord(value)) {
+    for (const [key, entry] of Object.entries(value)) {
+      if (UNSCORED_KEYS.has(key)) continue;
+      flattenMetrics(entry, path === '' ? key : `${path}.${key}`, metrics);
+    }
+  }
+  return metrics;
+}
+
+function collectValues(frameMetrics: readonly Map<string, number>[], path: string): number[] {
+  return frameMetrics.flatMap(metrics => metrics.get(path) ?? []);
+}
+
+function describeSpread(values: readonly number[]): MetricSpread {
+  const center = median(values);
+  const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+  return {
+    median: center,
+    mad: median(values.map(value => Math.abs(value - center))),
+    variance: values.length < 2
+      ? 0
+      : values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1),
+  };
+}
+
+function median(values: readonly number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? 0
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
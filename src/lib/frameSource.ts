@@ -0,0 +1,56 @@
+/**
+ * Frame source access
+ * One way to read the size and RGBA pixels of any frame source, on the main thread or in a worker
+ */
+
+import type { FrameDimensions, FrameSource } from '@/types/frame';
+
+/**
+ * Intrinsic size of a frame, ignoring any CSS or display scaling of elements
+ */
+export function getFrameDimensions(source: FrameSource): FrameDimensions {
+  // Checked structurally: the HTML element constructors do not exist in workers
+  if ('videoWidth' in source) return { width: source.videoWidth, height: source.videoHeight };
+  if ('naturalWidth' in source) return { width: source.naturalWidth, height: source.naturalHeight };
+  if ('displayWidth' in source) return { width: source.displayWidth, height: source.displayHeight };
+  return { width: source.width, height: source.height };
+}
+
+/**
+ * Width over height, or 1 for an empty frame
+ */
+export function getFrameAspectRatio(source: FrameSource): number {
+  const { width, height } = getFrameDimensions(source);
+  return height > 0 ? width / height : 1;
+}
+
+/**
+ * Read the RGBA pixels of a frame; ImageData is returned as is
+ */
+export function readFramePixels(source: FrameSource): ImageData {
+  if ('data' in source) return source;
+
+  const { width, height } = getFrameDimensions(source);
+  if (width === 0 || height === 0) {
+    throw new Error('Frame has no pixels to read (image not loaded or video not ready)');
+  }
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const ctx = new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+    if (ctx === null) {
+      throw new Error('Could not get canvas context for frame pixels');
+    }
+    ctx.drawImage(source, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (ctx === null) {
+    throw new Error('Could not get canvas context for frame pixels');
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
\ No newline at end of file
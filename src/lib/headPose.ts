@@ -0,0 +1,122 @@
+/**
+ * Head pose estimation module
+ * Solves yaw/pitch/roll from the facial transformation matrix, falling back to the 3D landmark mesh
+ */
+
+import type { Matrix, NormalizedLandmark } from '@/types/mediapipe';
+import type { HeadPose, HeadPoseOptions, RotationMatrix, Vector3 } from '@/types/pose';
+import { getMatrixElement } from '@/lib/mediapipe';
+import { add, subtract, scale, dot, cross, length, normalize } from '@/lib/vector';
+
+// Mesh points used to fit the face frame when no transformation matrix is available
+const POSE_ANCHORS = {
+  CHEEK_LEFT: 234,
+  CHEEK_RIGHT: 454,
+  EYE_OUTER_LEFT: 33,
+  EYE_OUTER_RIGHT: 263,
+  FOREHEAD: 10,
+  CHIN: 152,
+} as const;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Estimate head pose, preferring the transformation matrix over the landmark fit
+ */
+export function estimateHeadPose(
+  landmarks: readonly NormalizedLandmark[],
+  options: HeadPoseOptions = {}
+): HeadPose | null {
+  if (options.transformationMatrix !== undefined && options.transformationMatrix !== null) {
+    const rotation = rotationFromTransformationMatrix(options.transformationMatrix);
+    if (rotation !== null) {
+      return { ...rotationToEulerAngles(rotation), rotation, source: 'transformation_matrix' };
+    }
+  }
+
+  const rotation = rotationFromLandmarks(landmarks, options.aspectRatio ?? 1);
+  if (rotation === null) return null;
+
+  return { ...rotationToEulerAngles(rotation), rotation, source: 'landmarks' };
+}
+
+/**
+ * Extract the rotation part of a 4x4 facial transformation matrix
+ */
+export function rotationFromTransformationMatrix(matrix: Matrix): RotationMatrix | null {
+  if (matrix.rows < 3 || matrix.columns < 3 || matrix.data.length < matrix.rows * matrix.columns) {
+    return null;
+  }
+
+  // The matrix maps the canonical face into camera space and may carry scale,
+  // so each basis column is normalized before use
+  const columns = [0, 1, 2].map(column =>
+    normalize([
+      getMatrixElement(matrix, 0, column),
+      getMatrixElement(matrix, 1, column),
+      getMatrixElement(matrix, 2, column),
+    ])
+  );
+  const [xAxis, yAxis, zAxis] = columns;
+  if (xAxis === undefined || yAxis === undefined || zAxis === undefined) return null;
+
+  return fromColumns(xAxis, yAxis, zAxis);
+}
+
+/**
+ * Fit a face-aligned frame to the 3D landmark mesh
+ */
+export function rotationFromLandmarks(
+  landmarks: readonly NormalizedLandmark[],
+  aspectRatio: number
+): RotationMatrix | null {
+  const point = (index: number): Vector3 | null => {
+    const landmark = landmarks[index];
+    if (landmark === undefined) return null;
+    // Landmark x and z are scaled by image width and y by height; convert to a
+    // common unit and flip into camera axes (y up, z toward the camera)
+    return [landmark.x * aspectRatio, -landmark.y, -(landmark.z ?? 0) * aspectRatio];
+  };
+
+  const cheekLeft = point(POSE_ANCHORS.CHEEK_LEFT);
+  const cheekRight = point(POSE_ANCHORS.CHEEK_RIGHT);
+  const eyeLeft = point(POSE_ANCHORS.EYE_OUTER_LEFT);
+  const eyeRight = point(POSE_ANCHORS.EYE_OUTER_RIGHT);
+  const forehead = point(POSE_ANCHORS.FOREHEAD);
+  const chin = point(POSE_ANCHORS.CHIN);
+  if (cheekLeft === null || cheekRight === null || eyeLeft === null ||
+      eyeRight === null || forehead === null || chin === null) {
+    return null;
+  }
+
+  // Horizontal axis from two left-to-right spans, vertical axis from chin to forehead
+  const xAxis = normalize(add(subtract(cheekRight, cheekLeft), subtract(eyeRight, eyeLeft)));
+  const rawY = subtract(forehead, chin);
+  const yAxis = normalize(subtract(rawY, scale(xAxis, dot(rawY, xAxis))));
+  const zAxis = cross(xAxis, yAxis);
+
+  if (length(xAxis) === 0 || length(yAxis) === 0) return null;
+
+  return fromColumns(xAxis, yAxis, zAxis);
+}
+
+/**
+ * Decompose a rotation (R = Rz·Ry·Rx) into yaw, pitch and roll in degrees
+ */
+export function rotationToEulerAngles(rotation: RotationMatrix): { yaw: number; pitch: number; roll: number } {
+  const [[r00, , ], [r10, , ], [r20, r21, r22]] = rotation;
+
+  const yaw = Math.asin(Math.max(-1, Math.min(1, -r20))) * RAD_TO_DEG;
+  const pitch = Math.atan2(r21, r22) * RAD_TO_DEG;
+  const roll = Math.atan2(r10, r00) * RAD_TO_DEG;
+
+  return { yaw, pitch, roll };
+}
+
+function fromColumns(xAxis: Vector3, yAxis: Vector3, zAxis: Vector3): RotationMatrix {
+  return [
+    [xAxis[0], yAxis[0], zAxis[0]],
+    [xAxis[1], yAxis[1], zAxis[1]],
+    [xAxis[2], yAxis[2], zAxis[2]],
+  ];
+}
\ No newline at end of file
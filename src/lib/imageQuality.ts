@@ -0,0 +1,120 @@
+/**
+ * Pixel-level image quality analysis
+ * Pure functions over RGBA buffers so they run the same on the main thread and in workers
+ */
+
+import type { ImageQualityMetrics } from '@/types/quality';
+
+/**
+ * Measure brightness, contrast, blur, saturation and noise of an RGBA buffer
+ */
+export function analyzePixelQuality(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+): ImageQualityMetrics {
+  // Calculate brightness (average luminance)
+  let totalBrightness = 0;
+  const pixelCount = pixels.length / 4;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    totalBrightness += luminanceAt(pixels, i);
+  }
+
+  const brightness = totalBrightness / pixelCount;
+
+  // Calculate contrast (standard deviation of luminance)
+  let varianceSum = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    varianceSum += Math.pow(luminanceAt(pixels, i) - brightness, 2);
+  }
+  const contrast = Math.sqrt(varianceSum / pixelCount);
+
+  return {
+    brightness,
+    contrast,
+    blur: estimateBlur(pixels, width, height),
+    saturation: calculateSaturation(pixels),
+    noise: estimateNoise(pixels, width, height),
+  };
+}
+
+/**
+ * Estimate blur from average edge strength (0-1, higher = more blur)
+ */
+export function estimateBlur(pixels: Uint8ClampedArray, width: number, height: number): number {
+  let edgeSum = 0;
+  let edgeCount = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = (y * width + x) * 4;
+      const current = pixels[index] ?? 0;
+      const right = pixels[index + 4] ?? 0;
+      const down = pixels[(y + 1) * width * 4 + x * 4] ?? 0;
+
+      const edgeStrength = Math.abs(current - right) + Math.abs(current - down);
+      edgeSum += edgeStrength;
+      edgeCount++;
+    }
+  }
+
+  const averageEdge = edgeSum / edgeCount;
+  // Normalize to 0-1 range (higher = more blur)
+  return Math.max(0, Math.min(1, 1 - averageEdge / 255));
+}
+
+/**
+ * Average HSV saturation on a 0-255 scale
+ */
+export function calculateSaturation(pixels: Uint8ClampedArray): number {
+  let totalSaturation = 0;
+  const pixelCount = pixels.length / 4;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i] ?? 0;
+    const g = pixels[i + 1] ?? 0;
+    const b = pixels[i + 2] ?? 0;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    totalSaturation += saturation;
+  }
+
+  return (totalSaturation / pixelCount) * 255;
+}
+
+/**
+ * Estimate noise as the mean local luminance variance on a sparse grid
+ */
+export function estimateNoise(pixels: Uint8ClampedArray, width: number, height: number): number {
+  let totalVariance = 0;
+  let sampleCount = 0;
+
+  for (let y = 1; y < height - 1; y += 4) {
+    for (let x = 1; x < width - 1; x += 4) {
+      const neighbors: number[] = [];
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          neighbors.push(luminanceAt(pixels, ((y + dy) * width + (x + dx)) * 4));
+        }
+      }
+
+      const mean = neighbors.reduce((sum, val) => sum + val, 0) / neighbors.length;
+      const variance = neighbors.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / neighbors.length;
+      totalVariance += variance;
+      sampleCount++;
+    }
+  }
+
+  return totalVariance / sampleCount;
+}
+
+function luminanceAt(pixels: Uint8ClampedArray, index: number): number {
+  // Standard luminance formula
+  return 0.299 * (pixels[index] ?? 0) +
+         0.587 * (pixels[index + 1] ?? 0) +
+         0.114 * (pixels[index + 2] ?? 0);
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * Iris landmark extraction
+ * Reads iris centers and diameters from the refined 478-point face mesh
+ */
+
+import type { FaceIrises, IrisLandmarks, NormalizedLandmark } from '@/types/mediapipe';
+
+// Landmark count of the mesh with iris refinement (468 face points + 2 × 5 iris points)
+export const REFINED_LANDMARK_COUNT = 478;
+
+// Center first, then the contour around it (side, top, opposite side, bottom).
+// Image-left iris belongs to the subject's right eye, like LANDMARK_INDICES.LEFT_EYE.
+export const IRIS_INDICES = {
+  LEFT: [468, 469, 470, 471, 472] as const,
+  RIGHT: [473, 474, 475, 476, 477] as const,
+} as const;
+
+/**
+ * Whether a landmark set includes the refined iris points
+ */
+export function hasIrisLandmarks(landmarks: readonly NormalizedLandmark[]): boolean {
+  return landmarks.length >= REFINED_LANDMARK_COUNT;
+}
+
+/**
+ * Extract both irises, or null for meshes without iris refinement
+ */
+export function extractIrises(landmarks: readonly NormalizedLandmark[]): FaceIrises | null {
+  if (!hasIrisLandmarks(landmarks)) return null;
+
+  const left = extractIris(landmarks, IRIS_INDICES.LEFT);
+  const right = extractIris(landmarks, IRIS_INDICES.RIGHT);
+  if (left === null || right === null) return null;
+
+  return { left, right };
+}
+
+function extractIris(
+  landmarks: readonly NormalizedLandmark[],
+  indices: readonly [number, number, number, number, number]
+): IrisLandmarks | null {
+  const [centerIndex, ...contourIndices] = indices;
+  const center = landmarks[centerIndex];
+  const contour = contourIndices.map(index => landmarks[index]);
+  const [side, top, oppositeSide, bottom] = contour;
+  if (center === undefined || side === undefined || top === undefined ||
+      oppositeSide === undefined || bottom === undefined) {
+    return null;
+  }
+
+  // Horizontal visible iris diameter, the span population averages describe;
+  // the vertical span is often cut short by the lids
+  const diameter = distance(side, oppositeSide);
+
+  return { center, contour: [side, top, oppositeSide, bottom], diameter };
+}
+
+function distance(point1: NormalizedLandmark, point2: NormalizedLandmark): number {
+  return Math.hypot(point1.x - point2.x, point1.y - point2.y);
+}
\ No newline at end of file
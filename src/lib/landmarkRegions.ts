@@ -0,0 +1,203 @@
+/**
+ * Canonical face mesh region map
+ * Landmark groups and named anchor points taken from the MediaPipe face mesh topology
+ * (the FACEMESH_* contour connections), plus a validator for region maps
+ */
+
+import type { NormalizedLandmark } from '@/types/mediapipe';
+import type {
+  LandmarkAnchor,
+  LandmarkAnchorName,
+  LandmarkRegion,
+  LandmarkRegionIssue,
+  MeshIndex,
+} from '@/types/landmarks';
+import { IRIS_INDICES, REFINED_LANDMARK_COUNT } from '@/lib/iris';
+
+// Eyebrow contours: lower edge from the lateral tail to the medial head, upper edge from the head back out
+export const EYEBROW_EDGES = {
+  LEFT: {
+    lower: [46, 53, 52, 65, 55] as const,
+    upper: [107, 66, 105, 63, 70] as const,
+  },
+  RIGHT: {
+    lower: [276, 283, 282, 295, 285] as const,
+    upper: [336, 296, 334, 293, 300] as const,
+  },
+} as const;
+
+/**
+ * Landmark groups per region. Each group follows its mesh contour, so neighbouring
+ * entries are connected; measurements should use LANDMARK_ANCHORS rather than positions.
+ */
+export const LANDMARK_INDICES = {
+  // Eyelid contours: lower lid from the image-left corner, then upper lid back
+  LEFT_EYE: [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246] as const,
+  RIGHT_EYE: [362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398] as const,
+
+  // Iris landmarks (478-point model only): center, then four contour points
+  LEFT_IRIS: IRIS_INDICES.LEFT,
+  RIGHT_IRIS: IRIS_INDICES.RIGHT,
+
+  LEFT_EYEBROW: [...EYEBROW_EDGES.LEFT.lower, ...EYEBROW_EDGES.LEFT.upper] as const,
+  RIGHT_EYEBROW: [...EYEBROW_EDGES.RIGHT.lower, ...EYEBROW_EDGES.RIGHT.upper] as const,
+
+  // Forehead midline, top of the mesh down to between the brows
+  FOREHEAD: [10, 151, 9, 8] as const,
+
+  // Nose midline from the nasion to the supratip, then the sidewalls beside the nasion
+  NOSE_BRIDGE: [168, 6, 197, 195, 5, 122, 351] as const,
+  // Nose midline from above the tip down to the subnasale
+  NOSE_TIP: [4, 1, 19, 94, 2] as const,
+  // Alar contours from beside the tip round the wing to the columella base
+  NOSTRIL_LEFT: [45, 220, 115, 48, 64, 98, 97] as const,
+  NOSTRIL_RIGHT: [275, 440, 344, 278, 294, 327, 326] as const,
+
+  // Jawline from below the ear down to the side of the chin, mirror images of each other
+  JAW_LEFT: [58, 172, 136, 150, 149, 176] as const,
+  JAW_RIGHT: [288, 397, 365, 379, 378, 400] as const,
+  // Chin outline across the menton, then the midline up towards the lower lip
+  CHIN: [148, 152, 377, 175, 199, 200] as const,
+
+  // Lip landmarks, image-left commissure to image-right commissure
+  LIPS_UPPER_OUTER: [61, 185, 40, 39, 37, 0, 267, 269, 270, 409, 291] as const,
+  LIPS_LOWER_OUTER: [61, 146, 91, 181, 84, 17, 314, 405, 321, 375, 291] as const,
+  LIPS_UPPER_INNER: [78, 191, 80, 81, 82, 13, 312, 311, 310, 415, 308] as const,
+  LIPS_LOWER_INNER: [78, 95, 88, 178, 87, 14, 317, 402, 318, 324, 308] as const,
+
+  // Face silhouette, clockwise from the top of the forehead
+  FACE_OUTLINE: [10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377, 152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109] as const,
+} as const satisfies Readonly<Record<LandmarkRegion, readonly MeshIndex[]>>;
+
+/**
+ * Region pairs that share landmarks where their contours meet
+ */
+export const SHARED_REGION_BOUNDARIES = [
+  // Upper and lower lip contours meet at the commissures
+  ['LIPS_UPPER_OUTER', 'LIPS_LOWER_OUTER'],
+  ['LIPS_UPPER_INNER', 'LIPS_LOWER_INNER'],
+  // The silhouette runs over the forehead top, jawline and chin
+  ['FACE_OUTLINE', 'FOREHEAD'],
+  ['FACE_OUTLINE', 'JAW_LEFT'],
+  ['FACE_OUTLINE', 'JAW_RIGHT'],
+  ['FACE_OUTLINE', 'CHIN'],
+] as const satisfies readonly (readonly [LandmarkRegion, LandmarkRegion])[];
+
+/**
+ * Named landmarks for measurements, independent of the order within each group
+ */
+export const LANDMARK_ANCHORS = {
+  // Canthi and mid-lid points; the image-left eye's outer corner is its image-left corner
+  LEFT_EYE_OUTER_CORNER: { region: 'LEFT_EYE', index: 33 },
+  LEFT_EYE_INNER_CORNER: { region: 'LEFT_EYE', index: 133 },
+  LEFT_EYE_UPPER_LID: { region: 'LEFT_EYE', index: 159 },
+  LEFT_EYE_LOWER_LID: { region: 'LEFT_EYE', index: 145 },
+  RIGHT_EYE_INNER_CORNER: { region: 'RIGHT_EYE', index: 362 },
+  RIGHT_EYE_OUTER_CORNER: { region: 'RIGHT_EYE', index: 263 },
+  RIGHT_EYE_UPPER_LID: { region: 'RIGHT_EYE', index: 386 },
+  RIGHT_EYE_LOWER_LID: { region: 'RIGHT_EYE', index: 374 },
+
+  // Ends of the upper brow edge and the middle of the lower edge
+  LEFT_BROW_HEAD: { region: 'LEFT_EYEBROW', index: 107 },
+  LEFT_BROW_TAIL: { region: 'LEFT_EYEBROW', index: 70 },
+  LEFT_BROW_LOWER_MIDPOINT: { region: 'LEFT_EYEBROW', index: 52 },
+  RIGHT_BROW_HEAD: { region: 'RIGHT_EYEBROW', index: 336 },
+  RIGHT_BROW_TAIL: { region: 'RIGHT_EYEBROW', index: 300 },
+  RIGHT_BROW_LOWER_MIDPOINT: { region: 'RIGHT_EYEBROW', index: 282 },
+
+  // Topmost mesh point, mid-forehead and well below the hairline; proportions extrapolate trichion from it
+  FOREHEAD_TOP: { region: 'FOREHEAD', index: 10 },
+  GLABELLA: { region: 'FOREHEAD', index: 9 },
+
+  NASION: { region: 'NOSE_BRIDGE', index: 168 },
+  LEFT_NOSE_BRIDGE: { region: 'NOSE_BRIDGE', index: 122 },
+  RIGHT_NOSE_BRIDGE: { region: 'NOSE_BRIDGE', index: 351 },
+  NOSE_TIP: { region: 'NOSE_TIP', index: 1 },
+  SUBNASALE: { region: 'NOSE_TIP', index: 2 },
+  // Outermost points of the nostril wings and the nostril ends beside the columella
+  LEFT_ALA: { region: 'NOSTRIL_LEFT', index: 64 },
+  RIGHT_ALA: { region: 'NOSTRIL_RIGHT', index: 294 },
+  LEFT_NOSTRIL_INNER: { region: 'NOSTRIL_LEFT', index: 97 },
+  RIGHT_NOSTRIL_INNER: { region: 'NOSTRIL_RIGHT', index: 326 },
+
+  // Jaw angles, chin sides, the most forward chin point and the lowest one
+  LEFT_GONION: { region: 'JAW_LEFT', index: 172 },
+  RIGHT_GONION: { region: 'JAW_RIGHT', index: 397 },
+  LEFT_CHIN: { region: 'CHIN', index: 148 },
+  RIGHT_CHIN: { region: 'CHIN', index: 377 },
+  POGONION: { region: 'CHIN', index: 175 },
+  MENTON: { region: 'CHIN', index: 152 },
+
+  LEFT_COMMISSURE: { region: 'LIPS_UPPER_OUTER', index: 61 },
+  RIGHT_COMMISSURE: { region: 'LIPS_UPPER_OUTER', index: 291 },
+  LEFT_CUPIDS_BOW_PEAK: { region: 'LIPS_UPPER_OUTER', index: 37 },
+  RIGHT_CUPIDS_BOW_PEAK: { region: 'LIPS_UPPER_OUTER', index: 267 },
+  // Vermilion borders and stomion points at the midline
+  UPPER_LIP_TOP: { region: 'LIPS_UPPER_OUTER', index: 0 },
+  UPPER_LIP_BOTTOM: { region: 'LIPS_UPPER_INNER', index: 13 },
+  LOWER_LIP_TOP: { region: 'LIPS_LOWER_INNER', index: 14 },
+  LOWER_LIP_BOTTOM: { region: 'LIPS_LOWER_OUTER', index: 17 },
+
+  // Cheek edges of the silhouette, the usual face width unit
+  LEFT_FACE_EDGE: { region: 'FACE_OUTLINE', index: 234 },
+  RIGHT_FACE_EDGE: { region: 'FACE_OUTLINE', index: 454 },
+} as const satisfies Readonly<Record<LandmarkAnchorName, LandmarkAnchor>>;
+
+/**
+ * Look up a named anchor landmark, throwing when the mesh does not include it
+ */
+export function getAnchorLandmark(
+  landmarks: readonly NormalizedLandmark[],
+  anchor: LandmarkAnchorName
+): NormalizedLandmark {
+  const landmark = landmarks[LANDMARK_ANCHORS[anchor].index];
+  if (landmark === undefined) {
+    throw new Error(`Missing ${anchor} landmark`);
+  }
+  return landmark;
+}
+
+/**
+ * Check a region map for repeated, out-of-range or cross-region indices and misplaced anchors
+ */
+export function validateLandmarkRegions(
+  regions: Readonly<Record<string, readonly number[]>> = LANDMARK_INDICES,
+  anchors: Readonly<Record<string, { readonly region: string; readonly index: number }>> = LANDMARK_ANCHORS,
+  sharedBoundaries: readonly (readonly [string, string])[] = SHARED_REGION_BOUNDARIES
+): LandmarkRegionIssue[] {
+  const issues: LandmarkRegionIssue[] = [];
+  const owners = new Map<number, string[]>();
+  const isShared = (a: string, b: string): boolean =>
+    sharedBoundaries.some(([first, second]) => (first === a && second === b) || (first === b && second === a));
+
+  for (const [region, indices] of Object.entries(regions)) {
+    const seen = new Set<number>();
+    for (const index of indices) {
+      if (!Number.isInteger(index) || index < 0 || index >= REFINED_LANDMARK_COUNT) {
+        issues.push({ type: 'out_of_range', region, index });
+        continue;
+      }
+      if (seen.has(index)) {
+        issues.push({ type: 'duplicate_index', region, index });
+        continue;
+      }
+      seen.add(index);
+
+      const previousOwners = owners.get(index) ?? [];
+      for (const owner of previousOwners) {
+        if (!isShared(owner, region)) {
+          issues.push({ type: 'cross_region', region, index, otherRegion: owner });
+        }
+      }
+      owners.set(index, [...previousOwners, region]);
+    }
+  }
+
+  for (const [anchor, { region, index }] of Object.entries(anchors)) {
+    if (!(regions[region]?.includes(index) ?? false)) {
+      issues.push({ type: 'anchor_outside_region', region, index, anchor });
+    }
+  }
+
+  return issues;
+}
\ No newline at end of file
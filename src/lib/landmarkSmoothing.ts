@@ -0,0 +1,114 @@
+/**
+ * Temporal landmark smoothing for live video
+ * One Euro filter per coordinate: heavy smoothing while the face is still, little lag once it moves
+ */
+
+import type { NormalizedLandmark } from '@/types/mediapipe';
+
+export interface LandmarkSmoothingOptions {
+  /** Cutoff frequency in Hz when the face is still; lower removes more jitter */
+  readonly minCutoff?: number;
+  /** Cutoff increase per normalized unit/second of speed; higher reduces lag on fast moves */
+  readonly beta?: number;
+  /** Cutoff frequency in Hz for the speed estimate */
+  readonly derivativeCutoff?: number;
+  /** Centroid jump, in normalized image units, treated as a new face rather than motion */
+  readonly resetDistance?: number;
+  /** Gap between frames, in milliseconds, after which the filter starts over */
+  readonly maxFrameGap?: number;
+}
+
+const DEFAULT_SMOOTHING_OPTIONS = {
+  minCutoff: 1.0,
+  beta: 20,
+  derivativeCutoff: 1.0,
+  resetDistance: 0.1,
+  maxFrameGap: 500,
+} as const;
+
+// x, y and z per landmark
+const COORDINATES_PER_LANDMARK = 3;
+
+export class LandmarkSmoother {
+  private values: Float64Array | null = null;
+  private derivatives: Float64Array | null = null;
+  private lastTimestamp = 0;
+  private lastCentroid = { x: 0, y: 0 };
+
+  constructor(private readonly options: LandmarkSmoothingOptions = {}) {}
+
+  /**
+   * Filter one frame of landmarks; timestamps are in milliseconds
+   */
+  smooth(landmarks: readonly NormalizedLandmark[], timestamp: number): readonly NormalizedLandmark[] {
+    const minCutoff = this.options.minCutoff ?? DEFAULT_SMOOTHING_OPTIONS.minCutoff;
+    const beta = this.options.beta ?? DEFAULT_SMOOTHING_OPTIONS.beta;
+    const derivativeCutoff = this.options.derivativeCutoff ?? DEFAULT_SMOOTHING_OPTIONS.derivativeCutoff;
+    const resetDistance = this.options.resetDistance ?? DEFAULT_SMOOTHING_OPTIONS.resetDistance;
+    const maxFrameGap = this.options.maxFrameGap ?? DEFAULT_SMOOTHING_OPTIONS.maxFrameGap;
+
+    const centroid = calculateCentroid(landmarks);
+    const elapsed = timestamp - this.lastTimestamp;
+    const jumped = Math.hypot(centroid.x - this.lastCentroid.x, centroid.y - this.lastCentroid.y) > resetDistance;
+    this.lastCentroid = centroid;
+    this.lastTimestamp = timestamp;
+
+    const values = this.values;
+    const derivatives = this.derivatives;
+    if (values === null || derivatives === null || values.length !== landmarks.length * COORDINATES_PER_LANDMARK ||
+        elapsed <= 0 || elapsed > maxFrameGap || jumped) {
+      this.start(landmarks);
+      return landmarks;
+    }
+
+    const dt = elapsed / 1000;
+    const derivativeAlpha = smoothingFactor(derivativeCutoff, dt);
+
+    return landmarks.map((landmark, i) => {
+      const filter = (raw: number, offset: number): number => {
+        const index = i * COORDINATES_PER_LANDMARK + offset;
+        const previous = values[index] ?? raw;
+        const derivative = lerp(derivatives[index] ?? 0, (raw - previous) / dt, derivativeAlpha);
+        const value = lerp(previous, raw, smoothingFactor(minCutoff + beta * Math.abs(derivative), dt));
+        derivatives[index] = derivative;
+        values[index] = value;
+        return value;
+      };
+
+      return {
+        ...landmark,
+        x: filter(landmark.x, 0),
+        y: filter(landmark.y, 1),
+        ...(landmark.z !== undefined && { z: filter(landmark.z, 2) }),
+      };
+    });
+  }
+
+  /**
+   * Forget the filter state, e.g. when the face is lost
+   */
+  reset(): void {
+    this.values = null;
+    this.derivatives = null;
+  }
+
+  private start(landmarks: readonly NormalizedLandmark[]): void {
+    this.values = new Float64Array(landmarks.flatMap(landmark => [landmark.x, landmark.y, landmark.z ?? 0]));
+    this.derivatives = new Float64Array(this.values.length);
+  }
+}
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+function lerp(from: number, to: number, alpha: number): number {
+  return from + alpha * (to - from);
+}
+
+function calculateCentroid(landmarks: readonly NormalizedLandmark[]): { x: number; y: number } {
+  if (landmarks.length === 0) return { x: 0, y: 0 };
+  const sum = landmarks.reduce((acc, landmark) => ({ x: acc.x + landmark.x, y: acc.y + landmark.y }), { x: 0, y: 0 });
+  return { x: sum.x / landmarks.length, y: sum.y / landmarks.length };
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * Live landmark streaming over a camera video element
+ * Runs VIDEO-mode detection on a requestAnimationFrame loop and fans frames out to subscribers
+ */
+
+import type { DetectedFace, FaceSelectionPolicy, LandmarkFrame } from '@/types/mediapipe';
+import type { FaceDetector } from '@/types/detector';
+import { selectPrimaryFace, DEFAULT_SELECTION_POLICY } from '@/lib/faceSelection';
+import { LandmarkSmoother } from '@/lib/landmarkSmoothing';
+import type { LandmarkSmoothingOptions } from '@/lib/landmarkSmoothing';
+
+export type LandmarkFrameListener = (frame: LandmarkFrame) => void;
+
+export interface LandmarkStreamOptions {
+  readonly selectionPolicy?: FaceSelectionPolicy;
+  /** Smoothing of the primary face's landmarks; false passes raw detections through */
+  readonly smoothing?: LandmarkSmoothingOptions | false;
+  readonly onError?: (error: unknown) => void;
+}
+
+export class LandmarkStream {
+  private readonly listeners = new Set<LandmarkFrameListener>();
+  private animationFrameId: number | null = null;
+  private lastVideoTime = -1;
+  private lastTimestamp = 0;
+  private isDetecting = false;
+  private detectionController: AbortController | null = null;
+  private latestFrame: LandmarkFrame | null = null;
+  private readonly smoother: LandmarkSmoother | null;
+
+  constructor(
+    private readonly landmarker: FaceDetector,
+    private readonly videoElement: HTMLVideoElement,
+    private readonly options: LandmarkStreamOptions = {}
+  ) {
+    this.smoother = options.smoothing === false ? null : new LandmarkSmoother(options.smoothing);
+  }
+
+  get isRunning(): boolean {
+    return this.animationFrameId !== null;
+  }
+
+  get lastFrame(): LandmarkFrame | null {
+    return this.latestFrame;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+    this.lastVideoTime = -1;
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.detectionController?.abort();
+    this.detectionController = null;
+    this.latestFrame = null;
+    this.smoother?.reset();
+  }
+
+  /**
+   * Register a frame listener; returns a function that unsubscribes it
+   */
+  subscribe(listener: LandmarkFrameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private readonly tick = (): void => {
+    if (!this.isRunning) return;
+    this.animationFrameId = requestAnimationFrame(this.tick);
+
+    // Skip until the video has a decodable frame, and never process the same frame twice
+    const video = this.videoElement;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    if (video.currentTime === this.lastVideoTime || this.isDetecting) return;
+    const videoTime = video.currentTime;
+    this.lastVideoTime = videoTime;
+
+    // MediaPipe rejects non-increasing timestamps in VIDEO mode
+    const timestamp = Math.max(performance.now(), this.lastTimestamp + 1);
+    this.lastTimestamp = timestamp;
+
+    void this.detectFrame(timestamp, videoTime);
+  };
+
+  private async detectFrame(timestamp: number, videoTime: number): Promise<void> {
+    this.isDetecting = true;
+    // Stopping the stream cancels the detection in flight
+    const controller = new AbortController();
+    this.detectionController = controller;
+
+    try {
+      const faces = await this.landmarker.detectFacesForVideo(this.videoElement, timestamp, {
+        signal: controller.signal,
+      });
+
+      // The stream may have been stopped while detection was in flight
+      if (!this.isRunning) return;
+
+      const rawPrimaryFace = selectPrimaryFace(faces, this.options.selectionPolicy ?? DEFAULT_SELECTION_POLICY) ?? null;
+      const primaryFace = this.smoothFace(rawPrimaryFace, timestamp);
+
+      const frame: LandmarkFrame = {
+        timestamp,
+        videoTime,
+        faces: faces.map(face => face === rawPrimaryFace && primaryFace !== null ? primaryFace : face),
+        primaryFace,
+        rawPrimaryFace,
+      };
+      this.latestFrame = frame;
+      this.listeners.forEach(listener => listener(frame));
+    } catch (error) {
+      // A detection cancelled by stop() is not an error
+      if (!this.isRunning) return;
+      this.stop();
+      this.options.onError?.(error);
+    } finally {
+      this.isDetecting = false;
+      if (this.detectionController === controller) this.detectionController = null;
+    }
+  }
+
+  private smoothFace(face: DetectedFace | null, timestamp: number): DetectedFace | null {
+    if (this.smoother === null) return face;
+
+    // A lost face starts the filter over so the next one does not glide in from the old position
+    if (face === null) {
+      this.smoother.reset();
+      return null;
+    }
+    return { ...face, landmarks: this.smoother.smooth(face.landmarks, timestamp) };
+  }
+}
\ No newline at end of file
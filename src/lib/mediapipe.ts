@@ -4,79 +4,202 @@
  */
 
 import type {
-  FaceLandmarkerResult,
   NormalizedLandmark,
   MediaPipeConfig,
   FaceLandmarkerOptions,
   MediaPipeError,
+  MediaPipeErrorCode,
+  DetectedFace,
+  Matrix,
+  FaceSelectionPolicy,
+  RunningMode,
+  Delegate,
+  DelegateAttempt,
+  MediaPipeCapabilities,
+  FaceLandmarkerBinding,
+  CancellationOptions,
+  MediaPipeDependencies,
 } from '@/types/mediapipe';
+import type { FaceDetector } from '@/types/detector';
+import type { FrameSource } from '@/types/frame';
+import type { LoadedMediaPipeAssets } from '@/lib/assets';
+import { loadMediaPipeAssets } from '@/lib/assets';
+import { isWebGL2Available, resolveDelegateOrder } from '@/lib/delegates';
+import { createDetectedFaces, selectPrimaryFace, DEFAULT_SELECTION_POLICY } from '@/lib/faceSelection';
+import { loadTasksVision } from '@/lib/tasksVision';
+import { throwIfCancelled, withTimeout } from '@/lib/cancellation';
 
-// MediaPipe landmark indices for key facial features
-export const LANDMARK_INDICES = {
-  // Left eye landmarks (36-41 in 68-point, mapped to 468-point)
-  LEFT_EYE: [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246] as const,
-  
-  // Right eye landmarks  
-  RIGHT_EYE: [362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398] as const,
-  
-  // Nose landmarks
-  NOSE_TIP: [1, 2, 5, 4, 6, 19, 20, 94, 125, 141, 235, 236, 237, 238, 239, 240, 241, 242] as const,
-  NOSE_BRIDGE: [6, 9, 10, 151, 195, 197, 196, 3, 51, 48, 115, 131, 134, 102, 49, 220] as const,
-  NOSTRIL_LEFT: [235, 31, 228, 229, 230, 231, 232, 233, 244, 245, 122, 6, 202, 214, 234] as const,
-  NOSTRIL_RIGHT: [455, 462, 459, 458, 457, 456, 448, 449, 451, 452, 453, 464, 435, 410, 454] as const,
-  
-  // Jaw landmarks
-  JAW_LEFT: [172, 136, 150, 149, 176, 148, 152, 377, 400, 378, 379, 365, 397, 288, 361, 323] as const,
-  JAW_RIGHT: [397, 365, 379, 378, 400, 377, 152, 148, 176, 149, 150, 136, 172, 58, 132, 93] as const,
-  CHIN: [18, 175, 199, 200, 9, 10, 151, 175, 18, 175, 199, 200, 9, 10, 151] as const,
-  
-  // Face outline for angle calculation
-  FACE_OUTLINE: [10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377, 152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109] as const,
-} as const;
+// Upper bound on faces returned per image; group photos beyond this are rare
+const DEFAULT_NUM_FACES = 5;
+
+// Generous enough for the ~10 MB WASM and model download on a slow mobile connection
+const DEFAULT_INIT_TIMEOUT_MS = 60000;
+const DEFAULT_DETECTION_TIMEOUT_MS = 15000;
+
+// Errors whose codes already say what went wrong, so initialize() does not rewrap them
+const PASS_THROUGH_CODES: ReadonlySet<unknown> = new Set([
+  'ASSET_UNAVAILABLE',
+  'ASSET_INTEGRITY_FAILED',
+  'NETWORK_ERROR',
+  'UNSUPPORTED_DEVICE',
+  'TIMEOUT',
+  'ABORTED',
+]);
+
+// Every error code, keyed so that a code added to MediaPipeErrorCode must be listed here too
+const ERROR_CODES: Readonly<Record<MediaPipeErrorCode, true>> = {
+  INIT_FAILED: true,
+  DETECTION_FAILED: true,
+  INVALID_RESULT: true,
+  ASSET_UNAVAILABLE: true,
+  ASSET_INTEGRITY_FAILED: true,
+  NETWORK_ERROR: true,
+  UNSUPPORTED_DEVICE: true,
+  TIMEOUT: true,
+  ABORTED: true,
+  INVALID_FIXTURE: true,
+};
+
+// Region groups live with the rest of the canonical region map
+export { LANDMARK_INDICES } from '@/lib/landmarkRegions';
 
-export class MediaPipeFaceLandmarker {
-  private faceLandmarker: unknown = null;
+interface InitializationRun {
+  readonly promise: Promise<void>;
+  readonly controller: AbortController;
+  /** Callers still waiting; the run is aborted when the last of them gives up */
+  waiters: number;
+}
+
+export class MediaPipeFaceLandmarker implements FaceDetector {
+  private faceLandmarker: FaceLandmarkerBinding | null = null;
   private isInitialized = false;
-  private initializationPromise: Promise<void> | null = null;
+  private initialization: InitializationRun | null = null;
+  private runningMode: RunningMode = 'IMAGE';
+  private capabilities: MediaPipeCapabilities | null = null;
 
-  constructor(private readonly options: FaceLandmarkerOptions = {}) {}
+  constructor(
+    private readonly options: FaceLandmarkerOptions = {},
+    private readonly dependencies: MediaPipeDependencies = {}
+  ) {}
 
-  async initialize(): Promise<void> {
+  /**
+   * Load assets and build the landmarker; concurrent calls share one run, but each waits
+   * against its own signal and deadline. The run is aborted once every waiting caller has
+   * given up, and a failed, timed out or cancelled run is not cached, so calling again retries it.
+   */
+  async initialize(options: CancellationOptions = {}): Promise<void> {
     if (this.isInitialized) return;
-    if (this.initializationPromise !== null) return this.initializationPromise;
+    throwIfCancelled(options.signal, 'MediaPipe initialization');
 
-    this.initializationPromise = this.doInitialize();
-    await this.initializationPromise;
+    const run = this.initialization ?? this.startInitialization();
+    run.waiters++;
+    try {
+      await withTimeout(() => run.promise, {
+        operation: 'MediaPipe initialization',
+        timeoutMs: options.timeoutMs ?? this.options.initTimeoutMs ?? DEFAULT_INIT_TIMEOUT_MS,
+        signal: options.signal,
+      });
+    } finally {
+      run.waiters--;
+      if (run.waiters === 0 && this.initialization === run) {
+        this.initialization = null;
+        run.controller.abort();
+      }
+    }
   }
 
-  private async doInitialize(): Promise<void> {
+  private startInitialization(): InitializationRun {
+    // dispose() and the last waiting caller abort the run through this controller
+    const controller = new AbortController();
+    const run: InitializationRun = {
+      promise: withTimeout(signal => this.doInitialize(signal), {
+        operation: 'MediaPipe initialization',
+        signal: controller.signal,
+      }),
+      controller,
+      waiters: 0,
+    };
+
+    // Settled runs are dropped here, before their waiters resume, so none of them aborts a finished run
+    const release = (): void => {
+      if (this.initialization === run) this.initialization = null;
+    };
+    void run.promise.then(release, release);
+
+    this.initialization = run;
+    return run;
+  }
+
+  private async doInitialize(signal: AbortSignal): Promise<void> {
+    const startedAt = performance.now();
+
     try {
-      // Dynamic import to handle MediaPipe loading - types will be resolved at runtime
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const mediaPipeModule = await import('@mediapipe/tasks-vision' as any);
-      const { FaceLandmarker, FilesetResolver } = mediaPipeModule;
+      if (typeof WebAssembly === 'undefined') {
+        throw createUnsupportedDeviceError('WebAssembly is not available in this browser');
+      }
 
-      const vision = await FilesetResolver.forVisionTasks(
-        this.options.wasmLoaderScript ?? 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm'
+      const tasksVision = await (this.dependencies.loadTasksVision ?? loadTasksVision)();
+      signal.throwIfAborted();
+      const assets = await loadMediaPipeAssets(
+        this.options,
+        basePath => tasksVision.resolveWasmFileset(basePath),
+        signal
       );
 
-      const config: MediaPipeConfig = {
-        baseOptions: {
-          modelAssetPath: this.options.modelAssetPath ?? 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
-          delegate: 'GPU',
-        },
-        runningMode: 'IMAGE',
-        numFaces: 1,
-        minFaceDetectionConfidence: 0.5,
-        minFacePresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-        outputFaceBlendshapes: false,
-        outputFacialTransformationMatrixes: false,
-      };
+      const webgl2Available = isWebGL2Available();
+      const delegates = resolveDelegateOrder(this.options.delegate ?? 'auto', webgl2Available);
+      const attempts: DelegateAttempt[] = [];
+
+      try {
+        for (const delegate of delegates) {
+          const config = this.createConfig(assets.model, delegate);
+          const attemptStartedAt = performance.now();
+
+          try {
+            const faceLandmarker = await tasksVision.createFaceLandmarker(assets.wasmFileset, config);
+            // The deadline may have passed while the graph was being built
+            if (signal.aborted) {
+              faceLandmarker.close();
+              signal.throwIfAborted();
+            }
+            this.faceLandmarker = faceLandmarker;
+            attempts.push({ delegate, succeeded: true, durationMs: performance.now() - attemptStartedAt });
+            this.runningMode = config.runningMode;
+            this.capabilities = {
+              delegate,
+              webgl2Available,
+              attempts,
+              initDurationMs: performance.now() - startedAt,
+              assetSource: assets.source,
+            };
+            break;
+          } catch (error) {
+            signal.throwIfAborted();
+            // GPU setup can fail even with WebGL2 present (blocklisted drivers, lost contexts)
+            attempts.push({
+              delegate,
+              succeeded: false,
+              durationMs: performance.now() - attemptStartedAt,
+              error: String(error),
+            });
+          }
+        }
+      } finally {
+        assets.release();
+      }
+
+      if (this.capabilities === null) {
+        throw createUnsupportedDeviceError(
+          `No usable delegate (${attempts.map(a => `${a.delegate}: ${a.error ?? 'unknown'}`).join('; ')})`,
+          attempts
+        );
+      }
 
-      this.faceLandmarker = await FaceLandmarker.createFromOptions(vision, config);
       this.isInitialized = true;
     } catch (error) {
+      // Asset, network and cancellation failures keep their own codes so callers can tell them apart
+      if (hasPassThroughCode(error)) throw error;
+
       const mpError: MediaPipeError = {
         name: 'MediaPipeInitializationError',
         message: `Failed to initialize MediaPipe: ${String(error)}`,
@@ -87,50 +210,129 @@ export class MediaPipeFaceLandmarker {
     }
   }
 
-  async detectLandmarks(imageElement: HTMLImageElement | HTMLCanvasElement | HTMLVideoElement): Promise<readonly NormalizedLandmark[]> {
-    if (!this.isInitialized || this.faceLandmarker === null) {
-      throw new Error('MediaPipe not initialized. Call initialize() first.');
-    }
+  private createConfig(model: LoadedMediaPipeAssets['model'], delegate: Delegate): MediaPipeConfig {
+    return {
+      baseOptions: {
+        ...model,
+        delegate,
+      },
+      runningMode: this.options.runningMode ?? 'IMAGE',
+      numFaces: this.options.numFaces ?? DEFAULT_NUM_FACES,
+      minFaceDetectionConfidence: 0.5,
+      minFacePresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+      outputFaceBlendshapes: this.options.outputFaceBlendshapes ?? true,
+      outputFacialTransformationMatrixes: this.options.outputFacialTransformationMatrixes ?? true,
+    };
+  }
 
-    try {
-      // Type assertion needed due to dynamic import
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = (this.faceLandmarker as any).detect(imageElement) as FaceLandmarkerResult;
-      
-      if (result.faceLandmarks.length === 0) {
-        return [];
+  /**
+   * Delegate, timing and asset source of the last successful initialization
+   */
+  getCapabilities(): MediaPipeCapabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Detect every face in a still image. Inference itself is synchronous, so the deadline
+   * and signal cover the wait for a running-mode switch and drop late results.
+   */
+  async detectFaces(source: FrameSource, options: CancellationOptions = {}): Promise<readonly DetectedFace[]> {
+    return withTimeout(async signal => {
+      const faceLandmarker = await this.ensureRunningMode('IMAGE');
+      signal.throwIfAborted();
+
+      try {
+        return createDetectedFaces(faceLandmarker.detect(source));
+      } catch (error) {
+        const mpError: MediaPipeError = {
+          name: 'MediaPipeLandmarkError',
+          message: `Failed to detect landmarks: ${String(error)}`,
+          code: 'DETECTION_FAILED',
+          details: error,
+        };
+        throw mpError;
       }
+    }, {
+      operation: 'Face detection',
+      timeoutMs: options.timeoutMs ?? this.options.detectionTimeoutMs ?? DEFAULT_DETECTION_TIMEOUT_MS,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Detect faces in a video frame; timestamps must increase monotonically.
+   * The deadline and signal cover the switch into VIDEO mode, like detectFaces.
+   */
+  async detectFacesForVideo(
+    videoElement: HTMLVideoElement,
+    timestampMs: number,
+    options: CancellationOptions = {}
+  ): Promise<readonly DetectedFace[]> {
+    return withTimeout(async signal => {
+      const faceLandmarker = await this.ensureRunningMode('VIDEO');
+      signal.throwIfAborted();
 
-      // Return first face landmarks (we only detect 1 face)
-      const landmarks = result.faceLandmarks[0];
-      if (landmarks === undefined) {
-        return [];
+      try {
+        return createDetectedFaces(faceLandmarker.detectForVideo(videoElement, timestampMs));
+      } catch (error) {
+        const mpError: MediaPipeError = {
+          name: 'MediaPipeLandmarkError',
+          message: `Failed to detect landmarks in video frame: ${String(error)}`,
+          code: 'DETECTION_FAILED',
+          details: error,
+        };
+        throw mpError;
       }
+    }, {
+      operation: 'Video face detection',
+      timeoutMs: options.timeoutMs ?? this.options.detectionTimeoutMs ?? DEFAULT_DETECTION_TIMEOUT_MS,
+      signal: options.signal,
+    });
+  }
 
-      return landmarks;
-    } catch (error) {
-      const mpError: MediaPipeError = {
-        name: 'MediaPipeLandmarkError',
-        message: `Failed to detect landmarks: ${String(error)}`,
-        code: 'DETECTION_FAILED',
-        details: error,
-      };
-      throw mpError;
+  /**
+   * Detect landmarks of the primary face only, chosen by the selection policy
+   */
+  async detectLandmarks(
+    source: FrameSource,
+    policy: FaceSelectionPolicy = this.options.selectionPolicy ?? DEFAULT_SELECTION_POLICY,
+    options: CancellationOptions = {}
+  ): Promise<readonly NormalizedLandmark[]> {
+    const faces = await this.detectFaces(source, options);
+    return selectPrimaryFace(faces, policy)?.landmarks ?? [];
+  }
+
+  private async ensureRunningMode(mode: RunningMode): Promise<FaceLandmarkerBinding> {
+    const faceLandmarker = this.faceLandmarker;
+    if (!this.isInitialized || faceLandmarker === null) {
+      throw new Error('MediaPipe not initialized. Call initialize() first.');
     }
+    if (this.runningMode === mode) return faceLandmarker;
+
+    // Switching modes rebuilds the graph, so it only happens on IMAGE/VIDEO transitions
+    await faceLandmarker.setRunningMode(mode);
+    this.runningMode = mode;
+    return faceLandmarker;
   }
 
   dispose(): void {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (this.faceLandmarker !== null && 'close' in (this.faceLandmarker as any)) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (this.faceLandmarker as any).close();
-    }
+    this.initialization?.controller.abort();
+    this.initialization = null;
+    this.faceLandmarker?.close();
     this.faceLandmarker = null;
+    this.capabilities = null;
     this.isInitialized = false;
-    this.initializationPromise = null;
   }
 }
 
+/**
+ * Whether a value is one of the MediaPipeError codes, e.g. one read back from a worker message
+ */
+export function isMediaPipeErrorCode(value: unknown): value is MediaPipeErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_CODES, value);
+}
+
 /**
  * Extract specific landmark points by indices
  */
@@ -147,6 +349,20 @@ export function extractLandmarksByIndices(
   });
 }
 
+/**
+ * Look up a blendshape score by category name (0 when not reported)
+ */
+export function getBlendshapeScore(face: DetectedFace, categoryName: string): number {
+  return face.blendshapes.find(category => category.categoryName === categoryName)?.score ?? 0;
+}
+
+/**
+ * Read a matrix element by row and column; MediaPipe packs matrices column-major
+ */
+export function getMatrixElement(matrix: Matrix, row: number, column: number): number {
+  return matrix.data[column * matrix.rows + row] ?? 0;
+}
+
 /**
  * Calculate distance between two landmark points
  */
@@ -178,4 +394,18 @@ export function calculateAngle(
   
   const cosAngle = dot / (mag1 * mag2);
   return Math.acos(Math.max(-1, Math.min(1, cosAngle))) * (180 / Math.PI);
+}
+
+function hasPassThroughCode(error: unknown): error is MediaPipeError {
+  if (typeof error !== 'object' || error === null) return false;
+  return PASS_THROUGH_CODES.has((error as { code?: unknown }).code);
+}
+
+function createUnsupportedDeviceError(message: string, details?: unknown): MediaPipeError {
+  return {
+    name: 'MediaPipeUnsupportedDeviceError',
+    message,
+    code: 'UNSUPPORTED_DEVICE',
+    details,
+  };
 }
\ No newline at end of file
@@ -3,71 +3,178 @@
  * Implements golden ratio-based feature analysis with 0-100 scoring
  */
 
-import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { NormalizedLandmark, FaceSelectionPolicy, IrisLandmarks } from '@/types/mediapipe';
+import type { DetectorDependencies } from '@/types/detector';
+import type { FrameSource } from '@/types/frame';
+import type { PoseAlignmentOptions } from '@/types/pose';
+import type { ProfileReference, ScoringProfile } from '@/types/profile';
+import type { QualityCheckResult } from '@/types/quality';
+import type { LandmarkAnchorName, LandmarkRegion } from '@/types/landmarks';
 import type {
   FacialFeatures,
+  FrameCoverage,
   EyeMetrics,
   SingleEyeMetrics,
+  BrowMetrics,
+  SingleBrowMetrics,
   NoseMetrics,
   JawMetrics,
+  MouthMetrics,
+  ProportionMetrics,
+  ProportionRanges,
   QualityScores,
+  ScoredFeature,
+  ScoreExplanation,
+  FeatureExplanation,
+  SubMetricEvidence,
+  ScoringCurve,
   BaselineRanges,
   WeightingFactors,
   MetricsCalculationError,
+  DetectedFaceMetrics,
 } from '@/types/metrics';
 import {
-  LANDMARK_INDICES,
   extractLandmarksByIndices,
   calculateDistance,
   calculateAngle,
 } from '@/lib/mediapipe';
+import { LANDMARK_INDICES, EYEBROW_EDGES, getAnchorLandmark } from '@/lib/landmarkRegions';
+import { selectPrimaryFace, DEFAULT_SELECTION_POLICY } from '@/lib/faceSelection';
+import { extractIrises } from '@/lib/iris';
+import { calculateProportionMetrics } from '@/lib/proportions';
+import { alignToFrontalPose } from '@/lib/poseAlignment';
+import { getFrameAspectRatio } from '@/lib/frameSource';
+import { getProfile, toProfileReference } from '@/lib/profiles';
+import { evaluateScoringCurve, STEP_CURVE } from '@/lib/scoringCurves';
 
 // Golden ratio and ideal proportions based on facial analysis research
-// const GOLDEN_RATIO = 1.618; // Reserved for future golden ratio calculations
+export const GOLDEN_RATIO = 1.618;
 
-const DEFAULT_BASELINE_RANGES: BaselineRanges = {
-  eyes: {
-    aspectRatio: [2.8, 3.2], // Ideal eye width to height ratio
-    symmetry: [0.9, 1.1], // Left to right eye size ratio
-    tilt: [-5, 5], // Acceptable eye tilt in degrees
-  },
-  nose: {
-    widthRatio: [0.75, 0.85], // Nose width to eye distance ratio
-    projection: [0.67, 0.75], // Nose length to face height ratio
-    symmetry: [0.9, 1.1], // Nostril symmetry ratio
-  },
-  jaw: {
-    angle: [120, 130], // Ideal jaw angle in degrees
-    chinRatio: [0.85, 0.95], // Chin width to jaw width ratio
-    asymmetry: [0.95, 1.05], // Left to right jaw symmetry
-  },
+// Classic proportions: equal thirds, equal fifths, hairline-to-chin height to width near the golden ratio
+const DEFAULT_PROPORTION_RANGES: ProportionRanges = {
+  thirdsDeviation: [0, 0.1], // Largest third within 10% of 1/3
+  fifthsDeviation: [0, 0.15], // Largest fifth within 15% of 1/5
+  faceRatio: [GOLDEN_RATIO - 0.1, GOLDEN_RATIO + 0.1],
 } as const;
 
-const DEFAULT_WEIGHTING_FACTORS: WeightingFactors = {
-  eyes: {
-    aspectRatio: 0.4,
-    symmetry: 0.35,
-    tilt: 0.25,
-  },
-  nose: {
-    width: 0.4,
-    projection: 0.35,
-    symmetry: 0.25,
+const DEFAULT_PROPORTION_WEIGHTS = {
+  thirds: 0.4,
+  fifths: 0.4,
+  faceRatio: 0.2,
+} as const;
+
+const DEFAULT_OVERALL_WEIGHTS: Readonly<Record<ScoredFeature, number>> = {
+  eyes: 1 / 6,
+  brows: 1 / 6,
+  nose: 1 / 6,
+  jaw: 1 / 6,
+  mouth: 1 / 6,
+  proportions: 1 / 6,
+} as const;
+
+// Scores below this confidence should be shown as unreliable
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Pose corrections up to the tolerance cost no confidence; beyond it confidence falls linearly to 0 at the limit
+const POSE_CONFIDENCE_TOLERANCE = 10;
+const POSE_CONFIDENCE_LIMIT = 45;
+
+// Mesh regions each feature is measured from. MediaPipe face landmarks report no presence or
+// visibility, so how much of a feature lies inside the frame is the landmark signal for confidence.
+const FEATURE_REGIONS: Readonly<Record<ScoredFeature, readonly LandmarkRegion[]>> = {
+  eyes: ['LEFT_EYE', 'RIGHT_EYE'],
+  brows: ['LEFT_EYEBROW', 'RIGHT_EYEBROW'],
+  nose: ['NOSE_BRIDGE', 'NOSE_TIP', 'NOSTRIL_LEFT', 'NOSTRIL_RIGHT'],
+  jaw: ['JAW_LEFT', 'JAW_RIGHT', 'CHIN'],
+  mouth: ['LIPS_UPPER_OUTER', 'LIPS_LOWER_OUTER', 'LIPS_UPPER_INNER', 'LIPS_LOWER_INNER'],
+  proportions: ['FACE_OUTLINE', 'FOREHEAD'],
+};
+
+// Eye anchors per image side; the first corner is the image-left one so tilt keeps one sign convention
+const EYE_ANCHORS = {
+  LEFT: {
+    firstCorner: 'LEFT_EYE_OUTER_CORNER',
+    secondCorner: 'LEFT_EYE_INNER_CORNER',
+    upperLid: 'LEFT_EYE_UPPER_LID',
+    lowerLid: 'LEFT_EYE_LOWER_LID',
   },
-  jaw: {
-    angle: 0.45,
-    projection: 0.3,
-    asymmetry: 0.25,
+  RIGHT: {
+    firstCorner: 'RIGHT_EYE_INNER_CORNER',
+    secondCorner: 'RIGHT_EYE_OUTER_CORNER',
+    upperLid: 'RIGHT_EYE_UPPER_LID',
+    lowerLid: 'RIGHT_EYE_LOWER_LID',
   },
-} as const;
+} as const satisfies Record<'LEFT' | 'RIGHT', Record<string, LandmarkAnchorName>>;
+
+const BROW_ANCHORS = {
+  LEFT: { head: 'LEFT_BROW_HEAD', tail: 'LEFT_BROW_TAIL', lowerMidpoint: 'LEFT_BROW_LOWER_MIDPOINT' },
+  RIGHT: { head: 'RIGHT_BROW_HEAD', tail: 'RIGHT_BROW_TAIL', lowerMidpoint: 'RIGHT_BROW_LOWER_MIDPOINT' },
+} as const satisfies Record<'LEFT' | 'RIGHT', Record<string, LandmarkAnchorName>>;
+
+// Ranges and weights used when no profile is chosen
+const DEFAULT_PROFILE = getProfile();
+
+// Reported for ranges and weights passed in directly rather than through a profile
+const CUSTOM_PROFILE_REFERENCE: ProfileReference = { name: 'custom', version: '0.0.0' } as const;
 
 export class FacialMetricsCalculator {
   constructor(
-    private readonly baselineRanges: BaselineRanges = DEFAULT_BASELINE_RANGES,
-    private readonly weightingFactors: WeightingFactors = DEFAULT_WEIGHTING_FACTORS
+    private readonly baselineRanges: BaselineRanges = DEFAULT_PROFILE.baselineRanges,
+    private readonly weightingFactors: WeightingFactors = DEFAULT_PROFILE.weightingFactors,
+    private readonly dependencies: DetectorDependencies = {},
+    private readonly profile: ProfileReference =
+      baselineRanges === DEFAULT_PROFILE.baselineRanges && weightingFactors === DEFAULT_PROFILE.weightingFactors
+        ? toProfileReference(DEFAULT_PROFILE)
+        : CUSTOM_PROFILE_REFERENCE
   ) {}
 
-  calculateFacialFeatures(landmarks: readonly NormalizedLandmark[]): FacialFeatures {
+  /**
+   * Create a calculator that scores with a profile's ranges and weights
+   */
+  static fromProfile(profile: ScoringProfile, dependencies: DetectorDependencies = {}): FacialMetricsCalculator {
+    return new FacialMetricsCalculator(
+      profile.baselineRanges,
+      profile.weightingFactors,
+      dependencies,
+      toProfileReference(profile)
+    );
+  }
+
+  /**
+   * Detect faces with the injected detector and score the selected one
+   */
+  async detectAndCalculate(
+    input: FrameSource,
+    policy: FaceSelectionPolicy = DEFAULT_SELECTION_POLICY
+  ): Promise<DetectedFaceMetrics | null> {
+    const detector = this.dependencies.detector;
+    if (detector === undefined) {
+      const error: MetricsCalculationError = {
+        name: 'MetricsCalculationError',
+        message: 'No face detector was provided to FacialMetricsCalculator',
+        code: 'INVALID_INPUT',
+        feature: 'general',
+      };
+      throw error;
+    }
+
+    const face = selectPrimaryFace(await detector.detectFaces(input), policy);
+    if (face === undefined) return null;
+
+    const features = this.calculateFacialFeatures(face.landmarks, {
+      transformationMatrix: face.transformationMatrix,
+      aspectRatio: getFrameAspectRatio(input),
+    });
+    return { face, features, scores: this.calculateQualityScores(features) };
+  }
+
+  /**
+   * Align the landmarks to the frontal pose, then measure every feature
+   */
+  calculateFacialFeatures(
+    landmarks: readonly NormalizedLandmark[],
+    alignmentOptions: PoseAlignmentOptions = {}
+  ): FacialFeatures {
     if (landmarks.length < 468) {
       const error: MetricsCalculationError = {
         name: 'MetricsCalculationError',
@@ -79,11 +186,29 @@ export class FacialMetricsCalculator {
     }
 
     try {
-      const eyes = this.calculateEyeMetrics(landmarks);
-      const nose = this.calculateNoseMetrics(landmarks);
-      const jaw = this.calculateJawMetrics(landmarks);
-
-      return { eyes, nose, jaw };
+      // A turned head foreshortens every 2D distance, so measure the mesh as if seen from the front
+      const { landmarks: alignedLandmarks, correction } = alignToFrontalPose(landmarks, alignmentOptions);
+      // Landmark x is scaled by image width and y by height, so lengths in different
+      // directions only compare (and share one millimeter scale) in image-height units
+      const measuredLandmarks = this.toImageHeightUnits(alignedLandmarks, alignmentOptions.aspectRatio ?? 1);
+
+      const eyes = this.calculateEyeMetrics(measuredLandmarks);
+      const brows = this.calculateBrowMetrics(measuredLandmarks, eyes);
+      const nose = this.calculateNoseMetrics(measuredLandmarks);
+      const jaw = this.calculateJawMetrics(measuredLandmarks);
+      const mouth = this.calculateMouthMetrics(measuredLandmarks, eyes.interPupillaryDistance);
+      const proportions = calculateProportionMetrics(alignedLandmarks, alignmentOptions.aspectRatio ?? 1);
+
+      return {
+        eyes,
+        brows,
+        nose,
+        jaw,
+        mouth,
+        proportions,
+        alignment: correction,
+        frameCoverage: this.calculateFrameCoverage(landmarks),
+      };
     } catch (error) {
       const metricsError: MetricsCalculationError = {
         name: 'MetricsCalculationError',
@@ -96,17 +221,44 @@ export class FacialMetricsCalculator {
     }
   }
 
+  /**
+   * Share of each feature's landmarks inside the frame, from the landmarks as detected (before alignment)
+   */
+  private calculateFrameCoverage(landmarks: readonly NormalizedLandmark[]): FrameCoverage {
+    const coverage = (regions: readonly LandmarkRegion[]): number => {
+      const indices = regions.flatMap(region => LANDMARK_INDICES[region]);
+      const inside = indices.filter(index => {
+        const landmark = landmarks[index];
+        return landmark !== undefined &&
+          landmark.x >= 0 && landmark.x <= 1 &&
+          landmark.y >= 0 && landmark.y <= 1;
+      });
+      return indices.length === 0 ? 1 : inside.length / indices.length;
+    };
+
+    return {
+      eyes: coverage(FEATURE_REGIONS.eyes),
+      brows: coverage(FEATURE_REGIONS.brows),
+      nose: coverage(FEATURE_REGIONS.nose),
+      jaw: coverage(FEATURE_REGIONS.jaw),
+      mouth: coverage(FEATURE_REGIONS.mouth),
+      proportions: coverage(FEATURE_REGIONS.proportions),
+    };
+  }
+
   private calculateEyeMetrics(landmarks: readonly NormalizedLandmark[]): EyeMetrics {
     const leftEyeLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.LEFT_EYE);
     const rightEyeLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.RIGHT_EYE);
+    const irises = extractIrises(landmarks);
 
-    const leftEye = this.calculateSingleEyeMetrics(leftEyeLandmarks);
-    const rightEye = this.calculateSingleEyeMetrics(rightEyeLandmarks);
+    const leftEye = this.calculateSingleEyeMetrics(landmarks, 'LEFT', leftEyeLandmarks, irises?.left ?? null);
+    const rightEye = this.calculateSingleEyeMetrics(landmarks, 'RIGHT', rightEyeLandmarks, irises?.right ?? null);
 
-    // Calculate inter-pupillary distance (approximate eye centers)
-    const leftCenter = this.calculateCentroid(leftEyeLandmarks);
-    const rightCenter = this.calculateCentroid(rightEyeLandmarks);
-    const interPupillaryDistance = calculateDistance(leftCenter, rightCenter);
+    // Inter-pupillary distance from iris centers; eyelid centroids only approximate
+    // the pupils and are kept as a fallback for meshes without iris refinement
+    const interPupillaryDistance = irises !== null
+      ? calculateDistance(irises.left.center, irises.right.center)
+      : calculateDistance(this.calculateCentroid(leftEyeLandmarks), this.calculateCentroid(rightEyeLandmarks));
 
     // Calculate eye symmetry (size ratio)
     const eyeSymmetry = leftEye.width / rightEye.width;
@@ -115,26 +267,29 @@ export class FacialMetricsCalculator {
       leftEye,
       rightEye,
       interPupillaryDistance,
+      interPupillaryDistanceSource: irises !== null ? 'iris' : 'eyelid_centroid',
+      irisDiameter: irises !== null ? (irises.left.diameter + irises.right.diameter) / 2 : null,
       eyeSymmetry,
     };
   }
 
-  private calculateSingleEyeMetrics(eyeLandmarks: readonly NormalizedLandmark[]): SingleEyeMetrics {
+  private calculateSingleEyeMetrics(
+    landmarks: readonly NormalizedLandmark[],
+    side: 'LEFT' | 'RIGHT',
+    eyeLandmarks: readonly NormalizedLandmark[],
+    iris: IrisLandmarks | null
+  ): SingleEyeMetrics {
+    const anchors = EYE_ANCHORS[side];
+
     // Calculate eye width (horizontal distance)
-    const leftCorner = eyeLandmarks[0];
-    const rightCorner = eyeLandmarks[8];
-    if (leftCorner === undefined || rightCorner === undefined) {
-      throw new Error('Missing eye corner landmarks');
-    }
+    const leftCorner = getAnchorLandmark(landmarks, anchors.firstCorner);
+    const rightCorner = getAnchorLandmark(landmarks, anchors.secondCorner);
     const width = calculateDistance(leftCorner, rightCorner);
 
     // Calculate eye height (vertical distance at center)
-    const topPoint = eyeLandmarks[4];
-    const bottomPoint = eyeLandmarks[12];
-    if (topPoint === undefined || bottomPoint === undefined) {
-      throw new Error('Missing eye vertical landmarks');
-    }
-    const height = calculateDistance(topPoint, bottomPoint);
+    const lowerLid = getAnchorLandmark(landmarks, anchors.lowerLid);
+    const upperLid = getAnchorLandmark(landmarks, anchors.upperLid);
+    const height = calculateDistance(lowerLid, upperLid);
 
     const aspectRatio = width / height;
 
@@ -146,46 +301,143 @@ export class FacialMetricsCalculator {
       height,
       aspectRatio,
       tilt,
+      iris: iris !== null
+        ? {
+            center: iris.center,
+            diameter: iris.diameter,
+            pupilPosition: this.calculatePupilPosition(iris.center, leftCorner, rightCorner, upperLid, lowerLid),
+          }
+        : null,
       landmarks: eyeLandmarks,
     };
   }
 
+  private calculatePupilPosition(
+    pupil: NormalizedLandmark,
+    firstCorner: NormalizedLandmark,
+    secondCorner: NormalizedLandmark,
+    upperLid: NormalizedLandmark,
+    lowerLid: NormalizedLandmark
+  ): { horizontal: number; vertical: number } {
+    // Measure along the corner-to-corner axis and its normal so head roll does not skew the result
+    const axisX = secondCorner.x - firstCorner.x;
+    const axisY = secondCorner.y - firstCorner.y;
+    const axisLengthSquared = axisX * axisX + axisY * axisY;
+    if (axisLengthSquared === 0) {
+      return { horizontal: 0.5, vertical: 0.5 };
+    }
+
+    const along = (point: NormalizedLandmark): number =>
+      ((point.x - firstCorner.x) * axisX + (point.y - firstCorner.y) * axisY) / axisLengthSquared;
+    const across = (point: NormalizedLandmark): number =>
+      ((point.y - firstCorner.y) * axisX - (point.x - firstCorner.x) * axisY) / Math.sqrt(axisLengthSquared);
+
+    const upper = across(upperLid);
+    const lower = across(lowerLid);
+
+    return {
+      horizontal: along(pupil),
+      vertical: lower === upper ? 0.5 : (across(pupil) - upper) / (lower - upper),
+    };
+  }
+
+  private calculateBrowMetrics(landmarks: readonly NormalizedLandmark[], eyes: EyeMetrics): BrowMetrics {
+    const leftBrowLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.LEFT_EYEBROW);
+    const rightBrowLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.RIGHT_EYEBROW);
+
+    const leftBrow = this.calculateSingleBrowMetrics(landmarks, 'LEFT', leftBrowLandmarks, eyes.leftEye);
+    const rightBrow = this.calculateSingleBrowMetrics(landmarks, 'RIGHT', rightBrowLandmarks, eyes.rightEye);
+
+    return {
+      leftBrow,
+      rightBrow,
+      symmetry: leftBrow.browEyeDistance / rightBrow.browEyeDistance,
+    };
+  }
+
+  private calculateSingleBrowMetrics(
+    landmarks: readonly NormalizedLandmark[],
+    side: 'LEFT' | 'RIGHT',
+    browLandmarks: readonly NormalizedLandmark[],
+    eye: SingleEyeMetrics
+  ): SingleBrowMetrics {
+    const anchors = BROW_ANCHORS[side];
+
+    // Upper edge runs from the medial head to the lateral tail
+    const upperEdge = extractLandmarksByIndices(landmarks, EYEBROW_EDGES[side].upper);
+    const head = getAnchorLandmark(landmarks, anchors.head);
+    const tail = getAnchorLandmark(landmarks, anchors.tail);
+    const length = calculateDistance(head, tail);
+
+    // Arch peak: the upper edge point furthest from the head–tail chord
+    const chordX = (tail.x - head.x) / length;
+    const chordY = (tail.y - head.y) / length;
+    const along = (point: NormalizedLandmark): number =>
+      ((point.x - head.x) * chordX + (point.y - head.y) * chordY) / length;
+    const offChord = (point: NormalizedLandmark): number =>
+      Math.abs((point.x - head.x) * chordY - (point.y - head.y) * chordX);
+
+    const peak = upperEdge.reduce((highest, point) => (offChord(point) > offChord(highest) ? point : highest), head);
+    const archHeight = offChord(peak);
+    const peakPosition = along(peak);
+
+    // Compare the peak with the iris center along the same chord
+    const firstCorner = getAnchorLandmark(landmarks, EYE_ANCHORS[side].firstCorner);
+    const secondCorner = getAnchorLandmark(landmarks, EYE_ANCHORS[side].secondCorner);
+    const upperLid = getAnchorLandmark(landmarks, EYE_ANCHORS[side].upperLid);
+    const eyeCenter = eye.iris?.center ?? {
+      x: (firstCorner.x + secondCorner.x) / 2,
+      y: (firstCorner.y + secondCorner.y) / 2,
+    };
+    const peakOffset = ((peakPosition - along(eyeCenter)) * length) / eye.width;
+
+    // Image y grows downward, so a higher tail has the smaller y
+    const tilt = Math.atan2(head.y - tail.y, Math.abs(tail.x - head.x)) * (180 / Math.PI);
+
+    const lowerMidpoint = getAnchorLandmark(landmarks, anchors.lowerMidpoint);
+    const browEyeDistance = calculateDistance(lowerMidpoint, upperLid);
+
+    return {
+      length,
+      archHeight,
+      archRatio: archHeight / length,
+      peakPosition,
+      peakOffset,
+      tilt,
+      browEyeDistance,
+      browEyeRatio: browEyeDistance / eye.width,
+      landmarks: browLandmarks,
+    };
+  }
+
   private calculateNoseMetrics(landmarks: readonly NormalizedLandmark[]): NoseMetrics {
     const noseTipLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.NOSE_TIP);
     const noseBridgeLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.NOSE_BRIDGE);
     const leftNostrilLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.NOSTRIL_LEFT);
     const rightNostrilLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.NOSTRIL_RIGHT);
 
-    // Calculate nose width (nostril to nostril)
-    const leftNostril = leftNostrilLandmarks[0];
-    const rightNostril = rightNostrilLandmarks[0];
-    if (leftNostril === undefined || rightNostril === undefined) {
-      throw new Error('Missing nostril landmarks');
-    }
-    const width = calculateDistance(leftNostril, rightNostril);
+    // Calculate nose width (ala to ala)
+    const leftAla = getAnchorLandmark(landmarks, 'LEFT_ALA');
+    const rightAla = getAnchorLandmark(landmarks, 'RIGHT_ALA');
+    const width = calculateDistance(leftAla, rightAla);
 
-    // Calculate nose length (bridge to tip)
-    const bridgeTop = noseBridgeLandmarks[0];
-    const noseTip = noseTipLandmarks[0];
-    if (bridgeTop === undefined || noseTip === undefined) {
-      throw new Error('Missing nose bridge or tip landmarks');
-    }
-    const length = calculateDistance(bridgeTop, noseTip);
+    // Calculate nose length (nasion to tip)
+    const nasion = getAnchorLandmark(landmarks, 'NASION');
+    const noseTip = getAnchorLandmark(landmarks, 'NOSE_TIP');
+    const length = calculateDistance(nasion, noseTip);
 
     // Calculate tip projection (how much the tip projects forward)
     const tipProjection = noseTip.z ?? 0;
 
     // Calculate bridge width
-    const bridgeLeft = noseBridgeLandmarks[4];
-    const bridgeRight = noseBridgeLandmarks[12];
-    if (bridgeLeft === undefined || bridgeRight === undefined) {
-      throw new Error('Missing nose bridge width landmarks');
-    }
-    const bridgeWidth = calculateDistance(bridgeLeft, bridgeRight);
+    const bridgeWidth = calculateDistance(
+      getAnchorLandmark(landmarks, 'LEFT_NOSE_BRIDGE'),
+      getAnchorLandmark(landmarks, 'RIGHT_NOSE_BRIDGE')
+    );
 
     // Calculate nostril symmetry
-    const leftNostrilWidth = this.calculateNostrilWidth(leftNostrilLandmarks);
-    const rightNostrilWidth = this.calculateNostrilWidth(rightNostrilLandmarks);
+    const leftNostrilWidth = calculateDistance(leftAla, getAnchorLandmark(landmarks, 'LEFT_NOSTRIL_INNER'));
+    const rightNostrilWidth = calculateDistance(rightAla, getAnchorLandmark(landmarks, 'RIGHT_NOSTRIL_INNER'));
     const nostrilSymmetry = leftNostrilWidth / rightNostrilWidth;
 
     const allNoseLandmarks = [
@@ -205,40 +457,27 @@ export class FacialMetricsCalculator {
     };
   }
 
-  private calculateNostrilWidth(nostrilLandmarks: readonly NormalizedLandmark[]): number {
-    const outerPoint = nostrilLandmarks[0];
-    const innerPoint = nostrilLandmarks[8];
-    if (outerPoint === undefined || innerPoint === undefined) {
-      throw new Error('Missing nostril width landmarks');
-    }
-    return calculateDistance(outerPoint, innerPoint);
-  }
-
   private calculateJawMetrics(landmarks: readonly NormalizedLandmark[]): JawMetrics {
     const leftJawLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.JAW_LEFT);
     const rightJawLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.JAW_RIGHT);
     const chinLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.CHIN);
 
     // Calculate jaw width
-    const leftJawPoint = leftJawLandmarks[0];
-    const rightJawPoint = rightJawLandmarks[0];
-    if (leftJawPoint === undefined || rightJawPoint === undefined) {
-      throw new Error('Missing jaw landmarks');
-    }
-    const width = calculateDistance(leftJawPoint, rightJawPoint);
+    const leftGonion = getAnchorLandmark(landmarks, 'LEFT_GONION');
+    const rightGonion = getAnchorLandmark(landmarks, 'RIGHT_GONION');
+    const width = calculateDistance(leftGonion, rightGonion);
 
     // Calculate jaw angle (approximate)
-    const chinPoint = chinLandmarks[0];
-    if (chinPoint === undefined) {
-      throw new Error('Missing chin landmark');
-    }
-    const angle = calculateAngle(leftJawPoint, chinPoint, rightJawPoint);
+    const angle = calculateAngle(leftGonion, getAnchorLandmark(landmarks, 'MENTON'), rightGonion);
 
     // Calculate chin projection
-    const chinProjection = chinPoint.z ?? 0;
+    const chinProjection = getAnchorLandmark(landmarks, 'POGONION').z ?? 0;
 
     // Calculate lower face ratio (chin width to jaw width)
-    const chinWidth = this.calculateChinWidth(chinLandmarks);
+    const chinWidth = calculateDistance(
+      getAnchorLandmark(landmarks, 'LEFT_CHIN'),
+      getAnchorLandmark(landmarks, 'RIGHT_CHIN')
+    );
     const lowerFaceRatio = chinWidth / width;
 
     // Calculate jaw asymmetry
@@ -258,15 +497,6 @@ export class FacialMetricsCalculator {
     };
   }
 
-  private calculateChinWidth(chinLandmarks: readonly NormalizedLandmark[]): number {
-    const leftChin = chinLandmarks[4];
-    const rightChin = chinLandmarks[12];
-    if (leftChin === undefined || rightChin === undefined) {
-      throw new Error('Missing chin width landmarks');
-    }
-    return calculateDistance(leftChin, rightChin);
-  }
-
   private calculateJawSideSize(jawSideLandmarks: readonly NormalizedLandmark[]): number {
     // Calculate perimeter of jaw side as approximation of size
     let perimeter = 0;
@@ -280,6 +510,63 @@ export class FacialMetricsCalculator {
     return perimeter;
   }
 
+  private calculateMouthMetrics(
+    landmarks: readonly NormalizedLandmark[],
+    interPupillaryDistance: number
+  ): MouthMetrics {
+    const upperOuterLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.LIPS_UPPER_OUTER);
+    const lowerOuterLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.LIPS_LOWER_OUTER);
+    const upperInnerLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.LIPS_UPPER_INNER);
+    const lowerInnerLandmarks = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.LIPS_LOWER_INNER);
+
+    // Calculate mouth width (commissure to commissure)
+    const leftCommissure = getAnchorLandmark(landmarks, 'LEFT_COMMISSURE');
+    const rightCommissure = getAnchorLandmark(landmarks, 'RIGHT_COMMISSURE');
+    const width = calculateDistance(leftCommissure, rightCommissure);
+
+    // Calculate lip heights at the midline
+    const upperVermilion = getAnchorLandmark(landmarks, 'UPPER_LIP_TOP');
+    const upperStomion = getAnchorLandmark(landmarks, 'UPPER_LIP_BOTTOM');
+    const lowerStomion = getAnchorLandmark(landmarks, 'LOWER_LIP_TOP');
+    const lowerVermilion = getAnchorLandmark(landmarks, 'LOWER_LIP_BOTTOM');
+    const upperLipHeight = calculateDistance(upperVermilion, upperStomion);
+    const lowerLipHeight = calculateDistance(lowerStomion, lowerVermilion);
+
+    // Calculate Cupid's bow symmetry (peak distances from the philtrum dip)
+    const leftPeak = getAnchorLandmark(landmarks, 'LEFT_CUPIDS_BOW_PEAK');
+    const rightPeak = getAnchorLandmark(landmarks, 'RIGHT_CUPIDS_BOW_PEAK');
+    const cupidsBowSymmetry =
+      calculateDistance(leftPeak, upperVermilion) / calculateDistance(rightPeak, upperVermilion);
+
+    // Calculate commissure tilt
+    const commissureTilt = Math.atan2(
+      rightCommissure.y - leftCommissure.y,
+      rightCommissure.x - leftCommissure.x
+    ) * (180 / Math.PI);
+
+    return {
+      width,
+      upperLipHeight,
+      lowerLipHeight,
+      lipRatio: upperLipHeight / lowerLipHeight,
+      widthToIpdRatio: width / interPupillaryDistance,
+      cupidsBowSymmetry,
+      commissureTilt,
+      landmarks: [...upperOuterLandmarks, ...lowerOuterLandmarks, ...upperInnerLandmarks, ...lowerInnerLandmarks],
+    };
+  }
+
+  private toImageHeightUnits(
+    landmarks: readonly NormalizedLandmark[],
+    aspectRatio: number
+  ): NormalizedLandmark[] {
+    return landmarks.map(landmark => ({
+      ...landmark,
+      x: landmark.x * aspectRatio,
+      ...(landmark.z !== undefined && { z: landmark.z * aspectRatio }),
+    }));
+  }
+
   private calculateCentroid(landmarks: readonly NormalizedLandmark[]): NormalizedLandmark {
     const sum = landmarks.reduce(
 (acc, landmark) => ({
@@ -297,107 +584,237 @@ export class FacialMetricsCalculator {
     };
   }
 
-  calculateQualityScores(features: FacialFeatures): QualityScores {
-    const eyeScore = this.calculateEyeScore(features.eyes);
-    const noseScore = this.calculateNoseScore(features.nose);
-    const jawScore = this.calculateJawScore(features.jaw);
+  calculateQualityScores(features: FacialFeatures, qualityCheck?: QualityCheckResult): QualityScores {
+    const explanation = this.explainQualityScores(features);
+    const featureConfidence = this.calculateFeatureConfidence(features, qualityCheck);
 
-    // Overall score is weighted average
-    const overall = (eyeScore + noseScore + jawScore) / 3;
+    // Overall score and confidence are weighted means over the features
+    const weights = this.weightingFactors.overall ?? DEFAULT_OVERALL_WEIGHTS;
+    const scoredFeatures = Object.keys(weights) as ScoredFeature[];
+    const totalWeight = scoredFeatures.reduce((sum, feature) => sum + weights[feature], 0);
+    const weightedMean = (value: (feature: ScoredFeature) => number): number => totalWeight === 0
+      ? 0
+      : scoredFeatures.reduce((sum, feature) => sum + weights[feature] * value(feature), 0) / totalWeight;
 
     return {
-      eyes: Math.round(eyeScore),
-      nose: Math.round(noseScore),
-      jaw: Math.round(jawScore),
-      overall: Math.round(overall),
+      eyes: Math.round(explanation.eyes.score),
+      brows: Math.round(explanation.brows.score),
+      nose: Math.round(explanation.nose.score),
+      jaw: Math.round(explanation.jaw.score),
+      mouth: Math.round(explanation.mouth.score),
+      proportions: Math.round(explanation.proportions.score),
+      overall: Math.round(weightedMean(feature => explanation[feature].score)),
+      profile: this.profile,
+      confidence: {
+        ...featureConfidence,
+        overall: weightedMean(feature => featureConfidence[feature]),
+      },
     };
   }
 
-  private calculateEyeScore(eyeMetrics: EyeMetrics): number {
-    const aspectRatioDeviation = this.calculateDeviation(
-      (eyeMetrics.leftEye.aspectRatio + eyeMetrics.rightEye.aspectRatio) / 2,
-      this.baselineRanges.eyes.aspectRatio
-    );
-
-    const symmetryDeviation = this.calculateDeviation(
-      eyeMetrics.eyeSymmetry,
-      this.baselineRanges.eyes.symmetry
-    );
-
-    const tiltDeviation = this.calculateDeviation(
-      (Math.abs(eyeMetrics.leftEye.tilt) + Math.abs(eyeMetrics.rightEye.tilt)) / 2,
-      this.baselineRanges.eyes.tilt
-    );
-
-    const weightedDeviation =
-      this.weightingFactors.eyes.aspectRatio * aspectRatioDeviation +
-      this.weightingFactors.eyes.symmetry * symmetryDeviation +
-      this.weightingFactors.eyes.tilt * tiltDeviation;
-
-    return this.deviationToScore(weightedDeviation);
+  /**
+   * Break every feature score down into the sub-metrics that produced it
+   */
+  explainQualityScores(features: FacialFeatures): ScoreExplanation {
+    return {
+      eyes: this.explainEyeScore(features.eyes),
+      brows: this.explainBrowScore(features.brows),
+      nose: this.explainNoseScore(features.nose),
+      jaw: this.explainJawScore(features.jaw),
+      mouth: this.explainMouthScore(features.mouth),
+      proportions: this.explainProportionScore(features.proportions),
+    };
   }
 
-  private calculateNoseScore(noseMetrics: NoseMetrics): number {
-    // Normalize nose width relative to some face width measurement
-    const normalizedWidth = noseMetrics.width / noseMetrics.bridgeWidth;
-    const widthDeviation = this.calculateDeviation(
-      normalizedWidth,
-      this.baselineRanges.nose.widthRatio
-    );
+  private calculateFeatureConfidence(
+    features: FacialFeatures,
+    qualityCheck?: QualityCheckResult
+  ): Record<ScoredFeature, number> {
+    // Large corrections rely on the mesh depth, which is the least reliable coordinate
+    const poseConfidence = 1 - Math.min(1, Math.max(0,
+      (features.alignment.angle - POSE_CONFIDENCE_TOLERANCE) / (POSE_CONFIDENCE_LIMIT - POSE_CONFIDENCE_TOLERANCE)
+    ));
+    const qualityConfidence = qualityCheck === undefined ? 1 : Math.min(1, Math.max(0, qualityCheck.confidence / 100));
+    const shared = poseConfidence * qualityConfidence;
 
-    const projectionDeviation = this.calculateDeviation(
-      Math.abs(noseMetrics.tipProjection),
-      this.baselineRanges.nose.projection
-    );
+    // Landmarks outside the frame are extrapolated, not seen
+    const { frameCoverage } = features;
 
-    const symmetryDeviation = this.calculateDeviation(
-      noseMetrics.nostrilSymmetry,
-      this.baselineRanges.nose.symmetry
-    );
+    return {
+      eyes: shared * frameCoverage.eyes,
+      brows: shared * frameCoverage.brows,
+      nose: shared * frameCoverage.nose,
+      jaw: shared * frameCoverage.jaw,
+      mouth: shared * frameCoverage.mouth,
+      proportions: shared * frameCoverage.proportions,
+    };
+  }
 
-    const weightedDeviation =
-      this.weightingFactors.nose.width * widthDeviation +
-      this.weightingFactors.nose.projection * projectionDeviation +
-      this.weightingFactors.nose.symmetry * symmetryDeviation;
+  private explainEyeScore(eyeMetrics: EyeMetrics): FeatureExplanation {
+    const ranges = this.baselineRanges.eyes;
+    const weights = this.weightingFactors.eyes;
+
+    return this.explainFeature('eyes', [
+      {
+        metric: 'aspectRatio',
+        value: (eyeMetrics.leftEye.aspectRatio + eyeMetrics.rightEye.aspectRatio) / 2,
+        idealRange: ranges.aspectRatio,
+        weight: weights.aspectRatio,
+      },
+      { metric: 'symmetry', value: eyeMetrics.eyeSymmetry, idealRange: ranges.symmetry, weight: weights.symmetry },
+      {
+        metric: 'tilt',
+        value: (Math.abs(eyeMetrics.leftEye.tilt) + Math.abs(eyeMetrics.rightEye.tilt)) / 2,
+        idealRange: ranges.tilt,
+        weight: weights.tilt,
+      },
+    ]);
+  }
 
-    return this.deviationToScore(weightedDeviation);
+  private explainBrowScore(browMetrics: BrowMetrics): FeatureExplanation {
+    const { leftBrow, rightBrow } = browMetrics;
+    const ranges = this.baselineRanges.brows;
+    const weights = this.weightingFactors.brows;
+
+    return this.explainFeature('brows', [
+      {
+        metric: 'archRatio',
+        value: (leftBrow.archRatio + rightBrow.archRatio) / 2,
+        idealRange: ranges.archRatio,
+        weight: weights.archRatio,
+      },
+      {
+        metric: 'peakOffset',
+        value: (leftBrow.peakOffset + rightBrow.peakOffset) / 2,
+        idealRange: ranges.peakOffset,
+        weight: weights.peakOffset,
+      },
+      // Head roll raises one tail and lowers the other, so the mean cancels it
+      {
+        metric: 'tilt',
+        value: (leftBrow.tilt + rightBrow.tilt) / 2,
+        idealRange: ranges.tilt,
+        weight: weights.tilt,
+      },
+      {
+        metric: 'browEyeRatio',
+        value: (leftBrow.browEyeRatio + rightBrow.browEyeRatio) / 2,
+        idealRange: ranges.browEyeRatio,
+        weight: weights.browEyeRatio,
+      },
+      { metric: 'symmetry', value: browMetrics.symmetry, idealRange: ranges.symmetry, weight: weights.symmetry },
+    ]);
   }
 
-  private calculateJawScore(jawMetrics: JawMetrics): number {
-    const angleDeviation = this.calculateDeviation(
-      jawMetrics.angle,
-      this.baselineRanges.jaw.angle
-    );
+  private explainNoseScore(noseMetrics: NoseMetrics): FeatureExplanation {
+    const ranges = this.baselineRanges.nose;
+    const weights = this.weightingFactors.nose;
+
+    return this.explainFeature('nose', [
+      // Normalize nose width relative to some face width measurement
+      {
+        metric: 'widthRatio',
+        value: noseMetrics.width / noseMetrics.bridgeWidth,
+        idealRange: ranges.widthRatio,
+        weight: weights.width,
+      },
+      {
+        metric: 'projection',
+        value: Math.abs(noseMetrics.tipProjection),
+        idealRange: ranges.projection,
+        weight: weights.projection,
+      },
+      { metric: 'symmetry', value: noseMetrics.nostrilSymmetry, idealRange: ranges.symmetry, weight: weights.symmetry },
+    ]);
+  }
 
-    const projectionDeviation = this.calculateDeviation(
-      jawMetrics.lowerFaceRatio,
-      this.baselineRanges.jaw.chinRatio
-    );
+  private explainJawScore(jawMetrics: JawMetrics): FeatureExplanation {
+    const ranges = this.baselineRanges.jaw;
+    const weights = this.weightingFactors.jaw;
+
+    return this.explainFeature('jaw', [
+      { metric: 'angle', value: jawMetrics.angle, idealRange: ranges.angle, weight: weights.angle },
+      {
+        metric: 'chinRatio',
+        value: jawMetrics.lowerFaceRatio,
+        idealRange: ranges.chinRatio,
+        weight: weights.projection,
+      },
+      { metric: 'asymmetry', value: jawMetrics.asymmetry, idealRange: ranges.asymmetry, weight: weights.asymmetry },
+    ]);
+  }
 
-    const asymmetryDeviation = this.calculateDeviation(
-      jawMetrics.asymmetry,
-      this.baselineRanges.jaw.asymmetry
-    );
+  private explainMouthScore(mouthMetrics: MouthMetrics): FeatureExplanation {
+    const ranges = this.baselineRanges.mouth;
+    const weights = this.weightingFactors.mouth;
+
+    return this.explainFeature('mouth', [
+      { metric: 'lipRatio', value: mouthMetrics.lipRatio, idealRange: ranges.lipRatio, weight: weights.lipRatio },
+      {
+        metric: 'widthToIpd',
+        value: mouthMetrics.widthToIpdRatio,
+        idealRange: ranges.widthToIpd,
+        weight: weights.widthToIpd,
+      },
+      {
+        metric: 'cupidsBowSymmetry',
+        value: mouthMetrics.cupidsBowSymmetry,
+        idealRange: ranges.cupidsBowSymmetry,
+        weight: weights.cupidsBowSymmetry,
+      },
+      {
+        metric: 'commissureTilt',
+        value: Math.abs(mouthMetrics.commissureTilt),
+        idealRange: ranges.commissureTilt,
+        weight: weights.commissureTilt,
+      },
+    ]);
+  }
 
-    const weightedDeviation =
-      this.weightingFactors.jaw.angle * angleDeviation +
-      this.weightingFactors.jaw.projection * projectionDeviation +
-      this.weightingFactors.jaw.asymmetry * asymmetryDeviation;
+  private explainProportionScore(proportionMetrics: ProportionMetrics): FeatureExplanation {
+    const ranges = this.baselineRanges.proportions ?? DEFAULT_PROPORTION_RANGES;
+    const weights = this.weightingFactors.proportions ?? DEFAULT_PROPORTION_WEIGHTS;
+
+    return this.explainFeature('proportions', [
+      {
+        metric: 'thirdsDeviation',
+        value: proportionMetrics.thirdsDeviation,
+        idealRange: ranges.thirdsDeviation,
+        weight: weights.thirds,
+      },
+      {
+        metric: 'fifthsDeviation',
+        value: proportionMetrics.fifthsDeviation,
+        idealRange: ranges.fifthsDeviation,
+        weight: weights.fifths,
+      },
+      {
+        metric: 'faceRatio',
+        value: proportionMetrics.faceRatio,
+        idealRange: ranges.faceRatio,
+        weight: weights.faceRatio,
+      },
+    ]);
+  }
 
-    return this.deviationToScore(weightedDeviation);
+  private explainFeature(
+    feature: ScoredFeature,
+    inputs: readonly Omit<SubMetricEvidence, 'curve' | 'deviation' | 'contribution'>[]
+  ): FeatureExplanation {
+    const subMetrics = inputs.map(input => {
+      const curve = this.getScoringCurve(feature, input.metric);
+      const deviation = evaluateScoringCurve(curve, input.value, input.idealRange);
+      return { ...input, curve, deviation, contribution: 100 * input.weight * deviation };
+    });
+    const weightedDeviation = subMetrics.reduce((sum, entry) => sum + entry.weight * entry.deviation, 0);
+
+    return { feature, score: this.deviationToScore(weightedDeviation), subMetrics };
   }
 
-  private calculateDeviation(value: number, idealRange: readonly [number, number]): number {
-    const [min, max] = idealRange;
-    if (value >= min && value <= max) {
-      return 0; // Perfect score within range
-    }
-    
-    const center = (min + max) / 2;
-    const rangeSize = max - min;
-    const deviation = Math.abs(value - center) / rangeSize;
-    
-    return Math.min(deviation, 1); // Cap at 1.0 maximum deviation
+  private getScoringCurve(feature: ScoredFeature, metric: string): ScoringCurve {
+    const curves = this.baselineRanges.curves;
+    const featureCurves: Readonly<Record<string, ScoringCurve | undefined>> | undefined = curves?.[feature];
+    return featureCurves?.[metric] ?? curves?.default ?? STEP_CURVE;
   }
 
   private deviationToScore(weightedDeviation: number): number {
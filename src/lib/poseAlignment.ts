@@ -0,0 +1,185 @@
+/**
+ * Frontal pose alignment
+ * Rotates the 3D landmark mesh to face the camera so 2D measurements do not depend on head pose
+ */
+
+import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { AlignedLandmarks, PoseAlignmentOptions, PoseCorrection, RotationMatrix, Vector3 } from '@/types/pose';
+import { estimateHeadPose, rotationToEulerAngles } from '@/lib/headPose';
+import { add, subtract, scale, dot, length } from '@/lib/vector';
+
+// Cheek edges used as the face width unit for the Procrustes residual
+const FACE_WIDTH_ANCHORS = [234, 454] as const;
+
+const POWER_ITERATIONS = 100;
+const RAD_TO_DEG = 180 / Math.PI;
+
+const NO_CORRECTION: PoseCorrection = {
+  method: 'none',
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+  angle: 0,
+  residual: null,
+};
+
+/**
+ * Rotate landmarks about their centroid into the frontal pose, reporting the rotation removed.
+ * A reference mesh is fitted by Procrustes; otherwise the head pose (matrix, then landmark frame) is undone.
+ */
+export function alignToFrontalPose(
+  landmarks: readonly NormalizedLandmark[],
+  options: PoseAlignmentOptions = {}
+): AlignedLandmarks {
+  const aspectRatio = options.aspectRatio ?? 1;
+  const points = landmarks.map(landmark => toCameraSpace(landmark, aspectRatio));
+  const centroid = mean(points);
+
+  const reference = options.referenceLandmarks;
+  if (reference !== undefined && reference !== null && reference.length === landmarks.length) {
+    const referencePoints = reference.map(landmark => toCameraSpace(landmark, aspectRatio));
+    const fit = fitProcrustes(points, referencePoints);
+    if (fit !== null) {
+      return {
+        landmarks: rotateLandmarks(landmarks, points, centroid, fit.rotation, aspectRatio),
+        correction: describeCorrection('procrustes', transpose(fit.rotation), fit.residual),
+      };
+    }
+  }
+
+  const pose = estimateHeadPose(landmarks, options);
+  if (pose === null) {
+    return { landmarks, correction: NO_CORRECTION };
+  }
+
+  // The pose maps the frontal face into camera space, so its transpose undoes it
+  return {
+    landmarks: rotateLandmarks(landmarks, points, centroid, transpose(pose.rotation), aspectRatio),
+    correction: describeCorrection(pose.source, pose.rotation, null),
+  };
+}
+
+/**
+ * Rotation that best maps the centered source points onto the centered target points (Horn's quaternion method)
+ */
+function fitProcrustes(
+  source: readonly Vector3[],
+  target: readonly Vector3[]
+): { rotation: RotationMatrix; residual: number } | null {
+  const sourceCentroid = mean(source);
+  const targetCentroid = mean(target);
+  const a = source.map(p => subtract(p, sourceCentroid));
+  const b = target.map(p => subtract(p, targetCentroid));
+
+  // Cross-covariance entries s_ij = Σ a_i b_j
+  const covariance = (i: 0 | 1 | 2, j: 0 | 1 | 2): number =>
+    a.reduce((sum, p, k) => sum + p[i] * (b[k]?.[j] ?? 0), 0);
+  const sxx = covariance(0, 0), sxy = covariance(0, 1), sxz = covariance(0, 2);
+  const syx = covariance(1, 0), syy = covariance(1, 1), syz = covariance(1, 2);
+  const szx = covariance(2, 0), szy = covariance(2, 1), szz = covariance(2, 2);
+
+  const n = [
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz],
+  ];
+
+  const quaternion = dominantEigenvector(n);
+  if (quaternion === null) return null;
+  const rotation = quaternionToRotation(quaternion);
+
+  // Residual after the best uniform scale, relative to the reference face width
+  const rotated = a.map(p => applyRotation(rotation, p));
+  const sourceNorm = rotated.reduce((sum, p) => sum + dot(p, p), 0);
+  const fitScale = sourceNorm === 0 ? 0 : rotated.reduce((sum, p, k) => sum + dot(p, b[k] ?? [0, 0, 0]), 0) / sourceNorm;
+  const squaredError = rotated.reduce((sum, p, k) => {
+    const diff = subtract(scale(p, fitScale), b[k] ?? [0, 0, 0]);
+    return sum + dot(diff, diff);
+  }, 0);
+
+  const cheekLeft = target[FACE_WIDTH_ANCHORS[0]];
+  const cheekRight = target[FACE_WIDTH_ANCHORS[1]];
+  const faceWidth = cheekLeft !== undefined && cheekRight !== undefined ? length(subtract(cheekRight, cheekLeft)) : 0;
+  const rms = Math.sqrt(squaredError / Math.max(a.length, 1));
+
+  return { rotation, residual: faceWidth === 0 ? rms : rms / faceWidth };
+}
+
+/**
+ * Eigenvector of the largest eigenvalue of a symmetric 4x4 matrix, by shifted power iteration
+ */
+function dominantEigenvector(matrix: readonly (readonly number[])[]): readonly number[] | null {
+  // Shifting by the Frobenius norm makes every eigenvalue non-negative,
+  // so the largest one also dominates in magnitude
+  const shift = Math.sqrt(matrix.reduce((sum, row) => sum + row.reduce((rowSum, v) => rowSum + v * v, 0), 0));
+  if (shift === 0) return null;
+
+  let vector = [1, 0, 0, 0];
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    const next = matrix.map((row, i) =>
+      row.reduce((sum, v, j) => sum + v * (vector[j] ?? 0), 0) + shift * (vector[i] ?? 0)
+    );
+    const norm = Math.hypot(...next);
+    if (norm === 0) return null;
+    vector = next.map(v => v / norm);
+  }
+  return vector;
+}
+
+function quaternionToRotation([w = 1, x = 0, y = 0, z = 0]: readonly number[]): RotationMatrix {
+  return [
+    [w * w + x * x - y * y - z * z, 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), w * w - x * x + y * y - z * z, 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), w * w - x * x - y * y + z * z],
+  ];
+}
+
+function rotateLandmarks(
+  landmarks: readonly NormalizedLandmark[],
+  points: readonly Vector3[],
+  centroid: Vector3,
+  rotation: RotationMatrix,
+  aspectRatio: number
+): readonly NormalizedLandmark[] {
+  return landmarks.map((landmark, i) => {
+    const point = points[i];
+    if (point === undefined) return landmark;
+    const [x, y, z] = add(applyRotation(rotation, subtract(point, centroid)), centroid);
+    return { ...landmark, x: x / aspectRatio, y: -y, z: -z / aspectRatio };
+  });
+}
+
+function describeCorrection(
+  method: PoseCorrection['method'],
+  poseRotation: RotationMatrix,
+  residual: number | null
+): PoseCorrection {
+  const [[r00], [, r11], [, , r22]] = poseRotation;
+  const trace = r00 + r11 + r22;
+  const angle = Math.acos(Math.max(-1, Math.min(1, (trace - 1) / 2))) * RAD_TO_DEG;
+
+  return { method, ...rotationToEulerAngles(poseRotation), angle, residual };
+}
+
+/**
+ * Landmark x and z are scaled by image width and y by height; convert to a
+ * common unit and flip into camera axes (y up, z toward the camera)
+ */
+function toCameraSpace(landmark: NormalizedLandmark, aspectRatio: number): Vector3 {
+  return [landmark.x * aspectRatio, -landmark.y, -(landmark.z ?? 0) * aspectRatio];
+}
+
+function applyRotation(rotation: RotationMatrix, v: Vector3): Vector3 {
+  return [dot(rotation[0], v), dot(rotation[1], v), dot(rotation[2], v)];
+}
+
+function transpose(rotation: RotationMatrix): RotationMatrix {
+  const [[a, b, c], [d, e, f], [g, h, i]] = rotation;
+  return [[a, d, g], [b, e, h], [c, f, i]];
+}
+
+function mean(points: readonly Vector3[]): Vector3 {
+  if (points.length === 0) return [0, 0, 0];
+  return scale(points.reduce<Vector3>((sum, p) => add(sum, p), [0, 0, 0]), 1 / points.length);
+}
\ No newline at end of file
@@ -0,0 +1,362 @@
+/**
+ * Scoring profiles
+ * Loads and validates named baseline/weight presets defined in JSON
+ */
+
+import type { BaselineRanges, ScoringCurve, ScoringCurves, ScoringCurveType, WeightingFactors } from '@/types/metrics';
+import type { ProfileReference, ProfileValidationError, ScoringProfile } from '@/types/profile';
+import { SCORING_CURVE_PARAMETERS } from '@/lib/scoringCurves';
+import standardProfile from '@/profiles/standard.json';
+import symmetryProfile from '@/profiles/symmetry.json';
+
+// Runtime mirror of BaselineRanges / WeightingFactors: feature sections and their keys
+const RANGE_SCHEMA = {
+  eyes: ['aspectRatio', 'symmetry', 'tilt'],
+  brows: ['archRatio', 'peakOffset', 'tilt', 'browEyeRatio', 'symmetry'],
+  nose: ['widthRatio', 'projection', 'symmetry'],
+  jaw: ['angle', 'chinRatio', 'asymmetry'],
+  mouth: ['lipRatio', 'widthToIpd', 'cupidsBowSymmetry', 'commissureTilt'],
+} as const;
+
+const WEIGHT_SCHEMA = {
+  eyes: ['aspectRatio', 'symmetry', 'tilt'],
+  brows: ['archRatio', 'peakOffset', 'tilt', 'browEyeRatio', 'symmetry'],
+  nose: ['width', 'projection', 'symmetry'],
+  jaw: ['angle', 'projection', 'asymmetry'],
+  mouth: ['lipRatio', 'widthToIpd', 'cupidsBowSymmetry', 'commissureTilt'],
+} as const;
+
+// Sections that fall back to built-in values when a profile leaves them out
+const OPTIONAL_RANGE_SCHEMA = {
+  proportions: ['thirdsDeviation', 'fifthsDeviation', 'faceRatio'],
+} as const;
+
+const OPTIONAL_WEIGHT_SCHEMA = {
+  proportions: ['thirds', 'fifths', 'faceRatio'],
+  overall: ['eyes', 'brows', 'nose', 'jaw', 'mouth', 'proportions'],
+} as const;
+
+// Weights are written by hand with a few decimals, so rounded sums such as 3 × 0.333 still pass
+const WEIGHT_SUM_TOLERANCE = 1e-3;
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+export const DEFAULT_PROFILE_NAME = 'standard';
+
+const BUILT_IN_PROFILES: readonly ScoringProfile[] = [standardProfile, symmetryProfile].map(parseScoringProfile);
+
+/**
+ * Validate a parsed JSON value as a scoring profile
+ */
+export function parseScoringProfile(value: unknown): ScoringProfile {
+  const record = asRecord(value, 'profile');
+
+  const name = record['name'];
+  if (typeof name !== 'string' || name.length === 0) {
+    throw createProfileError('INVALID_PROFILE', 'name', 'Profile name must be a non-empty string');
+  }
+  const version = record['version'];
+  if (typeof version !== 'string' || !VERSION_PATTERN.test(version)) {
+    throw createProfileError('INVALID_PROFILE', 'version', 'Profile version must look like "1.0.0"');
+  }
+  const description = record['description'];
+
+  return {
+    name,
+    version,
+    description: typeof description === 'string' ? description : '',
+    baselineRanges: parseBaselineRanges(record['baselineRanges']),
+    weightingFactors: parseWeightingFactors(record['weightingFactors']),
+  };
+}
+
+/**
+ * Every built-in profile, default first
+ */
+export function listProfiles(): readonly ScoringProfile[] {
+  return BUILT_IN_PROFILES;
+}
+
+/**
+ * Look up a built-in profile by name
+ */
+export function getProfile(name: string = DEFAULT_PROFILE_NAME): ScoringProfile {
+  const profile = BUILT_IN_PROFILES.find(candidate => candidate.name === name);
+  if (profile === undefined) {
+    throw createProfileError('UNKNOWN_PROFILE', 'name', `Unknown scoring profile "${name}"`, name);
+  }
+  return profile;
+}
+
+export function toProfileReference(profile: ScoringProfile): ProfileReference {
+  return { name: profile.name, version: profile.version };
+}
+
+function parseBaselineRanges(value: unknown): BaselineRanges {
+  const path = 'baselineRanges';
+  const record = asRecord(value, path);
+  rejectUnknownKeys(record, path, [...Object.keys(RANGE_SCHEMA), ...Object.keys(OPTIONAL_RANGE_SCHEMA), 'curves']);
+
+  const eyes = readSection(record, path, 'eyes', RANGE_SCHEMA.eyes, parseRange);
+  const brows = readSection(record, path, 'brows', RANGE_SCHEMA.brows, parseRange);
+  const nose = readSection(record, path, 'nose', RANGE_SCHEMA.nose, parseRange);
+  const jaw = readSection(record, path, 'jaw', RANGE_SCHEMA.jaw, parseRange);
+  const mouth = readSection(record, path, 'mouth', RANGE_SCHEMA.mouth, parseRange);
+  const proportions = record['proportions'] === undefined
+    ? undefined
+    : readSection(record, path, 'proportions', OPTIONAL_RANGE_SCHEMA.proportions, parseRange);
+  const curves = record['curves'];
+
+  return {
+    eyes: { aspectRatio: eyes('aspectRatio'), symmetry: eyes('symmetry'), tilt: eyes('tilt') },
+    brows: {
+      archRatio: brows('archRatio'),
+      peakOffset: brows('peakOffset'),
+      tilt: brows('tilt'),
+      browEyeRatio: brows('browEyeRatio'),
+      symmetry: brows('symmetry'),
+    },
+    nose: { widthRatio: nose('widthRatio'), projection: nose('projection'), symmetry: nose('symmetry') },
+    jaw: { angle: jaw('angle'), chinRatio: jaw('chinRatio'), asymmetry: jaw('asymmetry') },
+    mouth: {
+      lipRatio: mouth('lipRatio'),
+      widthToIpd: mouth('widthToIpd'),
+      cupidsBowSymmetry: mouth('cupidsBowSymmetry'),
+      commissureTilt: mouth('commissureTilt'),
+    },
+    ...(proportions !== undefined && {
+      proportions: {
+        thirdsDeviation: proportions('thirdsDeviation'),
+        fifthsDeviation: proportions('fifthsDeviation'),
+        faceRatio: proportions('faceRatio'),
+      },
+    }),
+    ...(curves !== undefined && { curves: parseCurves(curves, `${path}.curves`) }),
+  };
+}
+
+function parseWeightingFactors(value: unknown): WeightingFactors {
+  const path = 'weightingFactors';
+  const record = asRecord(value, path);
+  rejectUnknownKeys(record, path, [...Object.keys(WEIGHT_SCHEMA), ...Object.keys(OPTIONAL_WEIGHT_SCHEMA)]);
+
+  const eyes = readWeightSection(record, path, 'eyes', WEIGHT_SCHEMA.eyes);
+  const brows = readWeightSection(record, path, 'brows', WEIGHT_SCHEMA.brows);
+  const nose = readWeightSection(record, path, 'nose', WEIGHT_SCHEMA.nose);
+  const jaw = readWeightSection(record, path, 'jaw', WEIGHT_SCHEMA.jaw);
+  const mouth = readWeightSection(record, path, 'mouth', WEIGHT_SCHEMA.mouth);
+  const proportions = record['proportions'] === undefined
+    ? undefined
+    : readWeightSection(record, path, 'proportions', OPTIONAL_WEIGHT_SCHEMA.proportions);
+  const overall = record['overall'] === undefined
+    ? undefined
+    : readWeightSection(record, path, 'overall', OPTIONAL_WEIGHT_SCHEMA.overall);
+
+  return {
+    eyes: { aspectRatio: eyes('aspectRatio'), symmetry: eyes('symmetry'), tilt: eyes('tilt') },
+    brows: {
+      archRatio: brows('archRatio'),
+      peakOffset: brows('peakOffset'),
+      tilt: brows('tilt'),
+      browEyeRatio: brows('browEyeRatio'),
+      symmetry: brows('symmetry'),
+    },
+    nose: { width: nose('width'), projection: nose('projection'), symmetry: nose('symmetry') },
+    jaw: { angle: jaw('angle'), projection: jaw('projection'), asymmetry: jaw('asymmetry') },
+    mouth: {
+      lipRatio: mouth('lipRatio'),
+      widthToIpd: mouth('widthToIpd'),
+      cupidsBowSymmetry: mouth('cupidsBowSymmetry'),
+      commissureTilt: mouth('commissureTilt'),
+    },
+    ...(proportions !== undefined && {
+      proportions: {
+        thirds: proportions('thirds'),
+        fifths: proportions('fifths'),
+        faceRatio: proportions('faceRatio'),
+      },
+    }),
+    ...(overall !== undefined && {
+      overall: {
+        eyes: overall('eyes'),
+        brows: overall('brows'),
+        nose: overall('nose'),
+        jaw: overall('jaw'),
+        mouth: overall('mouth'),
+        proportions: overall('proportions'),
+      },
+    }),
+  };
+}
+
+function parseCurves(value: unknown, path: string): ScoringCurves {
+  const record = asRecord(value, path);
+  rejectUnknownKeys(record, path, ['default', ...Object.keys(RANGE_SCHEMA), ...Object.keys(OPTIONAL_RANGE_SCHEMA)]);
+
+  const curveDefault = record['default'];
+  const eyes = parseCurveSection(record, path, 'eyes', RANGE_SCHEMA.eyes);
+  const brows = parseCurveSection(record, path, 'brows', RANGE_SCHEMA.brows);
+  const nose = parseCurveSection(record, path, 'nose', RANGE_SCHEMA.nose);
+  const jaw = parseCurveSection(record, path, 'jaw', RANGE_SCHEMA.jaw);
+  const mouth = parseCurveSection(record, path, 'mouth', RANGE_SCHEMA.mouth);
+  const proportions = parseCurveSection(record, path, 'proportions', OPTIONAL_RANGE_SCHEMA.proportions);
+
+  return {
+    ...(curveDefault !== undefined && { default: parseCurve(curveDefault, `${path}.default`) }),
+    ...(eyes !== undefined && { eyes }),
+    ...(brows !== undefined && { brows }),
+    ...(nose !== undefined && { nose }),
+    ...(jaw !== undefined && { jaw }),
+    ...(mouth !== undefined && { mouth }),
+    ...(proportions !== undefined && { proportions }),
+  };
+}
+
+// Sections and every sub-metric are optional here and fall back to the default curve
+function parseCurveSection<K extends string>(
+  record: Record<string, unknown>,
+  path: string,
+  section: string,
+  keys: readonly K[]
+): Partial<Record<K, ScoringCurve>> | undefined {
+  if (record[section] === undefined) return undefined;
+
+  const sectionPath = `${path}.${section}`;
+  const sectionRecord = asRecord(record[section], sectionPath);
+  rejectUnknownKeys(sectionRecord, sectionPath, keys);
+
+  const curves: Partial<Record<K, ScoringCurve>> = {};
+  for (const key of keys) {
+    const curve = sectionRecord[key];
+    if (curve !== undefined) {
+      curves[key] = parseCurve(curve, `${sectionPath}.${key}`);
+    }
+  }
+  return curves;
+}
+
+function parseCurve(value: unknown, path: string): ScoringCurve {
+  const record = asRecord(value, path);
+  const type = record['type'];
+  if (!isScoringCurveType(type)) {
+    throw createProfileError(
+      'INVALID_PROFILE',
+      `${path}.type`,
+      `Curve type must be one of ${Object.keys(SCORING_CURVE_PARAMETERS).join(', ')}`,
+      type
+    );
+  }
+  rejectUnknownKeys(record, path, ['type', ...SCORING_CURVE_PARAMETERS[type]]);
+
+  const readParameter = (parameter: string): number | undefined => {
+    const parameterValue = record[parameter];
+    if (parameterValue === undefined) return undefined;
+    if (!isFiniteNumber(parameterValue) || parameterValue <= 0) {
+      throw createProfileError('INVALID_PROFILE', `${path}.${parameter}`, 'Curve parameter must be a positive number', parameterValue);
+    }
+    return parameterValue;
+  };
+
+  switch (type) {
+    case 'step':
+      return { type };
+    case 'gaussian': {
+      const sigma = readParameter('sigma');
+      return { type, ...(sigma !== undefined && { sigma }) };
+    }
+    case 'logistic': {
+      const midpoint = readParameter('midpoint');
+      const steepness = readParameter('steepness');
+      return { type, ...(midpoint !== undefined && { midpoint }), ...(steepness !== undefined && { steepness }) };
+    }
+    case 'linear': {
+      const margin = readParameter('margin');
+      return { type, ...(margin !== undefined && { margin }) };
+    }
+  }
+}
+
+/**
+ * Check a section's keys against its schema and return a reader that validates each entry it reads
+ */
+function readSection<K extends string, T>(
+  record: Record<string, unknown>,
+  path: string,
+  section: string,
+  keys: readonly K[],
+  parseEntry: (value: unknown, path: string) => T
+): (key: K) => T {
+  const sectionPath = `${path}.${section}`;
+  const sectionRecord = asRecord(record[section], sectionPath);
+  rejectUnknownKeys(sectionRecord, sectionPath, keys);
+
+  return key => parseEntry(sectionRecord[key], `${sectionPath}.${key}`);
+}
+
+function readWeightSection<K extends string>(
+  record: Record<string, unknown>,
+  path: string,
+  section: string,
+  keys: readonly K[]
+): (key: K) => number {
+  const weight = readSection(record, path, section, keys, parseWeight);
+
+  // A feature score is 100 × (1 - Σ w·d), which only spans 0-100 when the weights sum to 1
+  const sum = keys.reduce((total, key) => total + weight(key), 0);
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    throw createProfileError('INVALID_PROFILE', `${path}.${section}`, `Weights must sum to 1, got ${sum}`, record[section]);
+  }
+  return weight;
+}
+
+function parseRange(value: unknown, path: string): readonly [number, number] {
+  const [min, max] = Array.isArray(value) ? (value as unknown[]) : [];
+  if (!Array.isArray(value) || value.length !== 2 || !isFiniteNumber(min) || !isFiniteNumber(max) || min > max) {
+    throw createProfileError('INVALID_PROFILE', path, 'Range must be [min, max] with min <= max', value);
+  }
+  return [min, max];
+}
+
+function parseWeight(value: unknown, path: string): number {
+  if (!isFiniteNumber(value) || value < 0) {
+    throw createProfileError('INVALID_PROFILE', path, 'Weight must be a non-negative number', value);
+  }
+  return value;
+}
+
+function rejectUnknownKeys(record: Record<string, unknown>, path: string, allowed: readonly string[]): void {
+  const unknownKey = Object.keys(record).find(key => !allowed.includes(key));
+  if (unknownKey !== undefined) {
+    throw createProfileError('INVALID_PROFILE', `${path}.${unknownKey}`, `Unknown entry "${unknownKey}"`);
+  }
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw createProfileError('INVALID_PROFILE', path, `${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function isScoringCurveType(value: unknown): value is ScoringCurveType {
+  return typeof value === 'string' && Object.hasOwn(SCORING_CURVE_PARAMETERS, value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function createProfileError(
+  code: ProfileValidationError['code'],
+  path: string,
+  message: string,
+  details?: unknown
+): ProfileValidationError {
+  return {
+    name: 'ProfileValidationError',
+    message: code === 'INVALID_PROFILE' ? `Invalid scoring profile at ${path}: ${message}` : message,
+    code,
+    path,
+    details,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Facial proportion analysis
+ * Measures vertical thirds and horizontal fifths of the face from the mesh
+ */
+
+import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { ProportionMetrics } from '@/types/metrics';
+import { extractLandmarksByIndices, calculateDistance } from '@/lib/mediapipe';
+import { LANDMARK_ANCHORS } from '@/lib/landmarkRegions';
+
+// The mesh stops mid-forehead at FOREHEAD_TOP, short of the hairline. That point usually sits about
+// two-thirds of the way from glabella up to trichion, so the glabella–forehead-top span is extended by half.
+export const TRICHION_EXTRAPOLATION = 1.5;
+
+// Top to bottom along the face midline; the upper third starts at the trichion estimated from FOREHEAD_TOP
+export const THIRDS_INDICES = {
+  FOREHEAD_TOP: LANDMARK_ANCHORS.FOREHEAD_TOP.index,
+  GLABELLA: LANDMARK_ANCHORS.GLABELLA.index,
+  SUBNASALE: LANDMARK_ANCHORS.SUBNASALE.index,
+  MENTON: LANDMARK_ANCHORS.MENTON.index,
+} as const;
+
+// Image-left to image-right: face edge, outer and inner canthus of each eye, face edge
+export const FIFTHS_INDICES = [
+  LANDMARK_ANCHORS.LEFT_FACE_EDGE.index,
+  LANDMARK_ANCHORS.LEFT_EYE_OUTER_CORNER.index,
+  LANDMARK_ANCHORS.LEFT_EYE_INNER_CORNER.index,
+  LANDMARK_ANCHORS.RIGHT_EYE_INNER_CORNER.index,
+  LANDMARK_ANCHORS.RIGHT_EYE_OUTER_CORNER.index,
+  LANDMARK_ANCHORS.RIGHT_FACE_EDGE.index,
+] as const;
+
+/**
+ * Split the face into thirds and fifths, projected onto the face axes so head roll does not skew them.
+ * The aspect ratio (width / height) of the frame puts both axes in image-height units.
+ */
+export function calculateProportionMetrics(
+  landmarks: readonly NormalizedLandmark[],
+  aspectRatio = 1
+): ProportionMetrics {
+  const thirdsLandmarks = extractLandmarksByIndices(landmarks, Object.values(THIRDS_INDICES));
+  const fifthsLandmarks = extractLandmarksByIndices(landmarks, FIFTHS_INDICES);
+
+  // Landmark x is scaled by image width and y by height, so height and width only compare in one unit
+  const toImageHeightUnits = (point: NormalizedLandmark): NormalizedLandmark => ({ x: point.x * aspectRatio, y: point.y });
+  const [foreheadTop, glabella, subnasale, menton] = thirdsLandmarks.map(toImageHeightUnits);
+  const [leftEdge, leftOuter, leftInner, rightInner, rightOuter, rightEdge] = fifthsLandmarks.map(toImageHeightUnits);
+  if (foreheadTop === undefined || glabella === undefined || subnasale === undefined || menton === undefined ||
+      leftEdge === undefined || leftOuter === undefined || leftInner === undefined ||
+      rightInner === undefined || rightOuter === undefined || rightEdge === undefined) {
+    throw new Error('Missing facial proportion landmarks');
+  }
+
+  const top = {
+    x: glabella.x + (foreheadTop.x - glabella.x) * TRICHION_EXTRAPOLATION,
+    y: glabella.y + (foreheadTop.y - glabella.y) * TRICHION_EXTRAPOLATION,
+  };
+  const height = calculateDistance(top, menton);
+  const width = calculateDistance(leftEdge, rightEdge);
+  if (height === 0 || width === 0) {
+    throw new Error('Degenerate face outline');
+  }
+
+  // Positions along each axis run from 0 at the top or left edge to 1 at the menton or right edge
+  const brow = project(glabella, top, menton);
+  const nose = project(subnasale, top, menton);
+  const thirds: ProportionMetrics['thirds'] = [brow, nose - brow, 1 - nose];
+
+  const outerLeft = project(leftOuter, leftEdge, rightEdge);
+  const innerLeft = project(leftInner, leftEdge, rightEdge);
+  const innerRight = project(rightInner, leftEdge, rightEdge);
+  const outerRight = project(rightOuter, leftEdge, rightEdge);
+  const fifths: ProportionMetrics['fifths'] = [
+    outerLeft,
+    innerLeft - outerLeft,
+    innerRight - innerLeft,
+    outerRight - innerRight,
+    1 - outerRight,
+  ];
+
+  return {
+    thirds,
+    fifths,
+    thirdsDeviation: maxRelativeDeviation(thirds),
+    fifthsDeviation: maxRelativeDeviation(fifths),
+    faceRatio: height / width,
+    trichion: { x: top.x / aspectRatio, y: top.y },
+    landmarks: [...thirdsLandmarks, ...fifthsLandmarks],
+  };
+}
+
+/**
+ * Position of a point along the axis from start to end, 0 at start and 1 at end
+ */
+function project(point: NormalizedLandmark, start: NormalizedLandmark, end: NormalizedLandmark): number {
+  const axisX = end.x - start.x;
+  const axisY = end.y - start.y;
+  return ((point.x - start.x) * axisX + (point.y - start.y) * axisY) / (axisX * axisX + axisY * axisY);
+}
+
+function maxRelativeDeviation(segments: readonly number[]): number {
+  const ideal = 1 / segments.length;
+  return Math.max(...segments.map(segment => Math.abs(segment - ideal) / ideal));
+}
\ No newline at end of file
@@ -3,16 +3,46 @@
  * Validates face angle, lighting, and image quality for accurate analysis
  */
 
-import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { NormalizedLandmark, FaceSelectionPolicy } from '@/types/mediapipe';
+import type { DetectorDependencies } from '@/types/detector';
+import type { FrameSource } from '@/types/frame';
 import type {
+  DetectedFaceQuality,
   QualityCheckResult,
   QualityIssue,
   QualityThresholds,
   ImageQualityMetrics,
   FaceQualityMetrics,
   QualityValidationError,
+  QualityValidationContext,
 } from '@/types/quality';
-import { LANDMARK_INDICES, extractLandmarksByIndices } from '@/lib/mediapipe';
+import type { LandmarkAnchorName } from '@/types/landmarks';
+import { extractLandmarksByIndices } from '@/lib/mediapipe';
+import { LANDMARK_ANCHORS, LANDMARK_INDICES } from '@/lib/landmarkRegions';
+import { calculateFaceBoundingBox, selectPrimaryFace, DEFAULT_SELECTION_POLICY } from '@/lib/faceSelection';
+import { estimateHeadPose } from '@/lib/headPose';
+import { analyzePixelQuality } from '@/lib/imageQuality';
+import { getFrameDimensions, readFramePixels } from '@/lib/frameSource';
+
+// Landmarks that must be in frame for a complete face: eyes, nose and chin
+const COMPLETENESS_ANCHORS: readonly LandmarkAnchorName[] = [
+  'LEFT_EYE_OUTER_CORNER',
+  'LEFT_EYE_INNER_CORNER',
+  'LEFT_EYE_UPPER_LID',
+  'LEFT_EYE_LOWER_LID',
+  'RIGHT_EYE_INNER_CORNER',
+  'RIGHT_EYE_OUTER_CORNER',
+  'RIGHT_EYE_UPPER_LID',
+  'RIGHT_EYE_LOWER_LID',
+  'NOSE_TIP',
+  'SUBNASALE',
+  'LEFT_ALA',
+  'RIGHT_ALA',
+  'LEFT_CHIN',
+  'RIGHT_CHIN',
+  'POGONION',
+  'MENTON',
+] as const;
 
 const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
   faceAngle: {
@@ -42,12 +72,48 @@ const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
 } as const;
 
 export class QualityValidator {
-  constructor(private readonly thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS) {}
+  constructor(
+    private readonly thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+    private readonly dependencies: DetectorDependencies = {}
+  ) {}
+
+  /**
+   * Detect faces with the injected detector and validate the selected one
+   */
+  async detectAndValidate(
+    source: FrameSource,
+    context: QualityValidationContext = {},
+    policy: FaceSelectionPolicy = DEFAULT_SELECTION_POLICY
+  ): Promise<DetectedFaceQuality> {
+    const detector = this.dependencies.detector;
+    if (detector === undefined) {
+      const validationError: QualityValidationError = {
+        name: 'QualityValidationError',
+        message: 'No face detector was provided to QualityValidator',
+        code: 'PROCESSING_ERROR',
+      };
+      throw validationError;
+    }
+
+    const faces = await detector.detectFaces(source);
+    const face = selectPrimaryFace(faces, policy) ?? null;
+    const qualityCheck = this.validateImage(source, face?.landmarks ?? [], {
+      faceCount: faces.length,
+      transformationMatrix: face?.transformationMatrix ?? null,
+      ...context,
+    });
+
+    return { face, qualityCheck };
+  }
 
-  async validateImage(
-    imageElement: HTMLImageElement | HTMLCanvasElement,
-    landmarks: readonly NormalizedLandmark[]
-  ): Promise<QualityCheckResult> {
+  /**
+   * Check pixel and face quality of a frame; any frame source works, including in a worker
+   */
+  validateImage(
+    source: FrameSource,
+    landmarks: readonly NormalizedLandmark[],
+    context: QualityValidationContext = {}
+  ): QualityCheckResult {
     const issues: QualityIssue[] = [];
 
     try {
@@ -62,7 +128,7 @@ export class QualityValidator {
       }
 
       // Check for multiple faces (we only want one)
-      const faceCount = this.estimateFaceCount(landmarks);
+      const faceCount = context.faceCount ?? 1;
       if (faceCount > 1) {
         issues.push({
           type: 'multiple_faces',
@@ -72,12 +138,12 @@ export class QualityValidator {
         });
       }
 
-      // Validate image quality
-      const imageQuality = await this.analyzeImageQuality(imageElement);
+      // Validate image quality (pixel metrics may already have been computed off the main thread)
+      const imageQuality = context.imageQuality ?? this.analyzeImageQuality(source);
       issues.push(...this.validateImageQuality(imageQuality));
 
       // Validate face quality
-      const faceQuality = this.analyzeFaceQuality(landmarks, imageElement);
+      const faceQuality = this.analyzeFaceQuality(landmarks, source, context);
       issues.push(...this.validateFaceQuality(faceQuality));
 
       // Calculate overall confidence
@@ -96,156 +162,29 @@ export class QualityValidator {
     }
   }
 
-  private async analyzeImageQuality(
-    imageElement: HTMLImageElement | HTMLCanvasElement
-  ): Promise<ImageQualityMetrics> {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (ctx === null) {
-      throw new Error('Could not get canvas context for image analysis');
-    }
-
-    // Draw image to canvas for pixel analysis
-    canvas.width = imageElement instanceof HTMLImageElement ? imageElement.naturalWidth : imageElement.width;
-    canvas.height = imageElement instanceof HTMLImageElement ? imageElement.naturalHeight : imageElement.height;
-    
-    if (imageElement instanceof HTMLImageElement) {
-      ctx.drawImage(imageElement, 0, 0);
-    } else {
-      ctx.drawImage(imageElement, 0, 0, canvas.width, canvas.height);
-    }
-
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const pixels = imageData.data;
-
-    // Calculate brightness (average luminance)
-    let totalBrightness = 0;
-    const pixelCount = pixels.length / 4;
-
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = pixels[i] ?? 0;
-      const g = pixels[i + 1] ?? 0;
-      const b = pixels[i + 2] ?? 0;
-      
-      // Calculate luminance using standard formula
-      const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-      totalBrightness += luminance;
-    }
-
-    const brightness = totalBrightness / pixelCount;
-
-    // Calculate contrast (standard deviation of luminance)
-    let varianceSum = 0;
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = pixels[i] ?? 0;
-      const g = pixels[i + 1] ?? 0;
-      const b = pixels[i + 2] ?? 0;
-      const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-      varianceSum += Math.pow(luminance - brightness, 2);
-    }
-    const contrast = Math.sqrt(varianceSum / pixelCount);
-
-    // Estimate blur using edge detection
-    const blur = this.estimateBlur(pixels, canvas.width, canvas.height);
-
-    // Calculate saturation
-    const saturation = this.calculateSaturation(pixels);
-
-    // Estimate noise
-    const noise = this.estimateNoise(pixels, canvas.width, canvas.height);
-
-    return {
-      brightness,
-      contrast,
-      blur,
-      saturation,
-      noise,
-    };
-  }
-
-  private estimateBlur(pixels: Uint8ClampedArray, width: number, height: number): number {
-    // Simple edge detection to estimate blur
-    let edgeSum = 0;
-    let edgeCount = 0;
-
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const index = (y * width + x) * 4;
-        const current = pixels[index] ?? 0;
-        const right = pixels[index + 4] ?? 0;
-        const down = pixels[(y + 1) * width * 4 + x * 4] ?? 0;
-        
-        const edgeStrength = Math.abs(current - right) + Math.abs(current - down);
-        edgeSum += edgeStrength;
-        edgeCount++;
-      }
-    }
-
-    const averageEdge = edgeSum / edgeCount;
-    // Normalize to 0-1 range (higher = more blur)
-    return Math.max(0, Math.min(1, 1 - averageEdge / 255));
-  }
-
-  private calculateSaturation(pixels: Uint8ClampedArray): number {
-    let totalSaturation = 0;
-    const pixelCount = pixels.length / 4;
-
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = pixels[i] ?? 0;
-      const g = pixels[i + 1] ?? 0;
-      const b = pixels[i + 2] ?? 0;
-      
-      const max = Math.max(r, g, b);
-      const min = Math.min(r, g, b);
-      const saturation = max === 0 ? 0 : (max - min) / max;
-      totalSaturation += saturation;
-    }
-
-    return (totalSaturation / pixelCount) * 255;
-  }
-
-  private estimateNoise(pixels: Uint8ClampedArray, width: number, height: number): number {
-    // Estimate noise using local variance
-    let totalVariance = 0;
-    let sampleCount = 0;
-
-    for (let y = 1; y < height - 1; y += 4) {
-      for (let x = 1; x < width - 1; x += 4) {
-        const neighbors: number[] = [];
-        
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            const index = ((y + dy) * width + (x + dx)) * 4;
-            const luminance = 0.299 * (pixels[index] ?? 0) + 
-                             0.587 * (pixels[index + 1] ?? 0) + 
-                             0.114 * (pixels[index + 2] ?? 0);
-            neighbors.push(luminance);
-          }
-        }
-
-        const mean = neighbors.reduce((sum, val) => sum + val, 0) / neighbors.length;
-        const variance = neighbors.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / neighbors.length;
-        totalVariance += variance;
-        sampleCount++;
-      }
-    }
-
-    return totalVariance / sampleCount;
+  private analyzeImageQuality(source: FrameSource): ImageQualityMetrics {
+    const { data, width, height } = readFramePixels(source);
+    return analyzePixelQuality(data, width, height);
   }
 
   private analyzeFaceQuality(
     landmarks: readonly NormalizedLandmark[],
-    imageElement: HTMLImageElement | HTMLCanvasElement
+    source: FrameSource,
+    context: QualityValidationContext
   ): FaceQualityMetrics {
-    const imageWidth = imageElement instanceof HTMLImageElement ? imageElement.naturalWidth : imageElement.width;
-    const imageHeight = imageElement instanceof HTMLImageElement ? imageElement.naturalHeight : imageElement.height;
+    const { width: imageWidth, height: imageHeight } = getFrameDimensions(source);
 
-    // Calculate face angles
-    const faceOutline = extractLandmarksByIndices(landmarks, LANDMARK_INDICES.FACE_OUTLINE);
-    const angles = this.calculateFaceAngles(faceOutline);
+    // Calculate face angles from the head pose (true rotation, independent of framing)
+    const pose = estimateHeadPose(landmarks, {
+      transformationMatrix: context.transformationMatrix ?? null,
+      aspectRatio: imageHeight > 0 ? imageWidth / imageHeight : 1,
+    });
+    const angles = pose !== null
+      ? { yaw: pose.yaw, pitch: pose.pitch, roll: pose.roll }
+      : { yaw: 0, pitch: 0, roll: 0 };
 
     // Calculate face size and position
-    const boundingBox = this.calculateFaceBoundingBox(landmarks);
+    const boundingBox = calculateFaceBoundingBox(landmarks);
     const _faceWidth = boundingBox.width * imageWidth;
     const _faceHeight = boundingBox.height * imageHeight;
     const faceArea = _faceWidth * _faceHeight;
@@ -281,66 +220,9 @@ export class QualityValidator {
     };
   }
 
-  private calculateFaceAngles(faceOutline: readonly NormalizedLandmark[]): { yaw: number; pitch: number; roll: number } {
-    // Simplified angle calculation using key face points
-    const leftPoint = faceOutline[0];
-    const rightPoint = faceOutline[16];
-    const topPoint = faceOutline[8];
-    const bottomPoint = faceOutline[24];
-
-    if (leftPoint === undefined || rightPoint === undefined || topPoint === undefined || bottomPoint === undefined) {
-      return { yaw: 0, pitch: 0, roll: 0 };
-    }
-
-    // Roll: rotation around z-axis (head tilt)
-    const roll = Math.atan2(rightPoint.y - leftPoint.y, rightPoint.x - leftPoint.x) * (180 / Math.PI);
-
-    // Yaw: rotation around y-axis (left/right turn)
-    // Calculate face dimensions for angle estimation
-    const centerX = (leftPoint.x + rightPoint.x) / 2;
-    const yaw = (centerX - 0.5) * 60; // Approximate yaw from face position
-
-    // Pitch: rotation around x-axis (up/down tilt)
-    const centerY = (topPoint.y + bottomPoint.y) / 2;
-    const pitch = (centerY - 0.5) * 40; // Approximate pitch from face position
-
-    return { yaw, pitch, roll };
-  }
-
-  private calculateFaceBoundingBox(landmarks: readonly NormalizedLandmark[]): {
-    left: number;
-    top: number;
-    width: number;
-    height: number;
-  } {
-    let minX = Number.POSITIVE_INFINITY;
-    let maxX = Number.NEGATIVE_INFINITY;
-    let minY = Number.POSITIVE_INFINITY;
-    let maxY = Number.NEGATIVE_INFINITY;
-
-    for (const landmark of landmarks) {
-      minX = Math.min(minX, landmark.x);
-      maxX = Math.max(maxX, landmark.x);
-      minY = Math.min(minY, landmark.y);
-      maxY = Math.max(maxY, landmark.y);
-    }
-
-    return {
-      left: minX,
-      top: minY,
-      width: maxX - minX,
-      height: maxY - minY,
-    };
-  }
-
   private calculateFaceCompleteness(landmarks: readonly NormalizedLandmark[]): number {
     // Check if key landmarks are within image bounds and have good visibility
-    const keyLandmarkIndices = [
-      ...LANDMARK_INDICES.LEFT_EYE.slice(0, 4),
-      ...LANDMARK_INDICES.RIGHT_EYE.slice(0, 4),
-      ...LANDMARK_INDICES.NOSE_TIP.slice(0, 4),
-      ...LANDMARK_INDICES.CHIN.slice(0, 4),
-    ];
+    const keyLandmarkIndices = COMPLETENESS_ANCHORS.map(anchor => LANDMARK_ANCHORS[anchor].index);
 
     let visibleCount = 0;
     for (const index of keyLandmarkIndices) {
@@ -396,12 +278,6 @@ export class QualityValidator {
     };
   }
 
-  private estimateFaceCount(landmarks: readonly NormalizedLandmark[]): number {
-    // For simplicity, assume one face if we have landmarks
-    // In a more sophisticated implementation, we'd analyze landmark clusters
-    return landmarks.length > 0 ? 1 : 0;
-  }
-
   private validateImageQuality(imageQuality: ImageQualityMetrics): QualityIssue[] {
     const issues: QualityIssue[] = [];
 
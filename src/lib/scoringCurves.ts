@@ -0,0 +1,65 @@
+/**
+ * Scoring curves
+ * Turn a measured value and its ideal range into a 0-1 deviation
+ */
+
+import type { ScoringCurve, ScoringCurveType } from '@/types/metrics';
+
+export const STEP_CURVE: ScoringCurve = { type: 'step' } as const;
+
+// Parameter defaults, in range widths past the range edge
+const DEFAULT_GAUSSIAN_SIGMA = 0.5;
+const DEFAULT_LOGISTIC_MIDPOINT = 0.5;
+const DEFAULT_LOGISTIC_STEEPNESS = 10;
+const DEFAULT_LINEAR_MARGIN = 1;
+
+/**
+ * Parameter names each curve type accepts
+ */
+export const SCORING_CURVE_PARAMETERS: Readonly<Record<ScoringCurveType, readonly string[]>> = {
+  step: [],
+  gaussian: ['sigma'],
+  logistic: ['midpoint', 'steepness'],
+  linear: ['margin'],
+} as const;
+
+/**
+ * Deviation of a value from its ideal range under the given curve, 0 inside the range and at most 1
+ */
+export function evaluateScoringCurve(
+  curve: ScoringCurve,
+  value: number,
+  idealRange: readonly [number, number]
+): number {
+  const [min, max] = idealRange;
+  if (value >= min && value <= max) {
+    return 0; // Perfect score within range
+  }
+
+  // A zero-width range still needs a unit to measure the distance in
+  const rangeSize = Math.max(max - min, Number.EPSILON);
+  const outside = (value < min ? min - value : value - max) / rangeSize;
+
+  switch (curve.type) {
+    case 'step': {
+      const center = (min + max) / 2;
+      return Math.min(Math.abs(value - center) / rangeSize, 1);
+    }
+    case 'gaussian': {
+      const sigma = curve.sigma ?? DEFAULT_GAUSSIAN_SIGMA;
+      return 1 - Math.exp(-(outside * outside) / (2 * sigma * sigma));
+    }
+    case 'logistic': {
+      const midpoint = curve.midpoint ?? DEFAULT_LOGISTIC_MIDPOINT;
+      const steepness = curve.steepness ?? DEFAULT_LOGISTIC_STEEPNESS;
+      const logistic = (x: number): number => 1 / (1 + Math.exp(-steepness * (x - midpoint)));
+      // Rescaled so the curve is exactly 0 at the edge and approaches 1 far out
+      const atEdge = logistic(0);
+      return Math.max(0, (logistic(outside) - atEdge) / (1 - atEdge));
+    }
+    case 'linear': {
+      const margin = curve.margin ?? DEFAULT_LINEAR_MARGIN;
+      return Math.min(outside / margin, 1);
+    }
+  }
+}
\ No newline at end of file
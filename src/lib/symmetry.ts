@@ -0,0 +1,241 @@
+/**
+ * Bilateral symmetry engine
+ * Fits the facial mirror plane, reflects paired mesh landmarks across it and renders mirrored composites
+ */
+
+import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { Vector3 } from '@/types/pose';
+import type {
+  FacialMidline,
+  LandmarkPair,
+  MirroredComposites,
+  PairAsymmetry,
+  RegionAsymmetry,
+  SymmetryAnalysis,
+  SymmetryOptions,
+  SymmetryRegion,
+} from '@/types/symmetry';
+import { LANDMARK_ANCHORS, LANDMARK_INDICES } from '@/lib/landmarkRegions';
+import { IRIS_INDICES } from '@/lib/iris';
+import { add, subtract, scale, dot, length, normalize } from '@/lib/vector';
+
+const FACE_MESH_LANDMARK_COUNT = 468;
+
+// Landmarks on the midline itself, forehead to chin
+const MIDLINE_INDICES = [
+  10, 151, 9, 8, 168, 6, 197, 195, 5, 4, 1, 19, 94, 2, 164, 0, 11, 12, 13, 14, 15, 16, 17, 18, 200, 199, 175, 152,
+] as const;
+
+// Alar, nostril and nasal sidewall pairs that have no region group of their own
+const NOSE_PAIRS: readonly LandmarkPair[] = [
+  [129, 358], [98, 327], [64, 294], [48, 278], [102, 331], [49, 279],
+  [219, 439], [115, 344], [220, 440], [45, 275], [240, 460], [235, 455],
+];
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Mirror pairs per region, derived from the region groups in LANDMARK_INDICES
+ */
+export const SYMMETRY_PAIRS: Readonly<Record<SymmetryRegion, readonly LandmarkPair[]>> = {
+  // LEFT_EYE runs outer corner first and RIGHT_EYE inner corner first, so index i mirrors 8 - i
+  eyes: [
+    ...LANDMARK_INDICES.LEFT_EYE.map((left, i): LandmarkPair =>
+      [left, LANDMARK_INDICES.RIGHT_EYE[(8 - i + 16) % 16] ?? left]),
+    // Iris centers, tops and bottoms; the side points are left out because
+    // which of them faces the nose is not consistent between the two irises
+    [IRIS_INDICES.LEFT[0], IRIS_INDICES.RIGHT[0]],
+    [IRIS_INDICES.LEFT[2], IRIS_INDICES.RIGHT[2]],
+    [IRIS_INDICES.LEFT[4], IRIS_INDICES.RIGHT[4]],
+  ],
+  brows: LANDMARK_INDICES.LEFT_EYEBROW.map((left, i): LandmarkPair =>
+    [left, LANDMARK_INDICES.RIGHT_EYEBROW[i] ?? left]),
+  nose: NOSE_PAIRS,
+  // Lip groups run commissure to commissure, so index i mirrors 10 - i
+  mouth: [
+    LANDMARK_INDICES.LIPS_UPPER_OUTER,
+    LANDMARK_INDICES.LIPS_LOWER_OUTER,
+    LANDMARK_INDICES.LIPS_UPPER_INNER,
+    LANDMARK_INDICES.LIPS_LOWER_INNER,
+  ].flatMap(group => mirrorWithinGroup(group, 5)),
+  // The outline runs clockwise from the forehead midline and passes the chin at index 18,
+  // so its first half is the image-right side
+  contour: mirrorWithinGroup(LANDMARK_INDICES.FACE_OUTLINE, 18)
+    .slice(1)
+    .map(([right, left]): LandmarkPair => [left, right]),
+};
+
+/**
+ * Fit the mirror plane and measure how far each paired landmark is from its reflected partner
+ */
+export function analyzeSymmetry(
+  landmarks: readonly NormalizedLandmark[],
+  options: SymmetryOptions = {}
+): SymmetryAnalysis | null {
+  if (landmarks.length < FACE_MESH_LANDMARK_COUNT) return null;
+
+  const aspectRatio = options.aspectRatio ?? 1;
+  const point = (index: number): Vector3 | null => {
+    const landmark = landmarks[index];
+    if (landmark === undefined) return null;
+    // Landmark x and z are scaled by image width and y by height; convert to image-height units
+    return [landmark.x * aspectRatio, landmark.y, (landmark.z ?? 0) * aspectRatio];
+  };
+
+  // Iris pairs are skipped on meshes without iris refinement
+  const resolvedPairs = (Object.keys(SYMMETRY_PAIRS) as SymmetryRegion[]).flatMap(region =>
+    SYMMETRY_PAIRS[region].flatMap(pair => {
+      const left = point(pair[0]);
+      const right = point(pair[1]);
+      return left !== null && right !== null ? [{ region, pair, left, right }] : [];
+    })
+  );
+
+  const cheekLeft = point(LANDMARK_ANCHORS.LEFT_FACE_EDGE.index);
+  const cheekRight = point(LANDMARK_ANCHORS.RIGHT_FACE_EDGE.index);
+  if (cheekLeft === null || cheekRight === null) return null;
+  const faceWidth = length(subtract(cheekRight, cheekLeft));
+
+  // The plane normal follows the mean left-to-right pair direction,
+  // and the plane passes through the mean of the pair midpoints
+  const normal = normalize(resolvedPairs.reduce<Vector3>(
+    (sum, { left, right }) => add(sum, subtract(right, left)),
+    [0, 0, 0]
+  ));
+  if (faceWidth === 0 || length(normal) === 0) return null;
+
+  const center = scale(
+    resolvedPairs.reduce<Vector3>((sum, { left, right }) => add(sum, scale(add(left, right), 0.5)), [0, 0, 0]),
+    1 / resolvedPairs.length
+  );
+  const offset = dot(normal, center);
+  const reflect = (p: Vector3): Vector3 => subtract(p, scale(normal, 2 * (dot(normal, p) - offset)));
+
+  const pairAsymmetries = resolvedPairs.map(({ region, pair, left, right }) => {
+    const vector = scale(subtract(reflect(right), left), 1 / faceWidth);
+    return { region, asymmetry: { pair, vector, magnitude: length(vector) } };
+  });
+
+  const regions = Object.fromEntries(
+    (Object.keys(SYMMETRY_PAIRS) as SymmetryRegion[]).map(region => [
+      region,
+      summarizeRegion(
+        region,
+        pairAsymmetries.filter(entry => entry.region === region).map(entry => entry.asymmetry)
+      ),
+    ])
+  ) as Record<SymmetryRegion, RegionAsymmetry>;
+
+  const midlinePoints = MIDLINE_INDICES.map(point).filter((p): p is Vector3 => p !== null);
+  const midlineDeviation = midlinePoints.length === 0
+    ? 0
+    : midlinePoints.reduce((sum, p) => sum + Math.abs(dot(normal, p) - offset), 0) / midlinePoints.length / faceWidth;
+
+  return {
+    midline: createMidline(normal, offset, center, aspectRatio),
+    regions,
+    overallAsymmetry: mean(pairAsymmetries.map(entry => entry.asymmetry.magnitude)),
+    midlineDeviation,
+  };
+}
+
+/**
+ * Build left-left and right-right composites by reflecting each image half across the midline
+ */
+export function renderMirroredComposites(source: HTMLCanvasElement, midline: FacialMidline): MirroredComposites {
+  return {
+    leftLeft: renderComposite(source, midline, -1),
+    rightRight: renderComposite(source, midline, 1),
+  };
+}
+
+function renderComposite(source: HTMLCanvasElement, midline: FacialMidline, keepSide: 1 | -1): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+
+  const ctx = canvas.getContext('2d');
+  if (ctx === null) return canvas;
+
+  const px = midline.point.x * source.width;
+  const py = midline.point.y * source.height;
+  const { x: ux, y: uy } = midline.direction;
+  // In-image normal toward the image right
+  const nx = uy;
+  const ny = -ux;
+  const reach = source.width + source.height;
+
+  const clipHalf = (side: 1 | -1): void => {
+    ctx.beginPath();
+    ctx.moveTo(px - ux * reach, py - uy * reach);
+    ctx.lineTo(px + ux * reach, py + uy * reach);
+    ctx.lineTo(px + ux * reach + side * nx * reach, py + uy * reach + side * ny * reach);
+    ctx.lineTo(px - ux * reach + side * nx * reach, py - uy * reach + side * ny * reach);
+    ctx.closePath();
+    ctx.clip();
+  };
+
+  // Kept half as-is
+  ctx.save();
+  clipHalf(keepSide);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+
+  // Opposite half: the kept half reflected across the midline (R = 2uuᵀ - I about the midline point)
+  const a = 2 * ux * ux - 1;
+  const b = 2 * ux * uy;
+  const d = 2 * uy * uy - 1;
+  ctx.save();
+  clipHalf(keepSide === 1 ? -1 : 1);
+  ctx.setTransform(a, b, b, d, px - (a * px + b * py), py - (b * px + d * py));
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+
+  return canvas;
+}
+
+function createMidline(normal: Vector3, offset: number, center: Vector3, aspectRatio: number): FacialMidline {
+  // In-image direction perpendicular to the normal, oriented forehead to chin (image y down)
+  const [nx, ny] = normal;
+  const planar = Math.hypot(nx, ny);
+  const direction = planar === 0
+    ? { x: 0, y: 1 }
+    : nx >= 0
+      ? { x: -ny / planar, y: nx / planar }
+      : { x: ny / planar, y: -nx / planar };
+
+  return {
+    normal,
+    offset,
+    point: { x: center[0] / aspectRatio, y: center[1] },
+    direction,
+    roll: Math.atan2(direction.x, direction.y) * RAD_TO_DEG,
+  };
+}
+
+function summarizeRegion(region: SymmetryRegion, pairs: readonly PairAsymmetry[]): RegionAsymmetry {
+  const count = Math.max(pairs.length, 1);
+  return {
+    region,
+    vector: scale(pairs.reduce<Vector3>((sum, entry) => add(sum, entry.vector), [0, 0, 0]), 1 / count),
+    magnitude: mean(pairs.map(entry => entry.magnitude)),
+    maxMagnitude: pairs.reduce((max, entry) => Math.max(max, entry.magnitude), 0),
+    pairs,
+  };
+}
+
+function mirrorWithinGroup(group: readonly number[], centerIndex: number): LandmarkPair[] {
+  const pairs: LandmarkPair[] = [];
+  for (let i = 0; i < centerIndex; i++) {
+    const left = group[i];
+    const right = group[(2 * centerIndex - i) % group.length];
+    if (left !== undefined && right !== undefined) {
+      pairs.push([left, right]);
+    }
+  }
+  return pairs;
+}
+
+function mean(values: readonly number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
\ No newline at end of file
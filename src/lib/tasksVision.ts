@@ -0,0 +1,160 @@
+/**
+ * Typed adapter for @mediapipe/tasks-vision
+ * Maps the package's Face Landmarker onto the interfaces in types/mediapipe.ts and checks result shapes at runtime
+ */
+
+import type { FaceLandmarker } from '@mediapipe/tasks-vision';
+import type {
+  Category,
+  Classifications,
+  FaceLandmarkerBinding,
+  FaceLandmarkerResult,
+  Matrix,
+  MediaPipeConfig,
+  MediaPipeError,
+  NormalizedLandmark,
+  TasksVisionBindings,
+} from '@/types/mediapipe';
+
+/**
+ * Load the package lazily so the WASM runtime is only fetched when detection is needed
+ */
+export async function loadTasksVision(): Promise<TasksVisionBindings> {
+  const { FaceLandmarker, FilesetResolver } = await import('@mediapipe/tasks-vision');
+
+  return {
+    resolveWasmFileset: basePath => FilesetResolver.forVisionTasks(basePath),
+    createFaceLandmarker: async (wasmFileset, config) =>
+      bindFaceLandmarker(await FaceLandmarker.createFromOptions(wasmFileset, toTasksVisionOptions(config))),
+  };
+}
+
+/**
+ * Wrap a created Face Landmarker so every result passes the shape checks
+ */
+export function bindFaceLandmarker(landmarker: FaceLandmarker): FaceLandmarkerBinding {
+  return {
+    detect: image => parseFaceLandmarkerResult(landmarker.detect(image)),
+    detectForVideo: (videoElement, timestampMs) =>
+      parseFaceLandmarkerResult(landmarker.detectForVideo(videoElement, timestampMs)),
+    setRunningMode: runningMode => landmarker.setOptions({ runningMode }),
+    close: () => landmarker.close(),
+  };
+}
+
+/**
+ * Check that a detection result has the shape the rest of the app relies on
+ */
+export function parseFaceLandmarkerResult(value: unknown): FaceLandmarkerResult {
+  const record = asRecord(value, 'result');
+  const faceLandmarks = readArray(record['faceLandmarks'], 'faceLandmarks');
+  const faceBlendshapes = record['faceBlendshapes'];
+  const matrixes = record['facialTransformationMatrixes'];
+
+  return {
+    faceLandmarks: faceLandmarks.map((face, i) =>
+      readArray(face, `faceLandmarks[${i}]`).map((point, j) => checkLandmark(point, `faceLandmarks[${i}][${j}]`))
+    ),
+    ...(faceBlendshapes !== undefined && {
+      faceBlendshapes: readArray(faceBlendshapes, 'faceBlendshapes').map((entry, i) =>
+        checkClassifications(entry, `faceBlendshapes[${i}]`)
+      ),
+    }),
+    ...(matrixes !== undefined && {
+      facialTransformationMatrixes: readArray(matrixes, 'facialTransformationMatrixes').map((entry, i) =>
+        checkMatrix(entry, `facialTransformationMatrixes[${i}]`)
+      ),
+    }),
+  };
+}
+
+function toTasksVisionOptions(config: MediaPipeConfig): Parameters<typeof FaceLandmarker.createFromOptions>[1] {
+  return {
+    baseOptions: { ...config.baseOptions },
+    runningMode: config.runningMode,
+    numFaces: config.numFaces,
+    minFaceDetectionConfidence: config.minFaceDetectionConfidence,
+    minFacePresenceConfidence: config.minFacePresenceConfidence,
+    minTrackingConfidence: config.minTrackingConfidence,
+    outputFaceBlendshapes: config.outputFaceBlendshapes,
+    outputFacialTransformationMatrixes: config.outputFacialTransformationMatrixes,
+  };
+}
+
+// Points are checked in place rather than copied; a 478-point mesh arrives every video frame
+function checkLandmark(value: unknown, path: string): NormalizedLandmark {
+  const record = asRecord(value, path);
+  readNumber(record['x'], `${path}.x`);
+  readNumber(record['y'], `${path}.y`);
+  for (const key of ['z', 'visibility', 'presence']) {
+    if (record[key] !== undefined) readNumber(record[key], `${path}.${key}`);
+  }
+  return record as unknown as NormalizedLandmark;
+}
+
+function checkClassifications(value: unknown, path: string): Classifications {
+  const record = asRecord(value, path);
+  readNumber(record['headIndex'], `${path}.headIndex`);
+  readString(record['headName'], `${path}.headName`);
+  readArray(record['categories'], `${path}.categories`).forEach((entry, i) =>
+    checkCategory(entry, `${path}.categories[${i}]`)
+  );
+  return record as unknown as Classifications;
+}
+
+function checkCategory(value: unknown, path: string): Category {
+  const record = asRecord(value, path);
+  readNumber(record['index'], `${path}.index`);
+  readNumber(record['score'], `${path}.score`);
+  readString(record['categoryName'], `${path}.categoryName`);
+  readString(record['displayName'], `${path}.displayName`);
+  return record as unknown as Category;
+}
+
+function checkMatrix(value: unknown, path: string): Matrix {
+  const record = asRecord(value, path);
+  const rows = readNumber(record['rows'], `${path}.rows`);
+  const columns = readNumber(record['columns'], `${path}.columns`);
+  const data = readArray(record['data'], `${path}.data`);
+  if (data.length !== rows * columns) {
+    throw createResultError(`${path}.data must contain rows × columns values`);
+  }
+  data.forEach((entry, i) => readNumber(entry, `${path}.data[${i}]`));
+  return record as unknown as Matrix;
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw createResultError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function readArray(value: unknown, path: string): readonly unknown[] {
+  if (!Array.isArray(value)) {
+    throw createResultError(`${path} must be an array`);
+  }
+  return value as readonly unknown[];
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw createResultError(`${path} must be a finite number`);
+  }
+  return value;
+}
+
+function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw createResultError(`${path} must be a string`);
+  }
+  return value;
+}
+
+function createResultError(message: string): MediaPipeError {
+  return {
+    name: 'MediaPipeResultError',
+    message: `Unexpected Face Landmarker result: ${message}`,
+    code: 'INVALID_RESULT',
+  };
+}
\ No newline at end of file
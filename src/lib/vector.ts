@@ -0,0 +1,38 @@
+/**
+ * 3D vector helpers shared by pose estimation and alignment code
+ */
+
+import type { Vector3 } from '@/types/pose';
+
+export function add(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function subtract(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function scale(v: Vector3, factor: number): Vector3 {
+  return [v[0] * factor, v[1] * factor, v[2] * factor];
+}
+
+export function dot(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function cross(a: Vector3, b: Vector3): Vector3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+export function length(v: Vector3): number {
+  return Math.sqrt(dot(v, v));
+}
+
+export function normalize(v: Vector3): Vector3 {
+  const len = length(v);
+  return len === 0 ? [0, 0, 0] : scale(v, 1 / len);
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Multi-frame feature aggregation type definitions
+ */
+
+import type { FacialFeatures } from '@/types/metrics';
+
+export interface AggregationOptions {
+  /** Modified z-score above which a single metric counts as an outlier */
+  readonly outlierThreshold?: number;
+  /** Share of outlier metrics above which a whole frame is rejected */
+  readonly maxOutlierShare?: number;
+}
+
+/**
+ * Spread of one scalar metric over the frames that were kept
+ */
+export interface MetricSpread {
+  readonly median: number;
+  /** Median absolute deviation from the median */
+  readonly mad: number;
+  readonly variance: number;
+}
+
+export interface AggregatedFeatures {
+  /** Per-metric medians over the kept frames */
+  readonly features: FacialFeatures;
+  readonly frameCount: number;
+  /** Indices of the frames rejected as outliers */
+  readonly rejectedFrames: readonly number[];
+  /** Index of the kept frame closest to the medians, for images and raw landmarks */
+  readonly representativeFrame: number;
+  /** Keyed by dotted metric path, e.g. "nose.width" or "proportions.thirds.0" */
+  readonly spread: Readonly<Record<string, MetricSpread>>;
+}
+
+export interface AggregationError extends Error {
+  readonly code: 'INSUFFICIENT_FRAMES';
+  readonly details?: unknown;
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * Physical-unit calibration type definitions
+ */
+
+export interface ReferencePoint {
+  readonly x: number;
+  readonly y: number;
+}
+
+/**
+ * Where the millimeter scale comes from
+ * - iris: population-average iris diameter, needs the 478-point mesh
+ * - ipd: the subject's known inter-pupillary distance
+ * - reference: an object of known length marked in the image, e.g. an ID-1 card edge
+ */
+export type CalibrationSource =
+  | { readonly type: 'iris' }
+  | { readonly type: 'ipd'; readonly millimeters: number }
+  | {
+      readonly type: 'reference';
+      readonly start: ReferencePoint;
+      readonly end: ReferencePoint;
+      readonly millimeters: number;
+    };
+
+export type CalibrationSourceType = CalibrationSource['type'];
+
+export interface Calibration {
+  readonly source: CalibrationSourceType;
+  /** Millimeters per image-height unit, the unit FacialFeatures lengths are measured in */
+  readonly millimetersPerUnit: number;
+  /** One standard deviation of the scale, as a fraction of millimetersPerUnit */
+  readonly relativeUncertainty: number;
+}
+
+/**
+ * A length in image-height units, with millimeters when a calibration is available
+ */
+export interface Measurement {
+  readonly normalized: number;
+  readonly millimeters: number | null;
+  readonly uncertaintyMm: number | null;
+}
+
+export interface CalibratedMeasurements {
+  readonly calibration: Calibration | null;
+  readonly eyes: {
+    readonly leftWidth: Measurement;
+    readonly leftHeight: Measurement;
+    readonly rightWidth: Measurement;
+    readonly rightHeight: Measurement;
+    readonly interPupillaryDistance: Measurement;
+    readonly irisDiameter: Measurement | null;
+  };
+  readonly nose: {
+    readonly width: Measurement;
+    readonly length: Measurement;
+    readonly bridgeWidth: Measurement;
+  };
+  readonly jaw: {
+    readonly width: Measurement;
+  };
+  readonly mouth: {
+    readonly width: Measurement;
+    readonly upperLipHeight: Measurement;
+    readonly lowerLipHeight: Measurement;
+  };
+}
+
+export interface CalibrationError extends Error {
+  readonly code: 'INVALID_REFERENCE';
+  readonly details?: unknown;
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Face detector abstraction and landmark fixture type definitions
+ */
+
+import type {
+  CancellationOptions,
+  Category,
+  DetectedFace,
+  FaceSelectionPolicy,
+  MediaPipeCapabilities,
+  Matrix,
+  NormalizedLandmark,
+} from '@/types/mediapipe';
+import type { FrameSource } from '@/types/frame';
+
+/**
+ * Anything that can turn an image or video frame into detected faces
+ */
+export interface FaceDetector {
+  initialize(options?: CancellationOptions): Promise<void>;
+  detectFaces(input: FrameSource, options?: CancellationOptions): Promise<readonly DetectedFace[]>;
+  detectFacesForVideo(
+    videoElement: HTMLVideoElement,
+    timestampMs: number,
+    options?: CancellationOptions
+  ): Promise<readonly DetectedFace[]>;
+  detectLandmarks(
+    input: FrameSource,
+    policy?: FaceSelectionPolicy,
+    options?: CancellationOptions
+  ): Promise<readonly NormalizedLandmark[]>;
+  getCapabilities(): MediaPipeCapabilities | null;
+  dispose(): void;
+}
+
+/**
+ * Injected collaborators for analysis classes
+ */
+export interface DetectorDependencies {
+  readonly detector?: FaceDetector;
+}
+
+export interface LandmarkFixtureFace {
+  readonly landmarks: readonly NormalizedLandmark[];
+  readonly blendshapes?: readonly Category[];
+  readonly transformationMatrix?: Matrix | null;
+}
+
+/**
+ * One recorded frame: every face the detector returned for a single image
+ */
+export interface LandmarkFixture {
+  readonly name: string;
+  readonly imageWidth: number;
+  readonly imageHeight: number;
+  readonly faces: readonly LandmarkFixtureFace[];
+}
+
+export interface FixtureFaceDetectorOptions {
+  /** Restart from the first fixture after the last one instead of repeating it */
+  readonly loop?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Frame source type definitions
+ */
+
+/**
+ * Anything the pipeline can read a frame from. Matches the inputs MediaPipe accepts;
+ * every member except the HTML elements also exists in workers.
+ */
+export type FrameSource =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | HTMLVideoElement
+  | ImageBitmap
+  | OffscreenCanvas
+  | VideoFrame
+  | ImageData;
+
+export interface FrameDimensions {
+  readonly width: number;
+  readonly height: number;
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+/**
+ * Face mesh region and anchor type definitions
+ */
+
+type IndexRange<N extends number, Acc extends number[] = []> =
+  Acc['length'] extends N ? Acc[number] : IndexRange<N, [...Acc, Acc['length']]>;
+
+/**
+ * Valid index into the refined 478-point mesh (468 face points + 10 iris points)
+ */
+export type MeshIndex = IndexRange<478>;
+
+/**
+ * Named landmark groups; LEFT and RIGHT are image sides, so LEFT_EYE is the subject's right eye
+ */
+export type LandmarkRegion =
+  | 'LEFT_EYE'
+  | 'RIGHT_EYE'
+  | 'LEFT_IRIS'
+  | 'RIGHT_IRIS'
+  | 'LEFT_EYEBROW'
+  | 'RIGHT_EYEBROW'
+  | 'FOREHEAD'
+  | 'NOSE_BRIDGE'
+  | 'NOSE_TIP'
+  | 'NOSTRIL_LEFT'
+  | 'NOSTRIL_RIGHT'
+  | 'JAW_LEFT'
+  | 'JAW_RIGHT'
+  | 'CHIN'
+  | 'LIPS_UPPER_OUTER'
+  | 'LIPS_LOWER_OUTER'
+  | 'LIPS_UPPER_INNER'
+  | 'LIPS_LOWER_INNER'
+  | 'FACE_OUTLINE';
+
+/**
+ * Single landmarks the metrics measure from, named anatomically
+ */
+export type LandmarkAnchorName =
+  | 'LEFT_EYE_OUTER_CORNER'
+  | 'LEFT_EYE_INNER_CORNER'
+  | 'LEFT_EYE_UPPER_LID'
+  | 'LEFT_EYE_LOWER_LID'
+  | 'RIGHT_EYE_INNER_CORNER'
+  | 'RIGHT_EYE_OUTER_CORNER'
+  | 'RIGHT_EYE_UPPER_LID'
+  | 'RIGHT_EYE_LOWER_LID'
+  | 'LEFT_BROW_HEAD'
+  | 'LEFT_BROW_TAIL'
+  | 'LEFT_BROW_LOWER_MIDPOINT'
+  | 'RIGHT_BROW_HEAD'
+  | 'RIGHT_BROW_TAIL'
+  | 'RIGHT_BROW_LOWER_MIDPOINT'
+  | 'FOREHEAD_TOP'
+  | 'GLABELLA'
+  | 'NASION'
+  | 'LEFT_NOSE_BRIDGE'
+  | 'RIGHT_NOSE_BRIDGE'
+  | 'NOSE_TIP'
+  | 'SUBNASALE'
+  | 'LEFT_ALA'
+  | 'RIGHT_ALA'
+  | 'LEFT_NOSTRIL_INNER'
+  | 'RIGHT_NOSTRIL_INNER'
+  | 'LEFT_GONION'
+  | 'RIGHT_GONION'
+  | 'LEFT_CHIN'
+  | 'RIGHT_CHIN'
+  | 'POGONION'
+  | 'MENTON'
+  | 'LEFT_COMMISSURE'
+  | 'RIGHT_COMMISSURE'
+  | 'LEFT_CUPIDS_BOW_PEAK'
+  | 'RIGHT_CUPIDS_BOW_PEAK'
+  | 'UPPER_LIP_TOP'
+  | 'UPPER_LIP_BOTTOM'
+  | 'LOWER_LIP_TOP'
+  | 'LOWER_LIP_BOTTOM'
+  | 'LEFT_FACE_EDGE'
+  | 'RIGHT_FACE_EDGE';
+
+export interface LandmarkAnchor {
+  /** Region the anchor belongs to; the validator checks the index is listed there */
+  readonly region: LandmarkRegion;
+  readonly index: MeshIndex;
+}
+
+export interface LandmarkRegionIssue {
+  readonly type: LandmarkRegionIssueType;
+  readonly region: string;
+  readonly index: number;
+  /** Second region listing the index, for cross-region issues */
+  readonly otherRegion?: string;
+  /** Anchor whose index is missing from its region */
+  readonly anchor?: string;
+}
+
+export type LandmarkRegionIssueType =
+  | 'duplicate_index'
+  | 'out_of_range'
+  | 'cross_region'
+  | 'anchor_outside_region';
\ No newline at end of file
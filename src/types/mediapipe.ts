@@ -3,6 +3,8 @@
  * Based on MediaPipe Face Landmarker v0.10.3
  */
 
+import type { FrameSource } from '@/types/frame';
+
 export interface FaceLandmarkerResult {
   readonly faceLandmarks: readonly NormalizedLandmark[][];
   readonly faceBlendshapes?: readonly Classifications[];
@@ -38,10 +40,11 @@ export interface Matrix {
 
 export interface MediaPipeConfig {
   readonly baseOptions: {
-    readonly modelAssetPath: string;
-    readonly delegate?: 'CPU' | 'GPU';
+    readonly modelAssetPath?: string;
+    readonly modelAssetBuffer?: Uint8Array;
+    readonly delegate?: Delegate;
   };
-  readonly runningMode: 'IMAGE' | 'VIDEO';
+  readonly runningMode: RunningMode;
   readonly numFaces: number;
   readonly minFaceDetectionConfidence: number;
   readonly minFacePresenceConfidence: number;
@@ -54,9 +57,175 @@ export interface FaceLandmarkerOptions {
   readonly wasmLoaderScript?: string;
   readonly wasmBinaryFile?: string;
   readonly modelAssetPath?: string;
+  readonly numFaces?: number;
+  readonly selectionPolicy?: FaceSelectionPolicy;
+  readonly runningMode?: RunningMode;
+  readonly outputFaceBlendshapes?: boolean;
+  readonly outputFacialTransformationMatrixes?: boolean;
+  readonly assetBaseUrl?: string;
+  readonly allowRemoteFallback?: boolean;
+  readonly verifyAssetIntegrity?: boolean;
+  readonly delegate?: DelegatePreference;
+  /** Deadline for loading assets and building the landmarker, in milliseconds */
+  readonly initTimeoutMs?: number;
+  /** Deadline for a single detection in a still image or video frame, in milliseconds */
+  readonly detectionTimeoutMs?: number;
+  readonly assetRetry?: RetryPolicy;
+}
+
+/**
+ * Exponential backoff for transient asset request failures
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  readonly maxAttempts?: number;
+  readonly initialDelayMs?: number;
+  readonly maxDelayMs?: number;
+  readonly backoffFactor?: number;
+}
+
+/**
+ * Per-call cancellation; timeoutMs overrides the deadline from the landmarker options
+ */
+export interface CancellationOptions {
+  readonly signal?: AbortSignal;
+  readonly timeoutMs?: number;
+}
+
+export type Delegate = 'CPU' | 'GPU';
+
+/**
+ * 'auto' tries GPU when WebGL2 is available and falls back to CPU
+ */
+export type DelegatePreference = Delegate | 'auto';
+
+export interface DelegateAttempt {
+  readonly delegate: Delegate;
+  readonly succeeded: boolean;
+  readonly durationMs: number;
+  readonly error?: string;
 }
 
+export interface MediaPipeCapabilities {
+  readonly delegate: Delegate;
+  readonly webgl2Available: boolean;
+  readonly attempts: readonly DelegateAttempt[];
+  readonly initDurationMs: number;
+  readonly assetSource: MediaPipeAssetSource;
+}
+
+export interface WasmFileset {
+  readonly wasmLoaderPath: string;
+  readonly wasmBinaryPath: string;
+}
+
+export interface MediaPipeAssetManifest {
+  readonly version: string;
+  readonly files: Readonly<Record<string, MediaPipeAssetManifestEntry>>;
+}
+
+export interface MediaPipeAssetManifestEntry {
+  readonly sha256: string;
+  readonly size: number;
+}
+
+export type MediaPipeAssetSource = 'local' | 'remote';
+
+export type RunningMode = 'IMAGE' | 'VIDEO';
+
+export interface FaceBoundingBox {
+  readonly left: number;
+  readonly top: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface DetectedFace {
+  readonly index: number;
+  readonly landmarks: readonly NormalizedLandmark[];
+  readonly boundingBox: FaceBoundingBox;
+  readonly confidence: number;
+  readonly blendshapes: readonly Category[];
+  readonly transformationMatrix: Matrix | null;
+  readonly irises: FaceIrises | null;
+}
+
+/**
+ * Iris from the refined 478-point mesh: center plus four contour points
+ */
+export interface IrisLandmarks {
+  readonly center: NormalizedLandmark;
+  readonly contour: readonly NormalizedLandmark[];
+  /** Side-to-side span of the contour, in the units of the landmarks it was read from */
+  readonly diameter: number;
+}
+
+/**
+ * Irises named by image side, matching LANDMARK_INDICES.LEFT_EYE / RIGHT_EYE
+ */
+export interface FaceIrises {
+  readonly left: IrisLandmarks;
+  readonly right: IrisLandmarks;
+}
+
+export interface LandmarkFrame {
+  readonly timestamp: number;
+  /** Media time (video.currentTime) of the video frame the faces were detected in */
+  readonly videoTime: number;
+  /** Every detected face; the primary face appears here in its smoothed form */
+  readonly faces: readonly DetectedFace[];
+  /** Primary face with temporally smoothed landmarks when the stream smooths */
+  readonly primaryFace: DetectedFace | null;
+  /** Primary face exactly as detected in this frame */
+  readonly rawPrimaryFace: DetectedFace | null;
+}
+
+/**
+ * Typed handle on a created tasks-vision Face Landmarker; results are shape-checked before they are returned
+ */
+export interface FaceLandmarkerBinding {
+  detect(image: FrameSource): FaceLandmarkerResult;
+  detectForVideo(videoElement: HTMLVideoElement, timestampMs: number): FaceLandmarkerResult;
+  setRunningMode(mode: RunningMode): Promise<void>;
+  close(): void;
+}
+
+/**
+ * The parts of @mediapipe/tasks-vision the landmarker uses
+ */
+export interface TasksVisionBindings {
+  resolveWasmFileset(basePath: string): Promise<WasmFileset>;
+  createFaceLandmarker(wasmFileset: WasmFileset, config: MediaPipeConfig): Promise<FaceLandmarkerBinding>;
+}
+
+/**
+ * Injected collaborators for the landmarker, e.g. a worker-specific package loader
+ */
+export interface MediaPipeDependencies {
+  readonly loadTasksVision?: () => Promise<TasksVisionBindings>;
+}
+
+export type FaceSelectionPolicy =
+  | { readonly type: 'largest' }
+  | { readonly type: 'most_centered' }
+  | { readonly type: 'point'; readonly x: number; readonly y: number };
+
 export interface MediaPipeError extends Error {
-  readonly code: string;
+  readonly code: MediaPipeErrorCode;
   readonly details?: unknown;
-}
\ No newline at end of file
+}
+
+/**
+ * Codes raised by the landmarker, its asset loader and the fixture detector
+ */
+export type MediaPipeErrorCode =
+  | 'INIT_FAILED'
+  | 'DETECTION_FAILED'
+  | 'INVALID_RESULT'
+  | 'ASSET_UNAVAILABLE'
+  | 'ASSET_INTEGRITY_FAILED'
+  | 'NETWORK_ERROR'
+  | 'UNSUPPORTED_DEVICE'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'INVALID_FIXTURE';
\ No newline at end of file
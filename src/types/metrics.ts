@@ -2,26 +2,92 @@
  * Facial metrics and scoring type definitions
  */
 
-import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { DetectedFace, NormalizedLandmark } from '@/types/mediapipe';
+import type { PoseCorrection } from '@/types/pose';
+import type { ProfileReference } from '@/types/profile';
 
+/**
+ * Lengths are in image-height units: landmark x and z are rescaled by the frame aspect ratio before measuring
+ */
 export interface FacialFeatures {
   readonly eyes: EyeMetrics;
+  readonly brows: BrowMetrics;
   readonly nose: NoseMetrics;
   readonly jaw: JawMetrics;
+  readonly mouth: MouthMetrics;
+  readonly proportions: ProportionMetrics;
+  /** Rotation removed before measuring; every metric is taken from the frontal-aligned mesh */
+  readonly alignment: PoseCorrection;
+  /** Share of each feature's landmarks inside the frame, 0-1; MediaPipe extrapolates the rest */
+  readonly frameCoverage: FrameCoverage;
 }
 
+export type FrameCoverage = Readonly<Record<ScoredFeature, number>>;
+
 export interface EyeMetrics {
   readonly leftEye: SingleEyeMetrics;
   readonly rightEye: SingleEyeMetrics;
   readonly interPupillaryDistance: number;
+  readonly interPupillaryDistanceSource: PupilSource;
+  readonly irisDiameter: number | null;
   readonly eyeSymmetry: number;
 }
 
+/**
+ * 'iris' uses refined iris centers; 'eyelid_centroid' approximates them on 468-point meshes
+ */
+export type PupilSource = 'iris' | 'eyelid_centroid';
+
 export interface SingleEyeMetrics {
   readonly width: number;
   readonly height: number;
   readonly aspectRatio: number;
   readonly tilt: number;
+  readonly iris: IrisMetrics | null;
+  readonly landmarks: readonly NormalizedLandmark[];
+}
+
+export interface IrisMetrics {
+  readonly center: NormalizedLandmark;
+  readonly diameter: number;
+  /**
+   * Pupil position inside the eye aperture: horizontal runs 0-1 between the eye corners
+   * (from the first corner in the eye's index list), vertical 0-1 from upper to lower lid.
+   * Values outside 0-1 mean the center lies beyond a corner or lid.
+   */
+  readonly pupilPosition: {
+    readonly horizontal: number;
+    readonly vertical: number;
+  };
+}
+
+export interface BrowMetrics {
+  readonly leftBrow: SingleBrowMetrics;
+  readonly rightBrow: SingleBrowMetrics;
+  /** Left to right brow–eye distance ratio */
+  readonly symmetry: number;
+}
+
+/**
+ * One eyebrow, paired with the eye on the same image side
+ */
+export interface SingleBrowMetrics {
+  /** Head (medial) to tail (lateral) along the upper edge */
+  readonly length: number;
+  /** Highest point of the upper edge above the head–tail chord */
+  readonly archHeight: number;
+  /** Arch height to length */
+  readonly archRatio: number;
+  /** Arch peak position along the chord, 0 at the head and 1 at the tail */
+  readonly peakPosition: number;
+  /** Arch peak distance lateral of the iris center (eye center without iris points), in eye widths */
+  readonly peakOffset: number;
+  /** Chord angle in degrees, positive when the tail sits higher than the head */
+  readonly tilt: number;
+  /** Lower brow edge to upper eyelid at the brow midpoint */
+  readonly browEyeDistance: number;
+  /** Brow–eye distance to eye width */
+  readonly browEyeRatio: number;
   readonly landmarks: readonly NormalizedLandmark[];
 }
 
@@ -43,29 +109,176 @@ export interface JawMetrics {
   readonly landmarks: readonly NormalizedLandmark[];
 }
 
+export interface MouthMetrics {
+  /** Commissure to commissure */
+  readonly width: number;
+  readonly upperLipHeight: number;
+  readonly lowerLipHeight: number;
+  /** Upper lip height to lower lip height */
+  readonly lipRatio: number;
+  /** Mouth width to inter-pupillary distance */
+  readonly widthToIpdRatio: number;
+  /** Image-left to image-right Cupid's bow peak distance from the philtrum dip */
+  readonly cupidsBowSymmetry: number;
+  /** Commissure line angle in degrees */
+  readonly commissureTilt: number;
+  readonly landmarks: readonly NormalizedLandmark[];
+}
+
+/**
+ * Classic facial proportions, measured along the face's own vertical and horizontal axes
+ */
+export interface ProportionMetrics {
+  /** Upper, middle and lower thirds as fractions of face height (trichion–glabella–subnasale–menton) */
+  readonly thirds: readonly [number, number, number];
+  /** Five segments between the face edges and eye corners as fractions of face width, image-left first */
+  readonly fifths: readonly [number, number, number, number, number];
+  /** Largest relative departure of any third from 1/3 */
+  readonly thirdsDeviation: number;
+  /** Largest relative departure of any fifth from 1/5 */
+  readonly fifthsDeviation: number;
+  /** Face height (trichion to menton) to width, both in image-height units */
+  readonly faceRatio: number;
+  /** Hairline point on the midline, extrapolated beyond the top of the mesh */
+  readonly trichion: NormalizedLandmark;
+  readonly landmarks: readonly NormalizedLandmark[];
+}
+
 export interface QualityScores {
   readonly eyes: number;
+  readonly brows: number;
   readonly nose: number;
   readonly jaw: number;
+  readonly mouth: number;
+  readonly proportions: number;
   readonly overall: number;
+  /** Scoring profile whose ranges and weights produced these scores */
+  readonly profile: ProfileReference;
+  readonly confidence: ScoreConfidence;
+}
+
+/**
+ * How far each score can be trusted, 0-1, from frame coverage, pose correction and image quality
+ */
+export type ScoreConfidence = Readonly<Record<ScoredFeature | 'overall', number>>;
+
+export type ScoredFeature = 'eyes' | 'brows' | 'nose' | 'jaw' | 'mouth' | 'proportions';
+
+/**
+ * How one sub-metric moved its feature score
+ */
+export interface SubMetricEvidence {
+  /** Baseline range key the value was compared against, e.g. "aspectRatio" */
+  readonly metric: string;
+  readonly value: number;
+  readonly idealRange: readonly [number, number];
+  readonly curve: ScoringCurve;
+  /** Curve output: 0 inside the ideal range, at most 1 */
+  readonly deviation: number;
+  readonly weight: number;
+  /** Points this sub-metric takes off the 100-point maximum (weight × deviation × 100) */
+  readonly contribution: number;
+}
+
+export interface FeatureExplanation {
+  readonly feature: ScoredFeature;
+  /** Unrounded feature score, 100 minus the contributions clamped to 0-100 */
+  readonly score: number;
+  readonly subMetrics: readonly SubMetricEvidence[];
+}
+
+export type ScoreExplanation = Readonly<Record<ScoredFeature, FeatureExplanation>>;
+
+export interface DetectedFaceMetrics {
+  readonly face: DetectedFace;
+  readonly features: FacialFeatures;
+  readonly scores: QualityScores;
 }
 
 export interface BaselineRanges {
   readonly eyes: {
+    /** Ideal eye width to height ratio */
     readonly aspectRatio: readonly [number, number];
+    /** Left to right eye size ratio */
     readonly symmetry: readonly [number, number];
+    /** Acceptable eye tilt in degrees */
     readonly tilt: readonly [number, number];
   };
+  readonly brows: {
+    /** Arch height to brow length */
+    readonly archRatio: readonly [number, number];
+    /** Peak between the lateral limbus and the lateral canthus, in eye widths */
+    readonly peakOffset: readonly [number, number];
+    /** Tail level with or slightly above the head, in degrees */
+    readonly tilt: readonly [number, number];
+    /** Brow to upper lid distance to eye width */
+    readonly browEyeRatio: readonly [number, number];
+    /** Left to right brow height ratio */
+    readonly symmetry: readonly [number, number];
+  };
   readonly nose: {
+    /** Nose width to eye distance ratio */
     readonly widthRatio: readonly [number, number];
+    /** Nose length to face height ratio */
     readonly projection: readonly [number, number];
+    /** Nostril symmetry ratio */
     readonly symmetry: readonly [number, number];
   };
   readonly jaw: {
+    /** Ideal jaw angle in degrees */
     readonly angle: readonly [number, number];
+    /** Chin width to jaw width ratio */
     readonly chinRatio: readonly [number, number];
+    /** Left to right jaw symmetry */
     readonly asymmetry: readonly [number, number];
   };
+  readonly mouth: {
+    /** Upper lip height to lower lip height (about 1:1.6) */
+    readonly lipRatio: readonly [number, number];
+    /** Commissures near the medial limbus lines */
+    readonly widthToIpd: readonly [number, number];
+    /** Left to right Cupid's bow peak ratio */
+    readonly cupidsBowSymmetry: readonly [number, number];
+    /** Acceptable commissure line tilt in degrees */
+    readonly commissureTilt: readonly [number, number];
+  };
+  /** Falls back to the built-in proportion ranges when omitted */
+  readonly proportions?: ProportionRanges;
+  /** How far outside its range each sub-metric may drift before losing its full weight; step when omitted */
+  readonly curves?: ScoringCurves;
+}
+
+/**
+ * Maps a value's distance outside its ideal range to a 0-1 deviation
+ * Parameters are in range widths (max - min) past the nearest range edge
+ */
+export type ScoringCurve =
+  /** Legacy curve: 0 inside the range, |value - center| / width outside, so 0.5 right at the edge */
+  | { readonly type: 'step' }
+  /** Rises as 1 - exp(-d² / 2σ²) */
+  | { readonly type: 'gaussian'; readonly sigma?: number }
+  /** S-shaped rise centered on `midpoint`, shifted so it starts at 0 on the edge */
+  | { readonly type: 'logistic'; readonly midpoint?: number; readonly steepness?: number }
+  /** Rises linearly to 1 across a soft margin */
+  | { readonly type: 'linear'; readonly margin?: number };
+
+export type ScoringCurveType = ScoringCurve['type'];
+
+export interface ScoringCurves {
+  /** Curve for every sub-metric without an entry of its own */
+  readonly default?: ScoringCurve;
+  readonly eyes?: Partial<Record<keyof BaselineRanges['eyes'], ScoringCurve>>;
+  readonly brows?: Partial<Record<keyof BaselineRanges['brows'], ScoringCurve>>;
+  readonly nose?: Partial<Record<keyof BaselineRanges['nose'], ScoringCurve>>;
+  readonly jaw?: Partial<Record<keyof BaselineRanges['jaw'], ScoringCurve>>;
+  readonly mouth?: Partial<Record<keyof BaselineRanges['mouth'], ScoringCurve>>;
+  readonly proportions?: Partial<Record<keyof ProportionRanges, ScoringCurve>>;
+}
+
+export interface ProportionRanges {
+  readonly thirdsDeviation: readonly [number, number];
+  readonly fifthsDeviation: readonly [number, number];
+  readonly faceRatio: readonly [number, number];
 }
 
 export interface WeightingFactors {
@@ -74,6 +287,13 @@ export interface WeightingFactors {
     readonly symmetry: number;
     readonly tilt: number;
   };
+  readonly brows: {
+    readonly archRatio: number;
+    readonly peakOffset: number;
+    readonly tilt: number;
+    readonly browEyeRatio: number;
+    readonly symmetry: number;
+  };
   readonly nose: {
     readonly width: number;
     readonly projection: number;
@@ -84,6 +304,20 @@ export interface WeightingFactors {
     readonly projection: number;
     readonly asymmetry: number;
   };
+  readonly mouth: {
+    readonly lipRatio: number;
+    readonly widthToIpd: number;
+    readonly cupidsBowSymmetry: number;
+    readonly commissureTilt: number;
+  };
+  /** Falls back to the built-in proportion weights when omitted */
+  readonly proportions?: {
+    readonly thirds: number;
+    readonly fifths: number;
+    readonly faceRatio: number;
+  };
+  /** Share of each feature score in the overall score; equal shares when omitted */
+  readonly overall?: Readonly<Record<ScoredFeature, number>>;
 }
 
 export interface MetricsCalculationError extends Error {
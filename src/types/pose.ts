@@ -0,0 +1,52 @@
+/**
+ * Head pose estimation and frontal alignment type definitions
+ */
+
+import type { Matrix, NormalizedLandmark } from '@/types/mediapipe';
+
+export type Vector3 = readonly [number, number, number];
+
+/**
+ * Row-major 3x3 rotation in camera space (x right, y up, z toward the camera)
+ */
+export type RotationMatrix = readonly [Vector3, Vector3, Vector3];
+
+export type HeadPoseSource = 'transformation_matrix' | 'landmarks';
+
+export interface HeadPose {
+  readonly yaw: number;
+  readonly pitch: number;
+  readonly roll: number;
+  readonly rotation: RotationMatrix;
+  readonly source: HeadPoseSource;
+}
+
+export interface HeadPoseOptions {
+  readonly transformationMatrix?: Matrix | null;
+  readonly aspectRatio?: number;
+}
+export type AlignmentMethod = 'procrustes' | HeadPoseSource | 'none';
+
+export interface PoseAlignmentOptions extends HeadPoseOptions {
+  /** Frontal mesh to fit by Procrustes; takes precedence over the head pose */
+  readonly referenceLandmarks?: readonly NormalizedLandmark[] | null;
+}
+
+/**
+ * Rotation removed from the landmarks to bring them to the frontal pose
+ */
+export interface PoseCorrection {
+  readonly method: AlignmentMethod;
+  readonly yaw: number;
+  readonly pitch: number;
+  readonly roll: number;
+  /** Total rotation angle in degrees */
+  readonly angle: number;
+  /** Procrustes RMS distance to the reference after alignment, in face widths; null for other methods */
+  readonly residual: number | null;
+}
+
+export interface AlignedLandmarks {
+  readonly landmarks: readonly NormalizedLandmark[];
+  readonly correction: PoseCorrection;
+}
\ No newline at end of file
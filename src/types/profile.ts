@@ -0,0 +1,31 @@
+/**
+ * Scoring profile type definitions
+ */
+
+import type { BaselineRanges, WeightingFactors } from '@/types/metrics';
+
+/**
+ * A named, versioned set of baseline ranges and weights
+ */
+export interface ScoringProfile {
+  readonly name: string;
+  readonly version: string;
+  readonly description: string;
+  readonly baselineRanges: BaselineRanges;
+  readonly weightingFactors: WeightingFactors;
+}
+
+/**
+ * Identifies the profile that produced a set of scores
+ */
+export interface ProfileReference {
+  readonly name: string;
+  readonly version: string;
+}
+
+export interface ProfileValidationError extends Error {
+  readonly code: 'INVALID_PROFILE' | 'UNKNOWN_PROFILE';
+  /** Dotted path of the offending entry, e.g. "weightingFactors.eyes" */
+  readonly path: string;
+  readonly details?: unknown;
+}
\ No newline at end of file
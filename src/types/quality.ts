@@ -2,7 +2,7 @@
  * Image and facial detection quality validation types
  */
 
-// NormalizedLandmark import removed - not used in this type definition file
+import type { DetectedFace, Matrix } from '@/types/mediapipe';
 
 export interface QualityCheckResult {
   readonly isValid: boolean;
@@ -88,6 +88,17 @@ export interface FaceQualityMetrics {
   readonly symmetry: number;
 }
 
+export interface QualityValidationContext {
+  readonly faceCount?: number;
+  readonly transformationMatrix?: Matrix | null;
+  readonly imageQuality?: ImageQualityMetrics;
+}
+
+export interface DetectedFaceQuality {
+  readonly face: DetectedFace | null;
+  readonly qualityCheck: QualityCheckResult;
+}
+
 export interface QualityValidationError extends Error {
   readonly code: 'ANALYSIS_FAILED' | 'INVALID_IMAGE' | 'PROCESSING_ERROR';
   readonly details?: unknown;
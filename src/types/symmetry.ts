@@ -0,0 +1,69 @@
+/**
+ * Bilateral symmetry analysis type definitions
+ */
+
+import type { Vector3 } from '@/types/pose';
+
+export type SymmetryRegion = 'eyes' | 'brows' | 'nose' | 'mouth' | 'contour';
+
+/**
+ * Mesh indices of an image-left landmark and its mirror partner on the image right
+ */
+export type LandmarkPair = readonly [number, number];
+
+export interface SymmetryOptions {
+  /** Image width / height, so x, y and z share one unit */
+  readonly aspectRatio?: number;
+}
+
+/**
+ * Mirror plane of the face, in image-height units with image axes (x right, y down, z away from the camera)
+ */
+export interface FacialMidline {
+  /** Unit normal pointing from the image-left half to the image-right half */
+  readonly normal: Vector3;
+  /** Signed plane distance from the origin along the normal */
+  readonly offset: number;
+  /** Point on the midline in normalized image coordinates */
+  readonly point: { readonly x: number; readonly y: number };
+  /** Unit in-image direction of the midline, forehead to chin, in pixel space */
+  readonly direction: { readonly x: number; readonly y: number };
+  /** Midline tilt from the image vertical in degrees, positive when the chin sits right of the forehead */
+  readonly roll: number;
+}
+
+/**
+ * Where each mirrored image-right landmark lands relative to its image-left partner
+ */
+export interface PairAsymmetry {
+  readonly pair: LandmarkPair;
+  /** Mirrored right point minus left point, in face widths */
+  readonly vector: Vector3;
+  readonly magnitude: number;
+}
+
+export interface RegionAsymmetry {
+  readonly region: SymmetryRegion;
+  /** Mean asymmetry vector, in face widths; shows a consistent shift of the region */
+  readonly vector: Vector3;
+  /** Mean pair magnitude, in face widths */
+  readonly magnitude: number;
+  readonly maxMagnitude: number;
+  readonly pairs: readonly PairAsymmetry[];
+}
+
+export interface SymmetryAnalysis {
+  readonly midline: FacialMidline;
+  readonly regions: Readonly<Record<SymmetryRegion, RegionAsymmetry>>;
+  /** Mean pair magnitude over every region, in face widths */
+  readonly overallAsymmetry: number;
+  /** Mean distance of the unpaired midline landmarks from the mirror plane, in face widths */
+  readonly midlineDeviation: number;
+}
+
+export interface MirroredComposites {
+  /** Image-left half joined with its own reflection */
+  readonly leftLeft: HTMLCanvasElement;
+  /** Image-right half joined with its own reflection */
+  readonly rightRight: HTMLCanvasElement;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Analysis worker message protocol and result type definitions
+ */
+
+import type { DetectedFace, FaceLandmarkerOptions, MediaPipeCapabilities, MediaPipeErrorCode } from '@/types/mediapipe';
+import type { ImageQualityMetrics } from '@/types/quality';
+
+export interface FrameAnalysisResult {
+  readonly width: number;
+  readonly height: number;
+  readonly faces: readonly DetectedFace[];
+  readonly imageQuality: ImageQualityMetrics;
+  readonly durationMs: number;
+}
+
+export type AnalysisWorkerRequest =
+  | { readonly type: 'initialize'; readonly id: number; readonly options: FaceLandmarkerOptions }
+  | { readonly type: 'analyze'; readonly id: number; readonly bitmap: ImageBitmap }
+  | { readonly type: 'measure'; readonly id: number; readonly bitmap: ImageBitmap }
+  | { readonly type: 'cancel'; readonly id: number };
+
+export type AnalysisWorkerResponse =
+  | { readonly type: 'initialized'; readonly id: number; readonly capabilities: MediaPipeCapabilities | null }
+  | { readonly type: 'result'; readonly id: number; readonly result: FrameAnalysisResult }
+  | { readonly type: 'measured'; readonly id: number; readonly imageQuality: ImageQualityMetrics }
+  | { readonly type: 'error'; readonly id: number; readonly code: MediaPipeErrorCode | 'WORKER_FAILED'; readonly message: string };
+
+export interface AnalyzeOptions {
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * MediaPipe failures inside the worker keep their own code, so a TIMEOUT or NETWORK_ERROR
+ * reads the same on the worker path as on the main thread
+ */
+export interface AnalysisEngineError extends Error {
+  readonly code: 'WORKER_UNAVAILABLE' | 'WORKER_FAILED' | 'CANCELLED' | 'NOT_INITIALIZED' | MediaPipeErrorCode;
+  readonly details?: unknown;
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+/**
+ * Calibration panel
+ * Picks a millimeter scale source and lists the face measurements in both units
+ */
+
+import { useRef, useEffect, useMemo, useState, useCallback } from 'react';
+import type { FacialFeatures } from '@/types/metrics';
+import type { CalibrationSource, CalibrationSourceType, Measurement, ReferencePoint } from '@/types/calibration';
+import { calibrateFeatures, createCalibration, ID1_CARD_WIDTH_MM } from '@/lib/calibration';
+
+interface CalibrationPanelProps {
+  readonly imageData: ImageData;
+  readonly features: FacialFeatures;
+  readonly className?: string;
+}
+
+const SOURCE_LABELS: Record<CalibrationSourceType, string> = {
+  iris: '虹彩径(自動)',
+  ipd: '瞳孔間距離',
+  reference: 'カード',
+};
+
+const DEFAULT_IPD_MM = 63;
+
+export function CalibrationPanel({ imageData, features, className = '' }: CalibrationPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sourceType, setSourceType] = useState<CalibrationSourceType>('iris');
+  const [ipdInput, setIpdInput] = useState(String(DEFAULT_IPD_MM));
+  const [referencePoints, setReferencePoints] = useState<readonly ReferencePoint[]>([]);
+
+  const source = useMemo((): CalibrationSource | null => {
+    switch (sourceType) {
+      case 'iris':
+        return { type: 'iris' };
+      case 'ipd':
+        return { type: 'ipd', millimeters: Number(ipdInput) };
+      case 'reference': {
+        const [start, end] = referencePoints;
+        return start !== undefined && end !== undefined
+          ? { type: 'reference', start, end, millimeters: ID1_CARD_WIDTH_MM }
+          : null;
+      }
+    }
+  }, [sourceType, ipdInput, referencePoints]);
+
+  const { measurements, error } = useMemo(() => {
+    try {
+      const aspectRatio = imageData.height > 0 ? imageData.width / imageData.height : 1;
+      const calibration = source === null ? null : createCalibration(features, source, aspectRatio);
+      return { measurements: calibrateFeatures(features, calibration), error: null };
+    } catch {
+      // Only an out-of-range IPD can be entered from this panel
+      return { measurements: calibrateFeatures(features, null), error: '瞳孔間距離は 40〜80mm の範囲で入力してください' };
+    }
+  }, [features, source, imageData]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas === null) return;
+
+    const ctx = canvas.getContext('2d');
+    if (ctx === null) return;
+
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    ctx.putImageData(imageData, 0, 0);
+
+    // Mark the card edge the user has tapped so far
+    ctx.strokeStyle = '#ff9800';
+    ctx.fillStyle = '#ff9800';
+    ctx.lineWidth = Math.max(2, canvas.width / 300);
+    referencePoints.forEach(point => {
+      ctx.beginPath();
+      ctx.arc(point.x * canvas.width, point.y * canvas.height, ctx.lineWidth * 2, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    const [start, end] = referencePoints;
+    if (start !== undefined && end !== undefined) {
+      ctx.beginPath();
+      ctx.moveTo(start.x * canvas.width, start.y * canvas.height);
+      ctx.lineTo(end.x * canvas.width, end.y * canvas.height);
+      ctx.stroke();
+    }
+  }, [imageData, referencePoints, sourceType]);
+
+  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>): void => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+    // A third tap starts a new edge
+    setReferencePoints(points => (points.length >= 2 ? [point] : [...points, point]));
+  }, []);
+
+  const { calibration } = measurements;
+  const rows: readonly (readonly [string, Measurement | null])[] = [
+    ['瞳孔間距離', measurements.eyes.interPupillaryDistance],
+    ['虹彩径', measurements.eyes.irisDiameter],
+    ['左目 幅', measurements.eyes.leftWidth],
+    ['左目 高さ', measurements.eyes.leftHeight],
+    ['右目 幅', measurements.eyes.rightWidth],
+    ['右目 高さ', measurements.eyes.rightHeight],
+    ['鼻 幅', measurements.nose.width],
+    ['鼻 長さ', measurements.nose.length],
+    ['鼻梁 幅', measurements.nose.bridgeWidth],
+    ['顎 幅', measurements.jaw.width],
+    ['口 幅', measurements.mouth.width],
+    ['上唇 厚さ', measurements.mouth.upperLipHeight],
+    ['下唇 厚さ', measurements.mouth.lowerLipHeight],
+  ];
+
+  return (
+    <div className={`calibration-panel ${className}`} style={{
+      marginTop: '20px',
+      padding: '15px',
+      backgroundColor: '#f5f5f5',
+      borderRadius: '8px',
+    }}>
+      <h3>実寸換算 (mm)</h3>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '12px' }}>
+        {(Object.keys(SOURCE_LABELS) as CalibrationSourceType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setSourceType(type)}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: sourceType === type ? '#2196f3' : 'white',
+              color: sourceType === type ? 'white' : '#333',
+              border: '1px solid #ddd',
+              borderRadius: '6px',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            {SOURCE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {sourceType === 'ipd' && (
+        <label style={{ display: 'block', fontSize: '14px', marginBottom: '12px' }}>
+          既知の瞳孔間距離:{' '}
+          <input
+            type="number"
+            min={40}
+            max={80}
+            step={0.5}
+            value={ipdInput}
+            onChange={event => setIpdInput(event.target.value)}
+            style={{ width: '80px' }}
+          />{' '}mm
+        </label>
+      )}
+
+      {sourceType === 'reference' && (
+        <div style={{ marginBottom: '12px' }}>
+          <div style={{ fontSize: '14px', marginBottom: '8px' }}>
+            顔と同じ距離に持ったカード（{ID1_CARD_WIDTH_MM}mm）の長辺の両端をタップしてください。
+          </div>
+          <canvas
+            ref={canvasRef}
+            onClick={handleCanvasClick}
+            style={{ maxWidth: '100%', height: 'auto', borderRadius: '8px', cursor: 'crosshair', display: 'block' }}
+          />
+        </div>
+      )}
+
+      {error !== null && (
+        <div style={{ color: '#c62828', fontSize: '14px', marginBottom: '8px' }}>⚠️ {error}</div>
+      )}
+
+      <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px' }}>
+        {calibration === null
+          ? sourceType === 'iris'
+            ? '虹彩ランドマークがないため換算できません'
+            : '基準が未設定です'
+          : `スケール: ${calibration.millimetersPerUnit.toFixed(1)} mm/単位 (±${(calibration.relativeUncertainty * 100).toFixed(1)}%)`}
+      </div>
+
+      <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+        <tbody>
+          {rows.map(([label, measurement]) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td style={{ textAlign: 'right' }}>{measurement?.normalized.toFixed(4) ?? '-'}</td>
+              <td style={{ textAlign: 'right' }}>{formatMillimeters(measurement)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function formatMillimeters(measurement: Measurement | null): string {
+  const millimeters = measurement?.millimeters ?? null;
+  const uncertaintyMm = measurement?.uncertaintyMm ?? null;
+  if (millimeters === null || uncertaintyMm === null) return '-';
+  return `${millimeters.toFixed(1)} ± ${uncertaintyMm.toFixed(1)} mm`;
+}
\ No newline at end of file
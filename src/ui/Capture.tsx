@@ -4,76 +4,211 @@
  */
 
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { MediaPipeFaceLandmarker } from '@/lib/mediapipe';
+import { MediaPipeFaceLandmarker, isMediaPipeErrorCode } from '@/lib/mediapipe';
 import { QualityValidator } from '@/lib/quality';
 import { FacialMetricsCalculator } from '@/lib/metrics';
 import { FileUpload } from '@/ui/FileUpload';
+import { FaceSelector } from '@/ui/FaceSelector';
+import { LiveDebugOverlay } from '@/ui/DebugOverlay';
+import { LandmarkStream } from '@/lib/landmarkStream';
+import { AnalysisEngine } from '@/lib/analysisEngine';
+import { aggregateFacialFeatures } from '@/lib/frameAggregation';
+import { withTimeout } from '@/lib/cancellation';
+import { getFrameAspectRatio, readFramePixels } from '@/lib/frameSource';
 import { processImageFile, ImageProcessingError } from '@/utils/imageProcessing';
-import type { NormalizedLandmark } from '@/types/mediapipe';
-import type { QualityCheckResult } from '@/types/quality';
+import type { NormalizedLandmark, DetectedFace, MediaPipeCapabilities, MediaPipeErrorCode } from '@/types/mediapipe';
+import type { FaceDetector } from '@/types/detector';
+import type { QualityCheckResult, ImageQualityMetrics } from '@/types/quality';
 import type { FacialFeatures, QualityScores } from '@/types/metrics';
+import type { ScoringProfile } from '@/types/profile';
+import type { AggregatedFeatures } from '@/types/aggregation';
 
 type CaptureMode = 'camera' | 'file';
 
 interface CaptureState {
   readonly mode: CaptureMode;
-  readonly status: 'idle' | 'requesting_camera' | 'camera_active' | 'capturing' | 'processing' | 'complete' | 'error';
+  readonly status: 'idle' | 'requesting_camera' | 'camera_active' | 'capturing' | 'processing' | 'selecting_face' | 'complete' | 'error';
   readonly error?: string;
   readonly stream?: MediaStream;
 }
 
+interface PendingFaceSelection {
+  readonly image: HTMLImageElement;
+  readonly faces: readonly DetectedFace[];
+  readonly imageQuality?: ImageQualityMetrics;
+}
+
 interface CaptureResult {
   readonly imageData: ImageData;
+  readonly face: DetectedFace;
   readonly landmarks: readonly NormalizedLandmark[];
   readonly qualityCheck: QualityCheckResult;
   readonly features: FacialFeatures;
   readonly scores: QualityScores;
+  /** Present when the features are medians over a burst of camera frames */
+  readonly aggregation?: AggregatedFeatures;
+}
+
+interface FrameSample {
+  /** Snapshot of the sampled video frame; closed once the burst is aggregated */
+  readonly frame: ImageBitmap;
+  readonly face: DetectedFace;
+  readonly qualityCheck: QualityCheckResult;
+  readonly features: FacialFeatures;
 }
 
+// Burst capture: frames to collect, the fewest worth aggregating, and how long to wait for them
+const AGGREGATION_FRAME_COUNT = 8;
+const AGGREGATION_MIN_FRAMES = 3;
+const AGGREGATION_TIMEOUT_MS = 10000;
+
+// A worker that stops answering falls back to the main thread after this long
+const WORKER_ANALYSIS_TIMEOUT_MS = 15000;
+
+// Codes the user can act on differently: wait and retry, check the connection, or switch device.
+// Every code is listed; null keeps the generic message for failures the user cannot act on.
+const DETECTOR_ERROR_MESSAGES: Readonly<Record<MediaPipeErrorCode, string | null>> = {
+  TIMEOUT: '処理がタイムアウトしました。通信環境を確認して再試行してください。',
+  NETWORK_ERROR: 'ネットワークエラーのため顔検出モデルを読み込めませんでした。接続を確認して再試行してください。',
+  UNSUPPORTED_DEVICE: 'このデバイスまたはブラウザは顔検出に対応していません。別のブラウザや端末でお試しください。',
+  INIT_FAILED: null,
+  DETECTION_FAILED: null,
+  INVALID_RESULT: null,
+  ASSET_UNAVAILABLE: null,
+  ASSET_INTEGRITY_FAILED: null,
+  ABORTED: null,
+  INVALID_FIXTURE: null,
+};
+
 interface CaptureProps {
   readonly onCapture?: (result: CaptureResult) => void;
   readonly onError?: (error: string) => void;
+  readonly onInitialized?: (capabilities: MediaPipeCapabilities) => void;
+  /** Replaces the MediaPipe landmarker, e.g. with a fixture-driven detector in tests */
+  readonly detector?: FaceDetector;
+  /** Ranges and weights used for scoring; the default profile when omitted */
+  readonly profile?: ScoringProfile;
   readonly className?: string;
 }
 
-export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
+export function Capture({ onCapture, onError, onInitialized, detector, profile, className = '' }: CaptureProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [captureState, setCaptureState] = useState<CaptureState>({ mode: 'camera', status: 'idle' });
   const [isInitialized, setIsInitialized] = useState(false);
+  const [pendingSelection, setPendingSelection] = useState<PendingFaceSelection | null>(null);
+  const [liveStream, setLiveStream] = useState<LandmarkStream | null>(null);
+  const [capabilities, setCapabilities] = useState<MediaPipeCapabilities | null>(null);
+  const [burstProgress, setBurstProgress] = useState<number | null>(null);
+  // Bumped by the retry button to run initialization again
+  const [initAttempt, setInitAttempt] = useState(0);
 
   // Initialize MediaPipe components
-  const landmarkerRef = useRef<MediaPipeFaceLandmarker | undefined>(undefined);
+  const landmarkerRef = useRef<FaceDetector | undefined>(undefined);
   const qualityValidatorRef = useRef<QualityValidator | undefined>(undefined);
   const metricsCalculatorRef = useRef<FacialMetricsCalculator | undefined>(undefined);
+  const analysisEngineRef = useRef<AnalysisEngine | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const cameraAbortRef = useRef<AbortController | null>(null);
 
+  // Latest callbacks, read through a ref so a parent re-render does not rebuild the landmarker
+  const callbacksRef = useRef({ onError, onInitialized });
   useEffect(() => {
+    callbacksRef.current = { onError, onInitialized };
+  }, [onError, onInitialized]);
+
+  // The landmarker lives until the detector changes or initialization is retried
+  useEffect(() => {
+    let isActive = true;
+    const landmarker = detector ?? new MediaPipeFaceLandmarker({});
+    landmarkerRef.current = landmarker;
+    // Cancels the loading below, including an injected detector's, which is not disposed here
+    const initController = new AbortController();
+
+    const reportCapabilities = (reported: MediaPipeCapabilities | null): void => {
+      if (reported === null) return;
+      setCapabilities(reported);
+      callbacksRef.current.onInitialized?.(reported);
+    };
+
+    // Still images run in the worker when it starts, so the main-thread landmarker is only
+    // loaded for the live camera preview or as a fallback; loading both up front would
+    // download and compile every asset twice. An injected detector always runs in-process.
     const initializeComponents = async (): Promise<void> => {
       try {
-        landmarkerRef.current = new MediaPipeFaceLandmarker({});
-        await landmarkerRef.current.initialize();
+        let engineCapabilities: MediaPipeCapabilities | null | undefined;
+        if (detector === undefined && AnalysisEngine.isSupported()) {
+          const engine = new AnalysisEngine({});
+          try {
+            engineCapabilities = await engine.initialize({ signal: initController.signal });
+            if (!isActive) {
+              engine.dispose();
+              return;
+            }
+            analysisEngineRef.current = engine;
+          } catch (error) {
+            if (!isActive) return;
+            console.warn('Analysis worker unavailable, using main thread:', error);
+            engine.dispose();
+          }
+        }
+
+        if (engineCapabilities === undefined) {
+          await landmarker.initialize({ signal: initController.signal });
+          if (!isActive) return;
+          reportCapabilities(landmarker.getCapabilities());
+        } else {
+          reportCapabilities(engineCapabilities);
+        }
         
-        qualityValidatorRef.current = new QualityValidator();
-        metricsCalculatorRef.current = new FacialMetricsCalculator();
+        qualityValidatorRef.current = new QualityValidator(undefined, { detector: landmarker });
         
         setIsInitialized(true);
       } catch (error) {
-        const errorMessage = `Failed to initialize components: ${String(error)}`;
+        if (!isActive) return;
+
+        const errorMessage = describeDetectorError(error) ?? `Failed to initialize components: ${String(error)}`;
         setCaptureState(prev => ({ ...prev, status: 'error', error: errorMessage }));
-        onError?.(errorMessage);
+        callbacksRef.current.onError?.(errorMessage);
       }
     };
 
     void initializeComponents();
 
-    // Cleanup on unmount
     return () => {
-      landmarkerRef.current?.dispose();
-      if (captureState.stream !== undefined) {
-        captureState.stream.getTracks().forEach(track => track.stop());
+      isActive = false;
+      setIsInitialized(false);
+      initController.abort();
+      analysisAbortRef.current?.abort();
+      cameraAbortRef.current?.abort();
+      analysisEngineRef.current?.dispose();
+      analysisEngineRef.current = null;
+      // Injected detectors are owned by the caller
+      if (detector === undefined) {
+        landmarker.dispose();
       }
     };
-  }, [captureState.stream, onError]);
+  }, [detector, initAttempt]);
+
+  // Camera tracks stop when the stream is replaced or the component unmounts
+  useEffect(() => {
+    const stream = captureState.stream;
+    if (stream === undefined) return;
+
+    return () => {
+      stream.getTracks().forEach(track => track.stop());
+    };
+  }, [captureState.stream]);
+
+  // Rebuilt whenever a different scoring profile is chosen
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    const dependencies = landmarkerRef.current === undefined ? {} : { detector: landmarkerRef.current };
+    metricsCalculatorRef.current = profile === undefined
+      ? new FacialMetricsCalculator(undefined, undefined, dependencies)
+      : FacialMetricsCalculator.fromProfile(profile, dependencies);
+  }, [isInitialized, profile]);
 
   const startCamera = useCallback(async (): Promise<void> => {
     if (!isInitialized) {
@@ -83,8 +218,25 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
       return;
     }
 
+    // Stopping the camera, starting it again or unmounting cancels a model load still in progress
+    cameraAbortRef.current?.abort();
+    const cameraController = new AbortController();
+    cameraAbortRef.current = cameraController;
+
     setCaptureState(prev => ({ ...prev, status: 'requesting_camera' }));
 
+    try {
+      // The live preview needs the main-thread landmarker, which the worker path leaves unloaded
+      await landmarkerRef.current?.initialize({ signal: cameraController.signal });
+    } catch (error) {
+      if (cameraController.signal.aborted) return;
+
+      const errorMessage = describeDetectorError(error) ?? `Failed to initialize components: ${String(error)}`;
+      setCaptureState(prev => ({ ...prev, status: 'error', error: errorMessage }));
+      onError?.(errorMessage);
+      return;
+    }
+
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
@@ -94,6 +246,10 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
         },
         audio: false,
       });
+      if (cameraController.signal.aborted) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
 
       if (videoRef.current !== null) {
         videoRef.current.srcObject = stream;
@@ -109,6 +265,10 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
           };
           videoRef.current.onerror = () => reject(new Error('Video failed to load'));
         });
+        if (cameraController.signal.aborted) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
 
         setCaptureState(prev => ({ ...prev, status: 'camera_active', stream }));
       }
@@ -130,15 +290,47 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
     }
   }, [isInitialized, onError]);
 
+  // Stream live landmarks while the camera preview is visible, and keep the same stream through a burst capture
+  const isPreviewActive = captureState.status === 'camera_active' || captureState.status === 'capturing';
+  useEffect(() => {
+    const video = videoRef.current;
+    const landmarker = landmarkerRef.current;
+    if (!isInitialized || !isPreviewActive || video === null || landmarker === undefined) {
+      return;
+    }
+
+    const stream = new LandmarkStream(landmarker, video, {
+      onError: (error: unknown) => {
+        console.warn('Live landmark detection stopped:', error);
+        setLiveStream(current => (current === stream ? null : current));
+      },
+    });
+    stream.start();
+    setLiveStream(stream);
+
+    return () => {
+      stream.stop();
+      setLiveStream(null);
+    };
+  }, [isPreviewActive, isInitialized]);
+
   const stopCamera = useCallback((): void => {
+    cameraAbortRef.current?.abort();
+    cameraAbortRef.current = null;
+    liveStream?.stop();
     if (captureState.stream !== undefined) {
       captureState.stream.getTracks().forEach(track => track.stop());
     }
     setCaptureState(prev => ({ ...prev, status: 'idle' }));
-  }, [captureState.stream]);
+  }, [liveStream, captureState.stream]);
 
-  const processImage = useCallback(async (imageElement: HTMLImageElement): Promise<void> => {
-    if (!landmarkerRef.current || !qualityValidatorRef.current || !metricsCalculatorRef.current) {
+  const analyzeFace = useCallback((
+    imageElement: HTMLImageElement,
+    face: DetectedFace,
+    faceCount: number,
+    imageQuality?: ImageQualityMetrics
+  ): void => {
+    if (!qualityValidatorRef.current || !metricsCalculatorRef.current) {
       const errorMessage = 'Components not initialized';
       setCaptureState(prev => ({ ...prev, status: 'error', error: errorMessage }));
       onError?.(errorMessage);
@@ -148,34 +340,27 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
     setCaptureState(prev => ({ ...prev, status: 'processing' }));
 
     try {
-      // Detect landmarks
-      const landmarks = await landmarkerRef.current.detectLandmarks(imageElement);
-
-      if (landmarks.length === 0) {
-        throw new Error('顔が検出されませんでした。顔全体がフレーム内に映るように調整してください。');
-      }
+      const landmarks = face.landmarks;
 
       // Validate quality
-      const qualityCheck = await qualityValidatorRef.current.validateImage(imageElement, landmarks);
+      const qualityCheck = qualityValidatorRef.current.validateImage(imageElement, landmarks, {
+        faceCount,
+        transformationMatrix: face.transformationMatrix,
+        ...(imageQuality !== undefined && { imageQuality }),
+      });
 
       // Calculate facial features and scores
-      const features = metricsCalculatorRef.current.calculateFacialFeatures(landmarks);
-      const scores = metricsCalculatorRef.current.calculateQualityScores(features);
-
-      // Create canvas to get image data
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (ctx === null) {
-        throw new Error('Could not get canvas context');
-      }
+      const features = metricsCalculatorRef.current.calculateFacialFeatures(landmarks, {
+        transformationMatrix: face.transformationMatrix,
+        aspectRatio: getFrameAspectRatio(imageElement),
+      });
+      const scores = metricsCalculatorRef.current.calculateQualityScores(features, qualityCheck);
 
-      canvas.width = imageElement.naturalWidth;
-      canvas.height = imageElement.naturalHeight;
-      ctx.drawImage(imageElement, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const imageData = readFramePixels(imageElement);
 
       const result: CaptureResult = {
         imageData,
+        face,
         landmarks,
         qualityCheck,
         features,
@@ -192,6 +377,96 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
     }
   }, [onCapture, onError]);
 
+  const processImage = useCallback(async (imageElement: HTMLImageElement): Promise<void> => {
+    if (!landmarkerRef.current) {
+      const errorMessage = 'Components not initialized';
+      setCaptureState(prev => ({ ...prev, status: 'error', error: errorMessage }));
+      onError?.(errorMessage);
+      return;
+    }
+
+    setCaptureState(prev => ({ ...prev, status: 'processing' }));
+
+    // A newer image supersedes any analysis still running in the worker
+    analysisAbortRef.current?.abort();
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+
+    try {
+      // Detect every face so group photos can be disambiguated
+      let faces: readonly DetectedFace[] | undefined;
+      let imageQuality: ImageQualityMetrics | undefined;
+
+      const engine = analysisEngineRef.current;
+      if (engine !== null) {
+        try {
+          const bitmap = await createImageBitmap(imageElement);
+          const analysis = await withTimeout(signal => engine.analyze(bitmap, { signal }), {
+            operation: 'Worker analysis',
+            timeoutMs: WORKER_ANALYSIS_TIMEOUT_MS,
+            signal: abortController.signal,
+          });
+          faces = analysis.faces;
+          imageQuality = analysis.imageQuality;
+        } catch (error) {
+          if (abortController.signal.aborted) throw error;
+          console.warn('Worker analysis failed, retrying on main thread:', error);
+        }
+      }
+
+      if (faces === undefined) {
+        await landmarkerRef.current.initialize({ signal: abortController.signal });
+        faces = await landmarkerRef.current.detectFaces(imageElement, { signal: abortController.signal });
+      }
+      const [onlyFace] = faces;
+
+      if (onlyFace === undefined) {
+        throw new Error('顔が検出されませんでした。顔全体がフレーム内に映るように調整してください。');
+      }
+
+      if (faces.length > 1) {
+        setPendingSelection({ image: imageElement, faces, ...(imageQuality !== undefined && { imageQuality }) });
+        setCaptureState(prev => ({ ...prev, status: 'selecting_face' }));
+        return;
+      }
+
+      analyzeFace(imageElement, onlyFace, faces.length, imageQuality);
+
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+
+      const errorMessage = describeDetectorError(error) ??
+        (error instanceof Error ? error.message : '画像の処理中にエラーが発生しました');
+      setCaptureState(prev => ({ ...prev, status: 'error', error: errorMessage }));
+      onError?.(errorMessage);
+    }
+  }, [analyzeFace, onError]);
+
+  const cancelProcessing = useCallback((): void => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setCaptureState(prev => ({ ...prev, status: 'idle' }));
+  }, []);
+
+  const retry = useCallback((): void => {
+    setCaptureState(prev => ({ ...prev, status: 'idle' }));
+    if (!isInitialized) {
+      setInitAttempt(attempt => attempt + 1);
+    }
+  }, [isInitialized]);
+
+  const handleFaceSelected = useCallback((face: DetectedFace): void => {
+    if (pendingSelection === null) return;
+
+    setPendingSelection(null);
+    analyzeFace(pendingSelection.image, face, pendingSelection.faces.length, pendingSelection.imageQuality);
+  }, [pendingSelection, analyzeFace]);
+
+  const handleFaceSelectionCancel = useCallback((): void => {
+    setPendingSelection(null);
+    setCaptureState(prev => ({ ...prev, status: 'idle' }));
+  }, []);
+
   const captureImage = useCallback(async (): Promise<void> => {
     if (!videoRef.current || !canvasRef.current || captureState.status !== 'camera_active') {
       return;
@@ -229,6 +504,60 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
     }
   }, [captureState.status, processImage]);
 
+  const captureBurst = useCallback(async (): Promise<void> => {
+    const video = videoRef.current;
+    const qualityValidator = qualityValidatorRef.current;
+    const metricsCalculator = metricsCalculatorRef.current;
+    if (video === null || liveStream === null || !qualityValidator || !metricsCalculator ||
+        captureState.status !== 'camera_active') {
+      return;
+    }
+
+    setCaptureState(prev => ({ ...prev, status: 'capturing' }));
+    setBurstProgress(0);
+
+    let samples: FrameSample[] = [];
+    try {
+      samples = await collectFrameSamples(
+        liveStream,
+        video,
+        qualityValidator,
+        metricsCalculator,
+        analysisEngineRef.current,
+        setBurstProgress
+      );
+      if (samples.length < AGGREGATION_MIN_FRAMES) {
+        throw new Error('安定したフレームを十分に取得できませんでした。明るい場所で正面を向いてください。');
+      }
+
+      const aggregation = aggregateFacialFeatures(samples.map(sample => sample.features));
+      const representative = samples[aggregation.representativeFrame] ?? samples[0];
+      if (representative === undefined) {
+        throw new Error('安定したフレームを十分に取得できませんでした。');
+      }
+
+      const result: CaptureResult = {
+        imageData: readFramePixels(representative.frame),
+        face: representative.face,
+        landmarks: representative.face.landmarks,
+        qualityCheck: representative.qualityCheck,
+        features: aggregation.features,
+        scores: metricsCalculator.calculateQualityScores(aggregation.features, representative.qualityCheck),
+        aggregation,
+      };
+
+      setCaptureState(prev => ({ ...prev, status: 'complete' }));
+      onCapture?.(result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '画像の処理中にエラーが発生しました';
+      setCaptureState(prev => ({ ...prev, status: 'error', error: errorMessage }));
+      onError?.(errorMessage);
+    } finally {
+      samples.forEach(sample => sample.frame.close());
+      setBurstProgress(null);
+    }
+  }, [captureState.status, liveStream, onCapture, onError]);
+
   const handleFileSelected = useCallback(async (file: File): Promise<void> => {
     setCaptureState(prev => ({ ...prev, status: 'processing' }));
 
@@ -274,6 +603,7 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
       captureState.stream.getTracks().forEach(track => track.stop());
     }
 
+    setPendingSelection(null);
     setCaptureState({ mode: newMode, status: 'idle' });
   }, [captureState.mode, captureState.stream]);
 
@@ -286,9 +616,11 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
       case 'camera_active':
         return '撮影準備完了';
       case 'capturing':
-        return '撮影中...';
+        return burstProgress === null ? '撮影中...' : `撮影中... ${burstProgress}/${AGGREGATION_FRAME_COUNT}`;
       case 'processing':
         return '解析中...';
+      case 'selecting_face':
+        return '顔を選択してください';
       case 'complete':
         return '完了';
       case 'error':
@@ -359,6 +691,10 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
             display: captureState.status === 'camera_active' ? 'block' : 'none',
           }}
         />
+
+        {captureState.status === 'camera_active' && (
+          <LiveDebugOverlay stream={liveStream} />
+        )}
         
         <canvas
           ref={canvasRef}
@@ -399,7 +735,7 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
               {captureState.error}
             </div>
             <button
-              onClick={() => setCaptureState(prev => ({ ...prev, status: 'idle' }))}
+              onClick={retry}
               style={{
                 padding: '8px 16px',
                 backgroundColor: '#1976d2',
@@ -429,6 +765,23 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
               textAlign: 'center'
             }}>
               エラー: {captureState.error}
+              {!isInitialized && (
+                <div style={{ marginTop: '10px' }}>
+                  <button
+                    onClick={retry}
+                    style={{
+                      padding: '8px 16px',
+                      backgroundColor: '#1976d2',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '6px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    再試行
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
@@ -440,6 +793,18 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
         </div>
       )}
 
+      {/* Face Selection for group photos */}
+      {captureState.status === 'selecting_face' && pendingSelection !== null && (
+        <div style={{ marginTop: '20px' }}>
+          <FaceSelector
+            image={pendingSelection.image}
+            faces={pendingSelection.faces}
+            onSelect={handleFaceSelected}
+            onCancel={handleFaceSelectionCancel}
+          />
+        </div>
+      )}
+
       {/* Camera Controls */}
       {captureState.mode === 'camera' && (
         <div className="capture-controls" style={{
@@ -486,6 +851,22 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
             >
               📸 撮影
             </button>
+            <button
+              onClick={() => void captureBurst()}
+              disabled={!canCapture || liveStream === null}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: canCapture && liveStream !== null ? '#673ab7' : '#ccc',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                fontSize: '16px',
+                cursor: canCapture && liveStream !== null ? 'pointer' : 'not-allowed',
+                minWidth: '120px',
+              }}
+            >
+              🎞️ 連続撮影 ({AGGREGATION_FRAME_COUNT}枚)
+            </button>
             <button
               onClick={stopCamera}
               style={{
@@ -527,6 +908,20 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
         </div>
       )}
 
+      {/* Inference backend */}
+      {capabilities !== null && (
+        <div style={{
+          marginTop: '12px',
+          fontSize: '12px',
+          color: capabilities.delegate === 'GPU' ? '#999' : '#f57c00',
+          textAlign: 'center',
+        }}>
+          推論: {capabilities.delegate}
+          {capabilities.delegate === 'CPU' && capabilities.attempts.length > 1 && '（GPU初期化に失敗したためCPUで実行中）'}
+          {' '}・ 初期化 {Math.round(capabilities.initDurationMs)}ms
+        </div>
+      )}
+
       {/* Processing Status */}
       {isLoading && (
         <div style={{
@@ -548,6 +943,23 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
             animation: 'spin 1s linear infinite',
           }} />
           {getStatusText()}
+          {captureState.status === 'processing' && (
+            <button
+              onClick={cancelProcessing}
+              style={{
+                marginLeft: '8px',
+                padding: '4px 12px',
+                backgroundColor: '#f5f5f5',
+                color: '#666',
+                border: '1px solid #ddd',
+                borderRadius: '6px',
+                fontSize: '13px',
+                cursor: 'pointer',
+              }}
+            >
+              キャンセル
+            </button>
+          )}
         </div>
       )}
 
@@ -598,4 +1010,147 @@ export function Capture({ onCapture, onError, className = '' }: CaptureProps) {
       </style>
     </div>
   );
+}
+
+/**
+ * User-facing message for timeout, network and unsupported-device errors, tagged with the code.
+ * MediaPipe errors are plain objects, so the code is read structurally.
+ */
+function describeDetectorError(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (!isMediaPipeErrorCode(code)) return undefined;
+
+  const message = DETECTOR_ERROR_MESSAGES[code];
+  return message === null ? undefined : `${message}（エラーコード: ${code}）`;
+}
+
+/**
+ * Collect quality-checked frames from the live stream until enough are gathered or time runs out
+ */
+function collectFrameSamples(
+  stream: LandmarkStream,
+  video: HTMLVideoElement,
+  qualityValidator: QualityValidator,
+  metricsCalculator: FacialMetricsCalculator,
+  engine: AnalysisEngine | null,
+  onProgress: (count: number) => void
+): Promise<FrameSample[]> {
+  return new Promise(resolve => {
+    const samples: FrameSample[] = [];
+    const abortController = new AbortController();
+    let isSampling = false;
+    let isDone = false;
+
+    const finish = (): void => {
+      if (isDone) return;
+      isDone = true;
+      unsubscribe();
+      clearTimeout(timeoutId);
+      abortController.abort();
+      resolve(samples);
+    };
+
+    // Frames that arrive while the previous one is still being checked are skipped.
+    // Raw detections are sampled: the median already removes jitter, and smoothing would lag the image
+    const unsubscribe = stream.subscribe(frame => {
+      const face = frame.rawPrimaryFace;
+      if (face === null || isSampling || isDone) return;
+
+      isSampling = true;
+      const context: SampleContext = {
+        videoTime: frame.videoTime,
+        faceCount: frame.faces.length,
+        qualityValidator,
+        metricsCalculator,
+        engine,
+        signal: abortController.signal,
+      };
+      sampleFrame(video, face, context)
+        .then(sample => {
+          if (sample === null) return;
+          if (isDone) {
+            sample.frame.close();
+            return;
+          }
+          samples.push(sample);
+          onProgress(samples.length);
+          if (samples.length >= AGGREGATION_FRAME_COUNT) finish();
+        })
+        .catch((error: unknown) => {
+          if (!abortController.signal.aborted) console.warn('Skipping burst frame:', error);
+        })
+        .finally(() => {
+          isSampling = false;
+        });
+    });
+    const timeoutId = setTimeout(finish, AGGREGATION_TIMEOUT_MS);
+  });
+}
+
+interface SampleContext {
+  readonly videoTime: number;
+  readonly faceCount: number;
+  readonly qualityValidator: QualityValidator;
+  readonly metricsCalculator: FacialMetricsCalculator;
+  readonly engine: AnalysisEngine | null;
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Snapshot the video frame the face was detected in and measure it, or return null when the video
+ * has already moved on to a later frame or the frame fails the quality check.
+ * Pixel quality is measured in the worker when it runs, so a burst does not block the main thread,
+ * and the snapshot's pixels are read back only for the frame the burst keeps.
+ */
+async function sampleFrame(
+  video: HTMLVideoElement,
+  face: DetectedFace,
+  context: SampleContext
+): Promise<FrameSample | null> {
+  // Landmarks from one frame must not be paired with the pixels of the next
+  if (video.currentTime !== context.videoTime) return null;
+
+  const frame = await createImageBitmap(video);
+  try {
+    const imageQuality = await measureFrameQuality(frame, context);
+
+    const qualityCheck = context.qualityValidator.validateImage(frame, face.landmarks, {
+      faceCount: context.faceCount,
+      transformationMatrix: face.transformationMatrix,
+      ...(imageQuality !== undefined && { imageQuality }),
+    });
+    if (!qualityCheck.isValid) {
+      frame.close();
+      return null;
+    }
+
+    const features = context.metricsCalculator.calculateFacialFeatures(face.landmarks, {
+      transformationMatrix: face.transformationMatrix,
+      aspectRatio: getFrameAspectRatio(frame),
+    });
+
+    return { frame, face, qualityCheck, features };
+  } catch (error) {
+    frame.close();
+    throw error;
+  }
+}
+
+/**
+ * Pixel quality of a snapshot from the worker, or undefined to measure it on the main thread
+ * when there is no worker or it failed
+ */
+async function measureFrameQuality(
+  frame: ImageBitmap,
+  context: SampleContext
+): Promise<ImageQualityMetrics | undefined> {
+  if (context.engine === null) return undefined;
+
+  try {
+    return await context.engine.measureQuality(await createImageBitmap(frame), { signal: context.signal });
+  } catch (error) {
+    if (context.signal.aborted) throw error;
+    console.warn('Worker quality check failed, measuring on main thread:', error);
+    return undefined;
+  }
 }
\ No newline at end of file
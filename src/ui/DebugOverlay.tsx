@@ -4,10 +4,13 @@
  */
 
 import { useRef, useEffect, useState } from 'react';
-import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { NormalizedLandmark, LandmarkFrame, Category } from '@/types/mediapipe';
 import type { QualityCheckResult } from '@/types/quality';
 import type { FacialFeatures, QualityScores } from '@/types/metrics';
-import { LANDMARK_INDICES } from '@/lib/mediapipe';
+import { LANDMARK_INDICES } from '@/lib/landmarkRegions';
+import { extractIrises } from '@/lib/iris';
+import { LOW_CONFIDENCE_THRESHOLD } from '@/lib/metrics';
+import type { LandmarkStream } from '@/lib/landmarkStream';
 
 interface DebugOverlayProps {
   readonly imageData?: ImageData;
@@ -15,17 +18,33 @@ interface DebugOverlayProps {
   readonly qualityCheck?: QualityCheckResult;
   readonly features?: FacialFeatures;
   readonly scores?: QualityScores;
+  readonly blendshapes?: readonly Category[];
   readonly className?: string;
 }
 
 type VisualizationMode = 'landmarks' | 'features' | 'quality' | 'metrics';
 
+type LivePointMode = 'smoothed' | 'raw' | 'both';
+
+// Raw points are red and smoothed points green, so 'both' shows how much the filter moves them
+const LIVE_POINT_MODES: readonly { readonly mode: LivePointMode; readonly label: string }[] = [
+  { mode: 'smoothed', label: '平滑化' },
+  { mode: 'raw', label: '生データ' },
+  { mode: 'both', label: '比較' },
+];
+
+interface LiveDebugOverlayProps {
+  readonly stream: LandmarkStream | null;
+  readonly className?: string;
+}
+
 export function DebugOverlay({
   imageData,
   landmarks = [],
   qualityCheck,
   features,
   scores,
+  blendshapes = [],
   className = '',
 }: DebugOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -142,8 +161,27 @@ export function DebugOverlay({
 
     drawLandmarkGroup(LANDMARK_INDICES.LEFT_EYE, '#00ff00', 'L.Eye');
     drawLandmarkGroup(LANDMARK_INDICES.RIGHT_EYE, '#00ff00', 'R.Eye');
+    drawLandmarkGroup(LANDMARK_INDICES.LEFT_EYEBROW, '#8bc34a', 'L.Brow');
+    drawLandmarkGroup(LANDMARK_INDICES.RIGHT_EYEBROW, '#8bc34a', 'R.Brow');
     drawLandmarkGroup(LANDMARK_INDICES.NOSE_TIP, '#ffff00', 'Nose');
     drawLandmarkGroup(LANDMARK_INDICES.CHIN, '#ff00ff', 'Chin');
+    drawLandmarkGroup(
+      [...LANDMARK_INDICES.LIPS_UPPER_OUTER, ...[...LANDMARK_INDICES.LIPS_LOWER_OUTER].reverse()],
+      '#ff5252',
+      'Lips'
+    );
+
+    // Iris circles are only available from the 478-point mesh
+    const irises = extractIrises(landmarks);
+    if (irises !== null) {
+      ctx.strokeStyle = '#00bcd4';
+      ctx.lineWidth = 2;
+      for (const iris of [irises.left, irises.right]) {
+        ctx.beginPath();
+        ctx.arc(iris.center.x * width, iris.center.y * height, (iris.diameter / 2) * width, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+    }
   };
 
   const drawFeatureOverlays = (
@@ -159,11 +197,18 @@ export function DebugOverlay({
 
     let yOffset = 30;
 
+    // Pose correction applied before measuring
+    const alignmentText = `Pose Corrected: ${features.alignment.angle.toFixed(1)}° (${features.alignment.method})`;
+    ctx.strokeText(alignmentText, 10, yOffset);
+    ctx.fillText(alignmentText, 10, yOffset);
+    yOffset += 30;
+
     // Eye metrics
     const eyeText = [
       `Left Eye: ${features.eyes.leftEye.width.toFixed(3)} x ${features.eyes.leftEye.height.toFixed(3)}`,
       `Right Eye: ${features.eyes.rightEye.width.toFixed(3)} x ${features.eyes.rightEye.height.toFixed(3)}`,
-      `IPD: ${features.eyes.interPupillaryDistance.toFixed(3)}`,
+      `IPD: ${features.eyes.interPupillaryDistance.toFixed(3)} (${features.eyes.interPupillaryDistanceSource})`,
+      ...(features.eyes.irisDiameter !== null ? [`Iris: ${features.eyes.irisDiameter.toFixed(3)}`] : []),
       `Eye Symmetry: ${features.eyes.eyeSymmetry.toFixed(3)}`,
     ];
 
@@ -175,6 +220,23 @@ export function DebugOverlay({
 
     yOffset += 10;
 
+    // Brow metrics
+    const browText = [
+      `Brow Arch: ${features.brows.leftBrow.archRatio.toFixed(3)} / ${features.brows.rightBrow.archRatio.toFixed(3)}`,
+      `Brow Peak: ${features.brows.leftBrow.peakOffset.toFixed(2)} / ${features.brows.rightBrow.peakOffset.toFixed(2)}`,
+      `Brow Tilt: ${features.brows.leftBrow.tilt.toFixed(1)}° / ${features.brows.rightBrow.tilt.toFixed(1)}°`,
+      `Brow-Eye: ${features.brows.leftBrow.browEyeRatio.toFixed(3)} / ${features.brows.rightBrow.browEyeRatio.toFixed(3)}`,
+      `Brow Symmetry: ${features.brows.symmetry.toFixed(3)}`,
+    ];
+
+    browText.forEach(text => {
+      ctx.strokeText(text, 10, yOffset);
+      ctx.fillText(text, 10, yOffset);
+      yOffset += 20;
+    });
+
+    yOffset += 10;
+
     // Nose metrics
     const noseText = [
       `Nose Width: ${features.nose.width.toFixed(3)}`,
@@ -204,6 +266,37 @@ export function DebugOverlay({
       ctx.fillText(text, 10, yOffset);
       yOffset += 20;
     });
+
+    yOffset += 10;
+
+    // Mouth metrics
+    const mouthText = [
+      `Mouth Width: ${features.mouth.width.toFixed(3)} (${features.mouth.widthToIpdRatio.toFixed(2)} × IPD)`,
+      `Lip Ratio: ${features.mouth.lipRatio.toFixed(3)}`,
+      `Cupid's Bow: ${features.mouth.cupidsBowSymmetry.toFixed(3)}`,
+      `Commissure Tilt: ${features.mouth.commissureTilt.toFixed(1)}°`,
+    ];
+
+    mouthText.forEach(text => {
+      ctx.strokeText(text, 10, yOffset);
+      ctx.fillText(text, 10, yOffset);
+      yOffset += 20;
+    });
+
+    yOffset += 10;
+
+    // Proportion metrics
+    const proportionText = [
+      `Thirds: ${features.proportions.thirds.map(third => third.toFixed(2)).join(' / ')}`,
+      `Fifths: ${features.proportions.fifths.map(fifth => fifth.toFixed(2)).join(' / ')}`,
+      `Face Ratio: ${features.proportions.faceRatio.toFixed(3)}`,
+    ];
+
+    proportionText.forEach(text => {
+      ctx.strokeText(text, 10, yOffset);
+      ctx.fillText(text, 10, yOffset);
+      yOffset += 20;
+    });
   };
 
   const drawQualityOverlays = (
@@ -321,21 +414,24 @@ export function DebugOverlay({
     ctx.fillText('Analysis Scores', width / 2, height - scoreHeight + 25);
 
     // Draw individual scores
-    const scoreWidth = width / 4;
+    const scoreWidth = width / 7;
     const scoreData = [
-      { label: 'Eyes', score: scores.eyes, color: '#2196f3' },
-      { label: 'Nose', score: scores.nose, color: '#4caf50' },
-      { label: 'Jaw', score: scores.jaw, color: '#ff9800' },
-      { label: 'Overall', score: scores.overall, color: '#9c27b0' },
+      { label: 'Eyes', score: scores.eyes, confidence: scores.confidence.eyes, color: '#2196f3' },
+      { label: 'Brows', score: scores.brows, confidence: scores.confidence.brows, color: '#8bc34a' },
+      { label: 'Nose', score: scores.nose, confidence: scores.confidence.nose, color: '#4caf50' },
+      { label: 'Jaw', score: scores.jaw, confidence: scores.confidence.jaw, color: '#ff9800' },
+      { label: 'Mouth', score: scores.mouth, confidence: scores.confidence.mouth, color: '#ff5252' },
+      { label: 'Ratio', score: scores.proportions, confidence: scores.confidence.proportions, color: '#009688' },
+      { label: 'Overall', score: scores.overall, confidence: scores.confidence.overall, color: '#9c27b0' },
     ];
 
     scoreData.forEach((item, index) => {
       const x = scoreWidth * index + scoreWidth / 2;
       const y = height - 45;
 
-      // Draw score circle
+      // Draw score circle, greyed out when the score should not be trusted
       const radius = 15;
-      ctx.fillStyle = item.color;
+      ctx.fillStyle = item.confidence < LOW_CONFIDENCE_THRESHOLD ? '#9e9e9e' : item.color;
       ctx.beginPath();
       ctx.arc(x, y, radius, 0, 2 * Math.PI);
       ctx.fill();
@@ -445,8 +541,8 @@ export function DebugOverlay({
               
               {scores && (
                 <div style={{ marginBottom: '10px' }}>
-                  <strong>Scores:</strong> Eye: {scores.eyes}, Nose: {scores.nose}, 
-                  Jaw: {scores.jaw}, Overall: {scores.overall}
+                  <strong>Scores:</strong> Eye: {scores.eyes}, Brows: {scores.brows}, Nose: {scores.nose}, 
+                  Jaw: {scores.jaw}, Mouth: {scores.mouth}, Proportions: {scores.proportions}, Overall: {scores.overall}
                 </div>
               )}
               
@@ -454,9 +550,36 @@ export function DebugOverlay({
                 <div>
                   <strong>Features:</strong>
                   <div style={{ marginLeft: '10px', marginTop: '5px' }}>
-                    <div>IPD: {features.eyes.interPupillaryDistance.toFixed(4)}</div>
+                    <div>
+                      Pose Corrected: {features.alignment.angle.toFixed(1)}° ({features.alignment.method}) |
+                      Y/P/R: {features.alignment.yaw.toFixed(1)}/{features.alignment.pitch.toFixed(1)}/{features.alignment.roll.toFixed(1)}
+                    </div>
+                    <div>IPD: {features.eyes.interPupillaryDistance.toFixed(4)} ({features.eyes.interPupillaryDistanceSource})</div>
+                    {features.eyes.irisDiameter !== null && (
+                      <div>Iris: {features.eyes.irisDiameter.toFixed(4)}</div>
+                    )}
+                    <div>Brow-Eye L/R: {features.brows.leftBrow.browEyeRatio.toFixed(3)}/{features.brows.rightBrow.browEyeRatio.toFixed(3)}</div>
                     <div>Nose W/L: {features.nose.width.toFixed(4)}/{features.nose.length.toFixed(4)}</div>
                     <div>Jaw W/A: {features.jaw.width.toFixed(4)}/{features.jaw.angle.toFixed(1)}°</div>
+                    <div>Lips U/L: {features.mouth.upperLipHeight.toFixed(4)}/{features.mouth.lowerLipHeight.toFixed(4)}</div>
+                    <div>Thirds: {features.proportions.thirds.map(third => third.toFixed(2)).join(' / ')}</div>
+                    <div>Fifths: {features.proportions.fifths.map(fifth => fifth.toFixed(2)).join(' / ')}</div>
+                  </div>
+                </div>
+              )}
+
+              {blendshapes.length > 0 && (
+                <div style={{ marginTop: '10px' }}>
+                  <strong>Blendshapes (top 5):</strong>
+                  <div style={{ marginLeft: '10px', marginTop: '5px' }}>
+                    {[...blendshapes]
+                      .sort((a, b) => b.score - a.score)
+                      .slice(0, 5)
+                      .map(category => (
+                        <div key={category.index}>
+                          {category.categoryName}: {category.score.toFixed(3)}
+                        </div>
+                      ))}
                   </div>
                 </div>
               )}
@@ -477,4 +600,121 @@ export function DebugOverlay({
       )}
     </div>
   );
+}
+
+/**
+ * Live overlay drawn on top of the camera preview from streamed landmark frames
+ */
+export function LiveDebugOverlay({ stream, className = '' }: LiveDebugOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [faceCount, setFaceCount] = useState(0);
+  const [pointMode, setPointMode] = useState<LivePointMode>('smoothed');
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (stream === null || canvas === null) return;
+
+    const drawFrame = (frame: LandmarkFrame): void => {
+      const ctx = canvas.getContext('2d');
+      if (ctx === null) return;
+
+      // Match the backing store to the displayed size so points line up with the video
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.clearRect(0, 0, width, height);
+
+      frame.faces.forEach(face => {
+        const isPrimary = face === frame.primaryFace;
+
+        if (!isPrimary) {
+          const box = face.boundingBox;
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+          ctx.lineWidth = 1;
+          ctx.strokeRect(box.left * width, box.top * height, box.width * width, box.height * height);
+          return;
+        }
+
+        const drawPoints = (landmarks: readonly NormalizedLandmark[], color: string): void => {
+          ctx.fillStyle = color;
+          landmarks.forEach(landmark => {
+            ctx.fillRect(landmark.x * width - 1, landmark.y * height - 1, 2, 2);
+          });
+        };
+
+        if (pointMode !== 'smoothed' && frame.rawPrimaryFace !== null) {
+          drawPoints(frame.rawPrimaryFace.landmarks, 'rgba(255, 82, 82, 0.7)');
+        }
+        if (pointMode !== 'raw') {
+          drawPoints(face.landmarks, 'rgba(0, 255, 0, 0.7)');
+        }
+      });
+
+      setFaceCount(frame.faces.length);
+    };
+
+    const unsubscribe = stream.subscribe(drawFrame);
+
+    return () => {
+      unsubscribe();
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      setFaceCount(0);
+    };
+  }, [stream, pointMode]);
+
+  return (
+    <div className={`live-debug-overlay ${className}`} style={{
+      position: 'absolute',
+      inset: 0,
+      pointerEvents: 'none',
+    }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: '100%', display: 'block' }}
+      />
+      {stream !== null && (
+        <div style={{
+          position: 'absolute',
+          top: '8px',
+          left: '8px',
+          padding: '4px 8px',
+          backgroundColor: faceCount > 0 ? 'rgba(76, 175, 80, 0.85)' : 'rgba(0, 0, 0, 0.6)',
+          color: 'white',
+          borderRadius: '4px',
+          fontSize: '12px',
+        }}>
+          {faceCount > 0 ? `顔を検出中 (${faceCount})` : '顔が見つかりません'}
+        </div>
+      )}
+      {stream !== null && (
+        <div style={{
+          position: 'absolute',
+          top: '8px',
+          right: '8px',
+          display: 'flex',
+          pointerEvents: 'auto',
+        }}>
+          {LIVE_POINT_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setPointMode(mode)}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                border: 'none',
+                backgroundColor: pointMode === mode ? 'rgba(33, 150, 243, 0.9)' : 'rgba(0, 0, 0, 0.6)',
+                color: 'white',
+                cursor: 'pointer',
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+/**
+ * Face selector component for group photos
+ * Lets the user tap or pick which detected face should be analyzed
+ */
+
+import { useRef, useEffect, useCallback } from 'react';
+import type { DetectedFace, FaceSelectionPolicy } from '@/types/mediapipe';
+import { selectPrimaryFace } from '@/lib/faceSelection';
+
+interface FaceSelectorProps {
+  readonly image: HTMLImageElement;
+  readonly faces: readonly DetectedFace[];
+  readonly onSelect: (face: DetectedFace) => void;
+  readonly onCancel?: () => void;
+  readonly className?: string;
+}
+
+const FACE_COLORS = ['#2196f3', '#4caf50', '#ff9800', '#9c27b0', '#f44336'] as const;
+
+export function FaceSelector({ image, faces, onSelect, onCancel, className = '' }: FaceSelectorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas === null) return;
+
+    const ctx = canvas.getContext('2d');
+    if (ctx === null) return;
+
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    ctx.drawImage(image, 0, 0);
+
+    // Outline each detected face with a numbered box
+    faces.forEach((face, i) => {
+      const color = FACE_COLORS[i % FACE_COLORS.length] ?? '#2196f3';
+      const box = face.boundingBox;
+      const x = box.left * canvas.width;
+      const y = box.top * canvas.height;
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = Math.max(2, canvas.width / 300);
+      ctx.strokeRect(x, y, box.width * canvas.width, box.height * canvas.height);
+
+      ctx.fillStyle = color;
+      ctx.font = `bold ${Math.max(14, Math.round(canvas.width / 40))}px Arial`;
+      ctx.fillText(`${i + 1}`, x + 4, y - 6);
+    });
+  }, [image, faces]);
+
+  const selectByPolicy = useCallback((policy: FaceSelectionPolicy): void => {
+    const face = selectPrimaryFace(faces, policy);
+    if (face !== undefined) {
+      onSelect(face);
+    }
+  }, [faces, onSelect]);
+
+  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>): void => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    selectByPolicy({
+      type: 'point',
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    });
+  }, [selectByPolicy]);
+
+  return (
+    <div className={`face-selector ${className}`} style={{ textAlign: 'center' }}>
+      <div style={{ fontSize: '14px', color: '#333', marginBottom: '12px' }}>
+        👥 {faces.length}人の顔が検出されました。解析する顔をタップしてください。
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        onClick={handleCanvasClick}
+        style={{
+          maxWidth: '100%',
+          height: 'auto',
+          borderRadius: '12px',
+          cursor: 'pointer',
+          display: 'block',
+          margin: '0 auto',
+        }}
+      />
+
+      <div style={{
+        marginTop: '12px',
+        display: 'flex',
+        gap: '8px',
+        justifyContent: 'center',
+        flexWrap: 'wrap',
+      }}>
+        {faces.map((face, i) => (
+          <button
+            key={face.index}
+            onClick={() => onSelect(face)}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: FACE_COLORS[i % FACE_COLORS.length],
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            顔 {i + 1}
+          </button>
+        ))}
+        <button
+          onClick={() => selectByPolicy({ type: 'largest' })}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: '#f5f5f5',
+            color: '#333',
+            border: '1px solid #ddd',
+            borderRadius: '6px',
+            fontSize: '12px',
+            cursor: 'pointer',
+          }}
+        >
+          最も大きい顔
+        </button>
+        <button
+          onClick={() => selectByPolicy({ type: 'most_centered' })}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: '#f5f5f5',
+            color: '#333',
+            border: '1px solid #ddd',
+            borderRadius: '6px',
+            fontSize: '12px',
+            cursor: 'pointer',
+          }}
+        >
+          中央の顔
+        </button>
+        {onCancel !== undefined && (
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: '#f44336',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            キャンセル
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
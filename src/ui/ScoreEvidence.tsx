@@ -0,0 +1,136 @@
+/**
+ * Score evidence component
+ * Expandable "根拠を見る" panels listing the sub-metrics behind each feature score
+ */
+
+import { useState } from 'react';
+import type { ScoredFeature, ScoreExplanation, ScoringCurveType, SubMetricEvidence } from '@/types/metrics';
+
+interface ScoreEvidenceProps {
+  readonly explanation: ScoreExplanation;
+  readonly className?: string;
+}
+
+const FEATURE_LABELS: Record<ScoredFeature, string> = {
+  eyes: '目',
+  brows: '眉',
+  nose: '鼻',
+  jaw: '顎',
+  mouth: '口',
+  proportions: '顔の比率',
+};
+
+const METRIC_LABELS: Readonly<Record<string, string>> = {
+  aspectRatio: '縦横比',
+  symmetry: '左右比',
+  tilt: '傾き (°)',
+  archRatio: 'アーチの高さ比',
+  peakOffset: '眉山の位置',
+  browEyeRatio: '眉と目の距離比',
+  widthRatio: '鼻幅比',
+  projection: '鼻の長さ比',
+  angle: '下顎角 (°)',
+  chinRatio: '顎幅比',
+  asymmetry: '左右比',
+  lipRatio: '上下唇比',
+  widthToIpd: '口幅 / 瞳孔間距離',
+  cupidsBowSymmetry: '山型の左右比',
+  commissureTilt: '口角の傾き (°)',
+  thirdsDeviation: '三分割のずれ',
+  fifthsDeviation: '五分割のずれ',
+  faceRatio: '縦横比',
+};
+
+const CURVE_LABELS: Record<ScoringCurveType, string> = {
+  step: '段階',
+  gaussian: 'ガウス',
+  logistic: 'ロジスティック',
+  linear: '線形',
+};
+
+export function ScoreEvidence({ explanation, className = '' }: ScoreEvidenceProps) {
+  const [expanded, setExpanded] = useState<ReadonlySet<ScoredFeature>>(new Set());
+
+  const toggle = (feature: ScoredFeature): void => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(feature)) {
+        next.delete(feature);
+      } else {
+        next.add(feature);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className={`score-evidence ${className}`} style={{
+      marginTop: '20px',
+      padding: '15px',
+      backgroundColor: '#f5f5f5',
+      borderRadius: '8px',
+    }}>
+      <h3>スコアの根拠</h3>
+
+      {Object.values(explanation).map(({ feature, score, subMetrics }) => (
+        <div key={feature} style={{ borderTop: '1px solid #ddd', padding: '8px 0' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span>{FEATURE_LABELS[feature]}: <strong>{Math.round(score)}</strong>/100</span>
+            <button
+              onClick={() => toggle(feature)}
+              aria-expanded={expanded.has(feature)}
+              style={{
+                padding: '4px 10px',
+                fontSize: '12px',
+                border: '1px solid #2196f3',
+                borderRadius: '4px',
+                backgroundColor: expanded.has(feature) ? '#2196f3' : 'white',
+                color: expanded.has(feature) ? 'white' : '#2196f3',
+                cursor: 'pointer',
+              }}
+            >
+              {expanded.has(feature) ? '閉じる' : '根拠を見る'}
+            </button>
+          </div>
+
+          {expanded.has(feature) && <EvidenceTable subMetrics={subMetrics} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EvidenceTable({ subMetrics }: { readonly subMetrics: readonly SubMetricEvidence[] }) {
+  return (
+    <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse', marginTop: '8px' }}>
+      <thead>
+        <tr style={{ color: '#666', textAlign: 'right' }}>
+          <th style={{ textAlign: 'left' }}>指標</th>
+          <th>測定値</th>
+          <th>理想範囲</th>
+          <th>曲線</th>
+          <th>偏差</th>
+          <th>重み</th>
+          <th>減点</th>
+        </tr>
+      </thead>
+      <tbody>
+        {subMetrics.map(entry => (
+          <tr key={entry.metric} style={{ textAlign: 'right' }}>
+            <td style={{ textAlign: 'left' }}>{METRIC_LABELS[entry.metric] ?? entry.metric}</td>
+            <td>{entry.value.toFixed(3)}</td>
+            <td>{entry.idealRange[0]} – {entry.idealRange[1]}</td>
+            <td>{CURVE_LABELS[entry.curve.type]}</td>
+            <td style={{ color: entry.deviation > 0 ? '#f44336' : '#4caf50' }}>
+              {(entry.deviation * 100).toFixed(0)}%
+            </td>
+            <td>{entry.weight.toFixed(2)}</td>
+            <td style={{ color: entry.contribution > 0 ? '#f44336' : '#666' }}>
+              −{entry.contribution.toFixed(1)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
\ No newline at end of file
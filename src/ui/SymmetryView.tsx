@@ -0,0 +1,154 @@
+/**
+ * Symmetry view component
+ * Shows the fitted midline, per-region asymmetry and left-left / right-right mirrored composites
+ */
+
+import { useRef, useEffect, useMemo } from 'react';
+import type { NormalizedLandmark } from '@/types/mediapipe';
+import type { SymmetryRegion } from '@/types/symmetry';
+import { analyzeSymmetry, renderMirroredComposites } from '@/lib/symmetry';
+import { LANDMARK_ANCHORS } from '@/lib/landmarkRegions';
+
+interface SymmetryViewProps {
+  readonly imageData: ImageData;
+  readonly landmarks: readonly NormalizedLandmark[];
+  readonly className?: string;
+}
+
+const REGION_LABELS: Record<SymmetryRegion, string> = {
+  eyes: '目',
+  brows: '眉',
+  nose: '鼻',
+  mouth: '口',
+  contour: '輪郭',
+};
+
+// Face-width share above which a region is flagged as noticeably asymmetric
+const NOTICEABLE_ASYMMETRY = 0.02;
+
+export function SymmetryView({ imageData, landmarks, className = '' }: SymmetryViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const analysis = useMemo(
+    () => analyzeSymmetry(landmarks, { aspectRatio: imageData.width / imageData.height }),
+    [landmarks, imageData]
+  );
+
+  const composites = useMemo(() => {
+    if (analysis === null) return null;
+
+    const source = document.createElement('canvas');
+    source.width = imageData.width;
+    source.height = imageData.height;
+    source.getContext('2d')?.putImageData(imageData, 0, 0);
+
+    const { leftLeft, rightRight } = renderMirroredComposites(source, analysis.midline);
+    return { leftLeft: leftLeft.toDataURL('image/jpeg', 0.9), rightRight: rightRight.toDataURL('image/jpeg', 0.9) };
+  }, [analysis, imageData]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas === null || analysis === null) return;
+
+    const ctx = canvas.getContext('2d');
+    if (ctx === null) return;
+
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    ctx.putImageData(imageData, 0, 0);
+
+    // Midline across the whole image
+    const { point, direction } = analysis.midline;
+    const px = point.x * canvas.width;
+    const py = point.y * canvas.height;
+    const reach = canvas.width + canvas.height;
+    ctx.strokeStyle = '#00bcd4';
+    ctx.lineWidth = Math.max(2, canvas.width / 300);
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    ctx.moveTo(px - direction.x * reach, py - direction.y * reach);
+    ctx.lineTo(px + direction.x * reach, py + direction.y * reach);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Each image-left landmark to where its mirrored partner lands
+    const cheekLeft = landmarks[LANDMARK_ANCHORS.LEFT_FACE_EDGE.index];
+    const cheekRight = landmarks[LANDMARK_ANCHORS.RIGHT_FACE_EDGE.index];
+    if (cheekLeft === undefined || cheekRight === undefined) return;
+    const faceWidthPx = Math.hypot(
+      (cheekRight.x - cheekLeft.x) * canvas.width,
+      (cheekRight.y - cheekLeft.y) * canvas.height
+    );
+
+    ctx.strokeStyle = '#ff5252';
+    ctx.lineWidth = 1.5;
+    Object.values(analysis.regions).forEach(region => {
+      region.pairs.forEach(({ pair, vector }) => {
+        const left = landmarks[pair[0]];
+        if (left === undefined) return;
+        const x = left.x * canvas.width;
+        const y = left.y * canvas.height;
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + vector[0] * faceWidthPx, y + vector[1] * faceWidthPx);
+        ctx.stroke();
+      });
+    });
+  }, [analysis, imageData, landmarks]);
+
+  if (analysis === null) {
+    return null;
+  }
+
+  return (
+    <div className={`symmetry-view ${className}`} style={{
+      marginTop: '20px',
+      padding: '15px',
+      backgroundColor: '#f5f5f5',
+      borderRadius: '8px',
+    }}>
+      <h3>左右対称性</h3>
+
+      <canvas
+        ref={canvasRef}
+        style={{ maxWidth: '100%', height: 'auto', borderRadius: '8px', display: 'block', margin: '0 auto' }}
+      />
+
+      <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse', marginTop: '12px' }}>
+        <tbody>
+          {Object.values(analysis.regions).map(region => (
+            <tr key={region.region}>
+              <td>{REGION_LABELS[region.region]}</td>
+              <td style={{
+                textAlign: 'right',
+                color: region.magnitude > NOTICEABLE_ASYMMETRY ? '#f44336' : '#4caf50',
+              }}>
+                {(region.magnitude * 100).toFixed(1)}%
+              </td>
+              <td style={{ textAlign: 'right', color: '#666' }}>
+                最大 {(region.maxMagnitude * 100).toFixed(1)}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ fontSize: '14px', color: '#666', marginTop: '8px' }}>
+        全体: {(analysis.overallAsymmetry * 100).toFixed(1)}% (顔幅比) | 正中線の傾き: {analysis.midline.roll.toFixed(1)}°
+      </div>
+
+      {composites !== null && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginTop: '12px' }}>
+          <figure style={{ margin: 0, textAlign: 'center' }}>
+            <img src={composites.leftLeft} alt="画像左側の合成" style={{ maxWidth: '100%', borderRadius: '8px' }} />
+            <figcaption style={{ fontSize: '12px', color: '#666' }}>左 + 左（鏡像）</figcaption>
+          </figure>
+          <figure style={{ margin: 0, textAlign: 'center' }}>
+            <img src={composites.rightRight} alt="画像右側の合成" style={{ maxWidth: '100%', borderRadius: '8px' }} />
+            <figcaption style={{ fontSize: '12px', color: '#666' }}>右 + 右（鏡像）</figcaption>
+          </figure>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+/**
+ * Analysis worker
+ * Runs face detection and pixel quality analysis off the main thread
+ */
+
+/// <reference lib="webworker" />
+
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse, FrameAnalysisResult } from '@/types/worker';
+import type { TasksVisionBindings } from '@/types/mediapipe';
+import type { ImageQualityMetrics } from '@/types/quality';
+import { MediaPipeFaceLandmarker, isMediaPipeErrorCode } from '@/lib/mediapipe';
+import { analyzePixelQuality } from '@/lib/imageQuality';
+import { readFramePixels } from '@/lib/frameSource';
+import { loadTasksVision } from '@/lib/tasksVision';
+
+declare const self: DedicatedWorkerGlobalScope & { ModuleFactory?: unknown };
+
+let landmarker: MediaPipeFaceLandmarker | null = null;
+let queue: Promise<void> = Promise.resolve();
+// Frame requests received but not yet answered; cancelling any other id is a no-op
+const activeRequests = new Map<number, { cancelled: boolean }>();
+const preloadedLoaders = new Set<string>();
+
+installImportScriptsShim();
+
+self.addEventListener('message', (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+
+  // Cancellation must not wait behind the work it cancels
+  if (request.type === 'cancel') {
+    const active = activeRequests.get(request.id);
+    if (active !== undefined) active.cancelled = true;
+    return;
+  }
+
+  if (request.type !== 'initialize') {
+    activeRequests.set(request.id, { cancelled: false });
+  }
+  queue = queue.then(() => handleRequest(request));
+});
+
+async function handleRequest(request: Exclude<AnalysisWorkerRequest, { type: 'cancel' }>): Promise<void> {
+  try {
+    switch (request.type) {
+      case 'initialize': {
+        landmarker?.dispose();
+        landmarker = new MediaPipeFaceLandmarker(request.options, { loadTasksVision: loadWorkerTasksVision });
+        await landmarker.initialize();
+        respond({ type: 'initialized', id: request.id, capabilities: landmarker.getCapabilities() });
+        break;
+      }
+      case 'analyze': {
+        if (isCancelled(request.id)) {
+          request.bitmap.close();
+          return;
+        }
+
+        const result = await analyzeBitmap(request.bitmap);
+        if (!isCancelled(request.id)) {
+          respond({ type: 'result', id: request.id, result });
+        }
+        break;
+      }
+      case 'measure': {
+        if (isCancelled(request.id)) {
+          request.bitmap.close();
+          return;
+        }
+
+        respond({ type: 'measured', id: request.id, imageQuality: measureBitmap(request.bitmap) });
+        break;
+      }
+    }
+  } catch (error) {
+    if (isCancelled(request.id)) return;
+
+    // MediaPipe errors are plain objects, so read code and message structurally
+    const details = error as { code?: unknown; message?: unknown } | null;
+    const code = details?.code;
+    respond({
+      type: 'error',
+      id: request.id,
+      code: isMediaPipeErrorCode(code) ? code : 'WORKER_FAILED',
+      message: typeof details?.message === 'string' ? details.message : String(error),
+    });
+  } finally {
+    activeRequests.delete(request.id);
+  }
+}
+
+function isCancelled(id: number): boolean {
+  return activeRequests.get(id)?.cancelled ?? false;
+}
+
+async function analyzeBitmap(bitmap: ImageBitmap): Promise<FrameAnalysisResult> {
+  const startedAt = performance.now();
+
+  try {
+    if (landmarker === null) {
+      throw new Error('Analysis worker used before initialization');
+    }
+
+    const faces = await landmarker.detectFaces(bitmap);
+
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      faces,
+      imageQuality: measurePixels(bitmap),
+      durationMs: performance.now() - startedAt,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+function measureBitmap(bitmap: ImageBitmap): ImageQualityMetrics {
+  try {
+    return measurePixels(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+function measurePixels(bitmap: ImageBitmap): ImageQualityMetrics {
+  const imageData = readFramePixels(bitmap);
+  return analyzePixelQuality(imageData.data, bitmap.width, bitmap.height);
+}
+
+function respond(response: AnalysisWorkerResponse): void {
+  self.postMessage(response);
+}
+
+/**
+ * Package bindings that preload the WASM loader before MediaPipe asks for it
+ */
+async function loadWorkerTasksVision(): Promise<TasksVisionBindings> {
+  const tasksVision = await loadTasksVision();
+  return {
+    resolveWasmFileset: basePath => tasksVision.resolveWasmFileset(basePath),
+    createFaceLandmarker: async (wasmFileset, config) => {
+      await preloadWasmLoader(wasmFileset.wasmLoaderPath);
+      return tasksVision.createFaceLandmarker(wasmFileset, config);
+    },
+  };
+}
+
+/**
+ * Import the WASM loader as a module and publish its ModuleFactory on the worker global.
+ * The loader is a classic script declaring a global ModuleFactory, so it is exported on the way in.
+ */
+async function preloadWasmLoader(url: string): Promise<void> {
+  if (preloadedLoaders.has(url)) return;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load worker script ${url}: ${response.status}`);
+  }
+
+  const source = `${await response.text()}\nexport default ModuleFactory;\n`;
+  const moduleUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  try {
+    const loader = await import(/* @vite-ignore */ moduleUrl) as { default: unknown };
+    self.ModuleFactory = loader.default;
+    preloadedLoaders.add(url);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+}
+
+/**
+ * Module workers reject importScripts, which MediaPipe calls to load its WASM loader.
+ * The loader is already imported by then, so the shim only checks that it was.
+ */
+function installImportScriptsShim(): void {
+  self.importScripts = (...urls: string[]): void => {
+    for (const url of urls) {
+      if (!preloadedLoaders.has(url)) {
+        throw new Error(`Worker script ${url} was not preloaded`);
+      }
+    }
+  };
+}
\ No newline at end of file
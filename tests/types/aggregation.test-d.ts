@@ -0,0 +1,41 @@
+/**
+ * Type definition tests for multi-frame feature aggregation
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  AggregatedFeatures,
+  AggregationError,
+  AggregationOptions,
+  MetricSpread,
+} from '../../src/types/aggregation';
+import type { FacialFeatures } from '../../src/types/metrics';
+import { aggregateFacialFeatures } from '../../src/lib/frameAggregation';
+
+// Aggregation function tests
+declare const frames: readonly FacialFeatures[];
+expectType<AggregatedFeatures>(aggregateFacialFeatures(frames));
+expectType<AggregatedFeatures>(aggregateFacialFeatures(frames, { outlierThreshold: 3, maxOutlierShare: 0.2 }));
+expectError(aggregateFacialFeatures(frames[0]));
+expectError(aggregateFacialFeatures(frames, { outlierThreshold: '3' }));
+
+// Options type tests
+expectAssignable<AggregationOptions>({});
+expectAssignable<AggregationOptions>({ outlierThreshold: 3.5 });
+expectNotAssignable<AggregationOptions>({ outlierThreshold: undefined });
+
+// Result type tests
+declare const aggregated: AggregatedFeatures;
+expectType<FacialFeatures>(aggregated.features);
+expectType<readonly number[]>(aggregated.rejectedFrames);
+expectType<number>(aggregated.representativeFrame);
+expectType<MetricSpread | undefined>(aggregated.spread['nose.width']);
+expectError(aggregated.rejectedFrames.push(1));
+
+declare const spread: MetricSpread;
+expectType<number>(spread.median);
+expectType<number>(spread.mad);
+expectType<number>(spread.variance);
+
+declare const error: AggregationError;
+expectType<'INSUFFICIENT_FRAMES'>(error.code);
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Type definition tests for physical-unit calibration
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  CalibratedMeasurements,
+  Calibration,
+  CalibrationError,
+  CalibrationSource,
+  Measurement,
+} from '../../src/types/calibration';
+import type { FacialFeatures } from '../../src/types/metrics';
+import { calibrateFeatures, createCalibration, toMeasurement, IRIS_DIAMETER_MM } from '../../src/lib/calibration';
+
+// Source type tests
+expectAssignable<CalibrationSource>({ type: 'iris' });
+expectAssignable<CalibrationSource>({ type: 'ipd', millimeters: 63 });
+expectAssignable<CalibrationSource>({
+  type: 'reference',
+  start: { x: 0.1, y: 0.8 },
+  end: { x: 0.4, y: 0.8 },
+  millimeters: 85.6,
+});
+expectNotAssignable<CalibrationSource>({ type: 'ipd' });
+expectNotAssignable<CalibrationSource>({ type: 'reference', millimeters: 85.6 });
+
+// Calibration function tests
+declare const features: FacialFeatures;
+expectType<Calibration | null>(createCalibration(features, { type: 'iris' }));
+expectType<Calibration | null>(createCalibration(features, { type: 'ipd', millimeters: 63 }, 16 / 9));
+expectError(createCalibration(features, { type: 'card' }));
+expectType<11.7>(IRIS_DIAMETER_MM);
+
+declare const calibration: Calibration | null;
+expectType<Measurement>(toMeasurement(0.12, calibration));
+expectType<CalibratedMeasurements>(calibrateFeatures(features, calibration));
+
+// Measurement type tests
+declare const measurements: CalibratedMeasurements;
+expectType<number>(measurements.nose.width.normalized);
+expectType<number | null>(measurements.nose.width.millimeters);
+expectType<number | null>(measurements.eyes.interPupillaryDistance.uncertaintyMm);
+expectType<Measurement | null>(measurements.eyes.irisDiameter);
+
+declare const error: CalibrationError;
+expectType<'INVALID_REFERENCE'>(error.code);
\ No newline at end of file
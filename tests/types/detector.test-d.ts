@@ -0,0 +1,55 @@
+/**
+ * Type definition tests for the pluggable face detector
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  FaceDetector,
+  LandmarkFixture,
+  LandmarkFixtureFace,
+} from '../../src/types/detector';
+import type { DetectedFace, NormalizedLandmark } from '../../src/types/mediapipe';
+import type { FrameSource } from '../../src/types/frame';
+import type { DetectedFaceQuality } from '../../src/types/quality';
+import type { DetectedFaceMetrics } from '../../src/types/metrics';
+import { MediaPipeFaceLandmarker } from '../../src/lib/mediapipe';
+import { FixtureFaceDetector, parseLandmarkFixture, createLandmarkFixture } from '../../src/lib/fixtureDetector';
+import { QualityValidator } from '../../src/lib/quality';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+import { LandmarkStream } from '../../src/lib/landmarkStream';
+
+// Both implementations satisfy the interface
+expectAssignable<FaceDetector>(new MediaPipeFaceLandmarker());
+expectAssignable<FaceDetector>(new FixtureFaceDetector([]));
+expectAssignable<FrameSource>(document.createElement('canvas'));
+expectNotAssignable<FrameSource>('image.png');
+
+declare const detector: FaceDetector;
+declare const input: FrameSource;
+expectType<Promise<readonly DetectedFace[]>>(detector.detectFaces(input));
+expectType<Promise<readonly NormalizedLandmark[]>>(detector.detectLandmarks(input, { type: 'largest' }));
+
+// Fixture type tests
+declare const fixture: LandmarkFixture;
+expectType<string>(fixture.name);
+expectType<number>(fixture.imageWidth);
+expectType<readonly LandmarkFixtureFace[]>(fixture.faces);
+expectType<LandmarkFixture>(parseLandmarkFixture(JSON.parse('{}')));
+
+declare const faces: readonly DetectedFace[];
+expectType<LandmarkFixture>(createLandmarkFixture('frontal', faces, 640, 480));
+expectType<FixtureFaceDetector>(FixtureFaceDetector.fromJson('{}', {}));
+expectType<FixtureFaceDetector>(new FixtureFaceDetector([fixture], { loop: true }));
+expectError(new FixtureFaceDetector([fixture], { loop: 'yes' }));
+
+// Injection type tests
+declare const canvas: HTMLCanvasElement;
+const validator = new QualityValidator(undefined, { detector });
+expectType<Promise<DetectedFaceQuality>>(validator.detectAndValidate(canvas));
+expectType<DetectedFace | null>((await validator.detectAndValidate(canvas)).face);
+
+const calculator = new FacialMetricsCalculator(undefined, undefined, { detector });
+expectType<Promise<DetectedFaceMetrics | null>>(calculator.detectAndCalculate(canvas));
+
+declare const videoElement: HTMLVideoElement;
+expectType<LandmarkStream>(new LandmarkStream(new FixtureFaceDetector([fixture]), videoElement));
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Type definition tests for frame sources and the shared frame accessors
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type { FrameDimensions, FrameSource } from '../../src/types/frame';
+import type { DetectedFace, NormalizedLandmark } from '../../src/types/mediapipe';
+import type { DetectedFaceMetrics } from '../../src/types/metrics';
+import { getFrameAspectRatio, getFrameDimensions, readFramePixels } from '../../src/lib/frameSource';
+import { MediaPipeFaceLandmarker } from '../../src/lib/mediapipe';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+
+// Frame source union tests
+declare const imageBitmap: ImageBitmap;
+declare const offscreenCanvas: OffscreenCanvas;
+declare const videoFrame: VideoFrame;
+declare const imageData: ImageData;
+expectAssignable<FrameSource>(imageBitmap);
+expectAssignable<FrameSource>(offscreenCanvas);
+expectAssignable<FrameSource>(videoFrame);
+expectAssignable<FrameSource>(imageData);
+expectAssignable<FrameSource>(document.createElement('video'));
+expectNotAssignable<FrameSource>(imageData.data);
+expectNotAssignable<FrameSource>(new Blob());
+// The union stays in step with what MediaPipe accepts
+expectAssignable<TexImageSource>({} as FrameSource);
+
+// Accessor tests
+declare const source: FrameSource;
+expectType<FrameDimensions>(getFrameDimensions(source));
+expectType<number>(getFrameDimensions(videoFrame).width);
+expectType<number>(getFrameAspectRatio(offscreenCanvas));
+expectType<ImageData>(readFramePixels(source));
+expectType<Uint8ClampedArray>(readFramePixels(imageBitmap).data);
+expectError(getFrameDimensions('frame.png'));
+expectError(readFramePixels(new Blob()));
+
+declare const dimensions: FrameDimensions;
+expectError(dimensions.width = 640);
+
+// Pipeline entry points accept every frame source
+declare const landmarker: MediaPipeFaceLandmarker;
+declare const calculator: FacialMetricsCalculator;
+expectType<Promise<readonly DetectedFace[]>>(landmarker.detectFaces(videoFrame));
+expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(offscreenCanvas));
+expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(imageData, { type: 'largest' }));
+expectType<Promise<DetectedFaceMetrics | null>>(calculator.detectAndCalculate(imageBitmap));
\ No newline at end of file
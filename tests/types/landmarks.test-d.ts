@@ -0,0 +1,105 @@
+/**
+ * Type definition tests for the canonical landmark region map
+ * The region checks run on the literal index types, so a bad map fails the type check
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  LandmarkAnchor,
+  LandmarkAnchorName,
+  LandmarkRegion,
+  LandmarkRegionIssue,
+  MeshIndex,
+} from '../../src/types/landmarks';
+import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import {
+  LANDMARK_ANCHORS,
+  LANDMARK_INDICES,
+  SHARED_REGION_BOUNDARIES,
+  getAnchorLandmark,
+  validateLandmarkRegions,
+} from '../../src/lib/landmarkRegions';
+
+type Regions = typeof LANDMARK_INDICES;
+type Anchors = typeof LANDMARK_ANCHORS;
+
+// Indices listed more than once in a group
+type Duplicates<T extends readonly number[], Seen = never> =
+  T extends readonly [infer Head, ...infer Rest extends readonly number[]]
+    ? (Head extends Seen ? Head : never) | Duplicates<Rest, Seen | Head>
+    : never;
+
+type SharedPair = (typeof SHARED_REGION_BOUNDARIES)[number];
+type IsShared<A, B> = [A, B] extends SharedPair ? true : [B, A] extends SharedPair ? true : false;
+
+// Indices two regions both list without sharing a boundary
+type CrossRegion = {
+  [A in keyof Regions]: {
+    [B in Exclude<keyof Regions, A>]: IsShared<A, B> extends true ? never : Extract<Regions[A][number], Regions[B][number]>;
+  }[Exclude<keyof Regions, A>];
+}[keyof Regions];
+
+// Anchors whose index is missing from their own region
+type MisplacedAnchors = {
+  [K in keyof Anchors]: Anchors[K]['index'] extends Regions[Anchors[K]['region']][number] ? never : K;
+}[keyof Anchors];
+
+// Mesh index tests
+expectAssignable<MeshIndex>(0);
+expectAssignable<MeshIndex>(477);
+expectNotAssignable<MeshIndex>(478);
+expectNotAssignable<MeshIndex>(-1);
+expectAssignable<readonly MeshIndex[]>(LANDMARK_INDICES.FACE_OUTLINE);
+expectAssignable<readonly MeshIndex[]>(LANDMARK_INDICES.RIGHT_IRIS);
+
+// Duplicate index tests
+declare const duplicateFixture: Duplicates<readonly [18, 175, 199, 175]>;
+expectType<175>(duplicateFixture);
+declare const chinDuplicates: Duplicates<Regions['CHIN']>;
+expectType<never>(chinDuplicates);
+declare const jawDuplicates: Duplicates<[...Regions['JAW_LEFT'], ...Regions['JAW_RIGHT']]>;
+expectType<never>(jawDuplicates);
+declare const regionDuplicates: { [R in keyof Regions]: Duplicates<Regions[R]> }[keyof Regions];
+expectType<never>(regionDuplicates);
+
+// Cross-region tests
+declare const crossRegion: CrossRegion;
+expectType<never>(crossRegion);
+declare const noseOverlap: Extract<Regions['NOSTRIL_LEFT'][number], Regions['NOSE_BRIDGE'][number]>;
+expectType<never>(noseOverlap);
+declare const chinForehead: Extract<Regions['CHIN'][number], Regions['FOREHEAD'][number]>;
+expectType<never>(chinForehead);
+declare const commissures: Extract<Regions['LIPS_UPPER_OUTER'][number], Regions['LIPS_LOWER_OUTER'][number]>;
+expectType<61 | 291>(commissures);
+
+// Anchor tests
+declare const misplacedAnchors: MisplacedAnchors;
+expectType<never>(misplacedAnchors);
+expectType<152>(LANDMARK_ANCHORS.MENTON.index);
+expectType<'CHIN'>(LANDMARK_ANCHORS.MENTON.region);
+expectAssignable<LandmarkAnchor>({ region: 'NOSE_TIP', index: 1 });
+expectNotAssignable<LandmarkAnchor>({ region: 'EAR', index: 1 });
+expectNotAssignable<LandmarkAnchor>({ region: 'NOSE_TIP', index: 500 });
+expectAssignable<LandmarkRegion>('FOREHEAD');
+expectNotAssignable<LandmarkRegion>('JAW');
+expectAssignable<LandmarkAnchorName>('LEFT_GONION');
+expectNotAssignable<LandmarkAnchorName>('CHIN');
+
+declare const landmarks: readonly NormalizedLandmark[];
+expectType<NormalizedLandmark>(getAnchorLandmark(landmarks, 'NOSE_TIP'));
+expectError(getAnchorLandmark(landmarks, 'NOSE'));
+expectError(getAnchorLandmark(landmarks, 1));
+
+// Validator tests
+expectType<LandmarkRegionIssue[]>(validateLandmarkRegions());
+expectType<LandmarkRegionIssue[]>(validateLandmarkRegions({ CUSTOM: [1, 2, 2] }, {}, []));
+expectType<LandmarkRegionIssue[]>(
+  validateLandmarkRegions(LANDMARK_INDICES, { MENTON: { region: 'CHIN', index: 152 } }, [['CHIN', 'FACE_OUTLINE']])
+);
+expectError(validateLandmarkRegions({ CUSTOM: ['1'] }));
+
+declare const issue: LandmarkRegionIssue;
+expectAssignable<LandmarkRegionIssue['type']>('cross_region');
+expectNotAssignable<LandmarkRegionIssue['type']>('unknown');
+expectType<string | undefined>(issue.otherRegion);
+expectError(issue.index = 3);
\ No newline at end of file
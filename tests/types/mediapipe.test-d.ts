@@ -9,14 +9,48 @@ import type {
   MediaPipeConfig,
   FaceLandmarkerOptions,
   MediaPipeError,
+  DetectedFace,
+  FaceBoundingBox,
+  FaceSelectionPolicy,
+  LandmarkFrame,
+  RunningMode,
+  Category,
+  Matrix,
+  MediaPipeAssetManifest,
+  MediaPipeAssetManifestEntry,
+  MediaPipeAssetSource,
+  WasmFileset,
+  Delegate,
+  DelegatePreference,
+  DelegateAttempt,
+  MediaPipeCapabilities,
+  FaceLandmarkerBinding,
+  TasksVisionBindings,
+  RetryPolicy,
+  CancellationOptions,
+  MediaPipeErrorCode,
 } from '../../src/types/mediapipe';
+import type {
+  FaceLandmarker as TasksFaceLandmarker,
+  FaceLandmarkerResult as TasksFaceLandmarkerResult,
+} from '@mediapipe/tasks-vision';
 import {
   MediaPipeFaceLandmarker,
   LANDMARK_INDICES,
   extractLandmarksByIndices,
   calculateDistance,
   calculateAngle,
+  getBlendshapeScore,
+  getMatrixElement,
 } from '../../src/lib/mediapipe';
+import { selectPrimaryFace, calculateFaceBoundingBox } from '../../src/lib/faceSelection';
+import { LandmarkStream } from '../../src/lib/landmarkStream';
+import { LandmarkSmoother } from '../../src/lib/landmarkSmoothing';
+import type { LandmarkSmoothingOptions } from '../../src/lib/landmarkSmoothing';
+import { loadMediaPipeAssets } from '../../src/lib/assets';
+import { resolveDelegateOrder } from '../../src/lib/delegates';
+import { bindFaceLandmarker, loadTasksVision, parseFaceLandmarkerResult } from '../../src/lib/tasksVision';
+import { withTimeout, retryWithBackoff, isCancellationError } from '../../src/lib/cancellation';
 
 // Type tests for interfaces
 declare const landmarkerResult: FaceLandmarkerResult;
@@ -31,7 +65,8 @@ expectType<number | undefined>(landmark.visibility);
 
 // Config type tests
 declare const config: MediaPipeConfig;
-expectType<string>(config.baseOptions.modelAssetPath);
+expectType<string | undefined>(config.baseOptions.modelAssetPath);
+expectType<Uint8Array | undefined>(config.baseOptions.modelAssetBuffer);
 expectType<'CPU' | 'GPU' | undefined>(config.baseOptions.delegate);
 expectType<'IMAGE' | 'VIDEO'>(config.runningMode);
 expectType<number>(config.numFaces);
@@ -42,10 +77,36 @@ declare const options: FaceLandmarkerOptions;
 expectType<string | undefined>(options.wasmLoaderScript);
 expectType<string | undefined>(options.wasmBinaryFile);
 expectType<string | undefined>(options.modelAssetPath);
+expectType<number | undefined>(options.numFaces);
+expectType<FaceSelectionPolicy | undefined>(options.selectionPolicy);
+expectType<RunningMode | undefined>(options.runningMode);
+expectNotAssignable<RunningMode>('LIVE_STREAM');
+expectType<boolean | undefined>(options.outputFaceBlendshapes);
+expectType<boolean | undefined>(options.outputFacialTransformationMatrixes);
+expectType<string | undefined>(options.assetBaseUrl);
+expectType<boolean | undefined>(options.allowRemoteFallback);
+expectType<boolean | undefined>(options.verifyAssetIntegrity);
+expectType<DelegatePreference | undefined>(options.delegate);
+expectAssignable<DelegatePreference>('auto');
+expectNotAssignable<Delegate>('auto');
+
+// Self-hosted asset type tests
+declare const manifest: MediaPipeAssetManifest;
+expectType<string>(manifest.version);
+expectType<MediaPipeAssetManifestEntry | undefined>(manifest.files['wasm/vision_wasm_internal.wasm']);
+expectAssignable<MediaPipeAssetSource>('local');
+expectNotAssignable<MediaPipeAssetSource>('cdn');
+
+declare const resolveFileset: (wasmBasePath: string) => Promise<WasmFileset>;
+const loadedAssets = await loadMediaPipeAssets(options, resolveFileset);
+expectType<WasmFileset>(loadedAssets.wasmFileset);
+expectType<MediaPipeAssetSource>(loadedAssets.source);
+expectType<() => void>(loadedAssets.release);
 
 // Error type tests
 declare const error: MediaPipeError;
-expectType<string>(error.code);
+expectType<MediaPipeErrorCode>(error.code);
+expectNotAssignable<MediaPipeError>({ name: 'MediaPipeError', message: 'failed', code: 'OFFLINE' });
 expectType<string>(error.message);
 expectType<unknown>(error.details);
 
@@ -53,6 +114,15 @@ expectType<unknown>(error.details);
 declare const landmarker: MediaPipeFaceLandmarker;
 expectType<Promise<void>>(landmarker.initialize());
 expectType<void>(landmarker.dispose());
+expectType<MediaPipeCapabilities | null>(landmarker.getCapabilities());
+
+declare const capabilities: MediaPipeCapabilities;
+expectType<Delegate>(capabilities.delegate);
+expectType<boolean>(capabilities.webgl2Available);
+expectType<readonly DelegateAttempt[]>(capabilities.attempts);
+expectType<number>(capabilities.initDurationMs);
+expectType<MediaPipeAssetSource>(capabilities.assetSource);
+expectType<readonly Delegate[]>(resolveDelegateOrder('auto', false));
 
 declare const imageElement: HTMLImageElement;
 expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(imageElement));
@@ -63,6 +133,126 @@ expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(ca
 declare const videoElement: HTMLVideoElement;
 expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(videoElement));
 
+declare const policy: FaceSelectionPolicy;
+expectType<Promise<readonly DetectedFace[]>>(landmarker.detectFaces(imageElement));
+expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(imageElement, policy));
+
+// Timeout, cancellation and retry type tests
+expectType<number | undefined>(options.initTimeoutMs);
+expectType<number | undefined>(options.detectionTimeoutMs);
+expectType<RetryPolicy | undefined>(options.assetRetry);
+expectAssignable<RetryPolicy>({ maxAttempts: 4, initialDelayMs: 250, maxDelayMs: 2000, backoffFactor: 2 });
+expectNotAssignable<RetryPolicy>({ maxAttempts: '4' });
+
+declare const signal: AbortSignal;
+expectAssignable<CancellationOptions>({ signal, timeoutMs: 5000 });
+expectType<Promise<void>>(landmarker.initialize({ signal }));
+expectType<Promise<void>>(landmarker.initialize({ timeoutMs: 120000 }));
+expectType<Promise<readonly DetectedFace[]>>(landmarker.detectFaces(imageElement, { signal, timeoutMs: 2000 }));
+expectType<Promise<readonly NormalizedLandmark[]>>(landmarker.detectLandmarks(imageElement, policy, { signal }));
+expectType<Promise<readonly DetectedFace[]>>(landmarker.detectFacesForVideo(videoElement, 0, { signal, timeoutMs: 500 }));
+expectError(landmarker.initialize({ timeoutMs: '5s' }));
+expectError(landmarker.detectFaces(imageElement, { signal: true }));
+
+expectAssignable<MediaPipeErrorCode>('TIMEOUT');
+expectAssignable<MediaPipeErrorCode>('NETWORK_ERROR');
+expectAssignable<MediaPipeErrorCode>('UNSUPPORTED_DEVICE');
+expectNotAssignable<MediaPipeErrorCode>('OFFLINE');
+
+expectType<Promise<number>>(withTimeout(async () => 1, { operation: 'Test', timeoutMs: 100 }));
+expectType<Promise<string>>(withTimeout(s => Promise.resolve(String(s.aborted)), { operation: 'Test', signal }));
+expectError(withTimeout(async () => 1, { timeoutMs: 100 }));
+expectType<Promise<Response>>(
+  retryWithBackoff(() => fetch('/manifest.json'), { maxAttempts: 3 }, { shouldRetry: () => true })
+);
+expectError(retryWithBackoff(() => fetch('/manifest.json'), {}, {}));
+declare const caught: unknown;
+if (isCancellationError(caught)) {
+  expectType<MediaPipeError>(caught);
+}
+
+// Multi-face detection type tests
+declare const detectedFace: DetectedFace;
+expectType<number>(detectedFace.index);
+expectType<readonly NormalizedLandmark[]>(detectedFace.landmarks);
+expectType<FaceBoundingBox>(detectedFace.boundingBox);
+expectType<number>(detectedFace.confidence);
+expectType<readonly Category[]>(detectedFace.blendshapes);
+expectType<Matrix | null>(detectedFace.transformationMatrix);
+expectType<number>(getBlendshapeScore(detectedFace, 'eyeBlinkLeft'));
+
+declare const matrix: Matrix;
+expectType<number>(getMatrixElement(matrix, 0, 3));
+
+declare const faces: readonly DetectedFace[];
+expectType<DetectedFace | undefined>(selectPrimaryFace(faces));
+expectType<DetectedFace | undefined>(selectPrimaryFace(faces, { type: 'point', x: 0.5, y: 0.5 }));
+expectError(selectPrimaryFace(faces, { type: 'point' })); // point policy requires coordinates
+expectAssignable<FaceSelectionPolicy>({ type: 'largest' });
+expectAssignable<FaceSelectionPolicy>({ type: 'most_centered' });
+expectNotAssignable<FaceSelectionPolicy>({ type: 'leftmost' });
+
+// Video streaming type tests
+expectType<Promise<readonly DetectedFace[]>>(landmarker.detectFacesForVideo(videoElement, 0));
+expectError(landmarker.detectFacesForVideo(imageElement, 0)); // video frames only
+
+declare const frame: LandmarkFrame;
+expectType<number>(frame.timestamp);
+expectType<number>(frame.videoTime);
+expectType<readonly DetectedFace[]>(frame.faces);
+expectType<DetectedFace | null>(frame.primaryFace);
+expectType<DetectedFace | null>(frame.rawPrimaryFace);
+
+declare const stream: LandmarkStream;
+expectType<LandmarkStream>(new LandmarkStream(landmarker, videoElement));
+expectType<() => void>(stream.subscribe((f: LandmarkFrame) => f.timestamp));
+expectType<void>(stream.start());
+expectType<void>(stream.stop());
+expectType<boolean>(stream.isRunning);
+expectType<LandmarkFrame | null>(stream.lastFrame);
+expectType<LandmarkStream>(new LandmarkStream(landmarker, videoElement, { smoothing: false }));
+expectType<LandmarkStream>(new LandmarkStream(landmarker, videoElement, { smoothing: { minCutoff: 0.5, beta: 10 } }));
+expectError(new LandmarkStream(landmarker, videoElement, { smoothing: true }));
+
+// Landmark smoothing type tests
+declare const smoother: LandmarkSmoother;
+declare const rawLandmarks: readonly NormalizedLandmark[];
+expectType<LandmarkSmoother>(new LandmarkSmoother());
+expectType<LandmarkSmoother>(new LandmarkSmoother({ resetDistance: 0.05, maxFrameGap: 250 }));
+expectType<readonly NormalizedLandmark[]>(smoother.smooth(rawLandmarks, 33));
+expectError(smoother.smooth(rawLandmarks));
+expectType<void>(smoother.reset());
+expectAssignable<LandmarkSmoothingOptions>({ derivativeCutoff: 1 });
+expectNotAssignable<LandmarkSmoothingOptions>({ cutoff: 1 });
+
+// tasks-vision adapter type tests
+expectType<Promise<TasksVisionBindings>>(loadTasksVision());
+
+declare const tasksVision: TasksVisionBindings;
+declare const wasmFileset: WasmFileset;
+expectType<Promise<WasmFileset>>(tasksVision.resolveWasmFileset('/mediapipe/wasm'));
+expectType<Promise<FaceLandmarkerBinding>>(tasksVision.createFaceLandmarker(wasmFileset, config));
+expectError(tasksVision.createFaceLandmarker(wasmFileset, { runningMode: 'IMAGE' }));
+expectType<MediaPipeFaceLandmarker>(new MediaPipeFaceLandmarker({}, { loadTasksVision }));
+expectType<MediaPipeFaceLandmarker>(new MediaPipeFaceLandmarker({}, { loadTasksVision: () => Promise.resolve(tasksVision) }));
+expectError(new MediaPipeFaceLandmarker({}, { loadTasksVision: () => tasksVision }));
+
+declare const tasksLandmarker: TasksFaceLandmarker;
+declare const binding: FaceLandmarkerBinding;
+expectType<FaceLandmarkerBinding>(bindFaceLandmarker(tasksLandmarker));
+expectNotAssignable<Parameters<typeof bindFaceLandmarker>[0]>(binding);
+expectType<FaceLandmarkerResult>(binding.detect(imageElement));
+expectType<FaceLandmarkerResult>(binding.detectForVideo(videoElement, 0));
+expectError(binding.detectForVideo(imageElement, 0));
+expectType<Promise<void>>(binding.setRunningMode('VIDEO'));
+expectError(binding.setRunningMode('LIVE_STREAM'));
+expectType<void>(binding.close());
+
+// Package results map onto ours; unchecked values go through the shape checks
+declare const tasksResult: TasksFaceLandmarkerResult;
+expectAssignable<FaceLandmarkerResult>(tasksResult);
+expectType<FaceLandmarkerResult>(parseFaceLandmarkerResult(JSON.parse('{}') as unknown));
+
 // Landmark indices type tests
 expectType<readonly number[]>(LANDMARK_INDICES.LEFT_EYE);
 expectType<readonly number[]>(LANDMARK_INDICES.RIGHT_EYE);
@@ -80,6 +270,7 @@ expectType<number>(calculateDistance(point1, point2));
 
 declare const center: NormalizedLandmark;
 expectType<number>(calculateAngle(point1, center, point2));
+expectType<FaceBoundingBox>(calculateFaceBoundingBox(landmarks));
 
 // Test that readonly arrays are enforced
 expectError(landmarks.push({} as NormalizedLandmark));
@@ -5,23 +5,48 @@
 import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
 import type {
   FacialFeatures,
+  FrameCoverage,
   EyeMetrics,
   SingleEyeMetrics,
+  BrowMetrics,
+  SingleBrowMetrics,
   NoseMetrics,
   JawMetrics,
+  MouthMetrics,
+  ProportionMetrics,
+  ProportionRanges,
   QualityScores,
+  ScoredFeature,
+  ScoreExplanation,
+  FeatureExplanation,
+  SubMetricEvidence,
+  ScoringCurve,
+  ScoringCurves,
   BaselineRanges,
   WeightingFactors,
   MetricsCalculationError,
+  IrisMetrics,
+  PupilSource,
 } from '../../src/types/metrics';
-import { FacialMetricsCalculator } from '../../src/lib/metrics';
-import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import { FacialMetricsCalculator, GOLDEN_RATIO, LOW_CONFIDENCE_THRESHOLD } from '../../src/lib/metrics';
+import { evaluateScoringCurve } from '../../src/lib/scoringCurves';
+import { calculateProportionMetrics } from '../../src/lib/proportions';
+import { extractIrises, hasIrisLandmarks, IRIS_INDICES } from '../../src/lib/iris';
+import type { NormalizedLandmark, FaceIrises, IrisLandmarks, DetectedFace } from '../../src/types/mediapipe';
+import type { PoseCorrection } from '../../src/types/pose';
+import type { QualityCheckResult } from '../../src/types/quality';
 
 // Type tests for facial features interface
 declare const features: FacialFeatures;
 expectType<EyeMetrics>(features.eyes);
+expectType<BrowMetrics>(features.brows);
 expectType<NoseMetrics>(features.nose);
 expectType<JawMetrics>(features.jaw);
+expectType<MouthMetrics>(features.mouth);
+expectType<ProportionMetrics>(features.proportions);
+expectType<PoseCorrection>(features.alignment);
+expectType<FrameCoverage>(features.frameCoverage);
+expectType<number>(features.frameCoverage.jaw);
 
 // Type tests for eye metrics
 declare const eyeMetrics: EyeMetrics;
@@ -29,6 +54,10 @@ expectType<SingleEyeMetrics>(eyeMetrics.leftEye);
 expectType<SingleEyeMetrics>(eyeMetrics.rightEye);
 expectType<number>(eyeMetrics.interPupillaryDistance);
 expectType<number>(eyeMetrics.eyeSymmetry);
+expectType<PupilSource>(eyeMetrics.interPupillaryDistanceSource);
+expectType<number | null>(eyeMetrics.irisDiameter);
+expectAssignable<PupilSource>('iris');
+expectNotAssignable<PupilSource>('pupil');
 
 declare const singleEye: SingleEyeMetrics;
 expectType<number>(singleEye.width);
@@ -36,6 +65,24 @@ expectType<number>(singleEye.height);
 expectType<number>(singleEye.aspectRatio);
 expectType<number>(singleEye.tilt);
 expectType<readonly NormalizedLandmark[]>(singleEye.landmarks);
+expectType<IrisMetrics | null>(singleEye.iris);
+
+// Type tests for iris metrics
+declare const irisMetrics: IrisMetrics;
+expectType<NormalizedLandmark>(irisMetrics.center);
+expectType<number>(irisMetrics.diameter);
+expectType<number>(irisMetrics.pupilPosition.horizontal);
+expectType<number>(irisMetrics.pupilPosition.vertical);
+
+declare const meshLandmarks: readonly NormalizedLandmark[];
+expectType<FaceIrises | null>(extractIrises(meshLandmarks));
+expectType<boolean>(hasIrisLandmarks(meshLandmarks));
+expectType<readonly [468, 469, 470, 471, 472]>(IRIS_INDICES.LEFT);
+
+declare const detectedFace: DetectedFace;
+expectType<FaceIrises | null>(detectedFace.irises);
+declare const iris: IrisLandmarks;
+expectType<readonly NormalizedLandmark[]>(iris.contour);
 
 // Type tests for nose metrics
 declare const noseMetrics: NoseMetrics;
@@ -55,40 +102,99 @@ expectType<number>(jawMetrics.lowerFaceRatio);
 expectType<number>(jawMetrics.asymmetry);
 expectType<readonly NormalizedLandmark[]>(jawMetrics.landmarks);
 
+// Type tests for brow metrics
+declare const browMetrics: BrowMetrics;
+expectType<SingleBrowMetrics>(browMetrics.leftBrow);
+expectType<SingleBrowMetrics>(browMetrics.rightBrow);
+expectType<number>(browMetrics.symmetry);
+expectType<number>(browMetrics.leftBrow.archHeight);
+expectType<number>(browMetrics.leftBrow.peakPosition);
+expectType<number>(browMetrics.leftBrow.peakOffset);
+expectType<number>(browMetrics.leftBrow.tilt);
+expectType<number>(browMetrics.leftBrow.browEyeDistance);
+expectType<readonly NormalizedLandmark[]>(browMetrics.rightBrow.landmarks);
+
+// Type tests for mouth metrics
+declare const mouthMetrics: MouthMetrics;
+expectType<number>(mouthMetrics.width);
+expectType<number>(mouthMetrics.upperLipHeight);
+expectType<number>(mouthMetrics.lowerLipHeight);
+expectType<number>(mouthMetrics.lipRatio);
+expectType<number>(mouthMetrics.widthToIpdRatio);
+expectType<number>(mouthMetrics.cupidsBowSymmetry);
+expectType<number>(mouthMetrics.commissureTilt);
+expectType<readonly NormalizedLandmark[]>(mouthMetrics.landmarks);
+
+// Type tests for proportion metrics
+declare const proportionMetrics: ProportionMetrics;
+expectType<readonly [number, number, number]>(proportionMetrics.thirds);
+expectType<readonly [number, number, number, number, number]>(proportionMetrics.fifths);
+expectType<number>(proportionMetrics.thirdsDeviation);
+expectType<number>(proportionMetrics.faceRatio);
+expectType<NormalizedLandmark>(proportionMetrics.trichion);
+expectType<ProportionMetrics>(calculateProportionMetrics([]));
+expectType<ProportionMetrics>(calculateProportionMetrics([], 16 / 9));
+expectType<1.618>(GOLDEN_RATIO);
+expectError(proportionMetrics.thirds.push(0.3));
+
 // Type tests for quality scores
 declare const scores: QualityScores;
 expectType<number>(scores.eyes);
+expectType<number>(scores.brows);
 expectType<number>(scores.nose);
 expectType<number>(scores.jaw);
+expectType<number>(scores.mouth);
+expectType<number>(scores.proportions);
 expectType<number>(scores.overall);
+expectType<string>(scores.profile.version);
+expectType<number>(scores.confidence.overall);
+expectType<number>(scores.confidence.mouth);
+expectError(scores.confidence.general);
 
 // Test score range constraints (0-100)
-expectAssignable<QualityScores>({ eyes: 0, nose: 50, jaw: 100, overall: 75 });
-expectAssignable<QualityScores>({ eyes: 85, nose: 92, jaw: 78, overall: 85 });
+expectAssignable<QualityScores>({ eyes: 0, brows: 40, nose: 50, jaw: 100, mouth: 60, proportions: 25, overall: 75, profile: { name: 'standard', version: '1.0.0' }, confidence: { eyes: 1, brows: 1, nose: 1, jaw: 1, mouth: 1, proportions: 1, overall: 1 } });
+expectAssignable<QualityScores>({ eyes: 85, brows: 90, nose: 92, jaw: 78, mouth: 88, proportions: 80, overall: 85, profile: { name: 'custom', version: '0.0.0' }, confidence: { eyes: 1, brows: 1, nose: 1, jaw: 0.4, mouth: 1, proportions: 1, overall: 1 } });
+expectNotAssignable<QualityScores>({ eyes: 85, nose: 92, jaw: 78, overall: 85 });
 
 // Type tests for baseline ranges
 declare const baselines: BaselineRanges;
 expectType<readonly [number, number]>(baselines.eyes.aspectRatio);
 expectType<readonly [number, number]>(baselines.eyes.symmetry);
 expectType<readonly [number, number]>(baselines.eyes.tilt);
+expectType<readonly [number, number]>(baselines.brows.archRatio);
+expectType<readonly [number, number]>(baselines.brows.peakOffset);
+expectType<readonly [number, number]>(baselines.brows.tilt);
+expectType<readonly [number, number]>(baselines.brows.browEyeRatio);
+expectType<readonly [number, number]>(baselines.brows.symmetry);
 expectType<readonly [number, number]>(baselines.nose.widthRatio);
 expectType<readonly [number, number]>(baselines.nose.projection);
 expectType<readonly [number, number]>(baselines.nose.symmetry);
 expectType<readonly [number, number]>(baselines.jaw.angle);
 expectType<readonly [number, number]>(baselines.jaw.chinRatio);
 expectType<readonly [number, number]>(baselines.jaw.asymmetry);
+expectType<readonly [number, number]>(baselines.mouth.lipRatio);
+expectType<readonly [number, number]>(baselines.mouth.widthToIpd);
+expectType<readonly [number, number]>(baselines.mouth.cupidsBowSymmetry);
+expectType<readonly [number, number]>(baselines.mouth.commissureTilt);
+
+expectType<ProportionRanges | undefined>(baselines.proportions);
 
 // Type tests for weighting factors
 declare const weights: WeightingFactors;
 expectType<number>(weights.eyes.aspectRatio);
 expectType<number>(weights.eyes.symmetry);
 expectType<number>(weights.eyes.tilt);
+expectType<number>(weights.brows.archRatio);
+expectType<number>(weights.brows.symmetry);
 expectType<number>(weights.nose.width);
 expectType<number>(weights.nose.projection);
 expectType<number>(weights.nose.symmetry);
 expectType<number>(weights.jaw.angle);
 expectType<number>(weights.jaw.projection);
 expectType<number>(weights.jaw.asymmetry);
+expectType<number>(weights.mouth.lipRatio);
+expectType<number>(weights.mouth.commissureTilt);
+expectType<number | undefined>(weights.overall?.proportions);
 
 // Type tests for error interface
 declare const metricsError: MetricsCalculationError;
@@ -99,10 +205,44 @@ expectType<unknown>(metricsError.details);
 
 // Type tests for calculator class
 declare const calculator: FacialMetricsCalculator;
+declare const qualityCheck: QualityCheckResult;
 declare const landmarks: readonly NormalizedLandmark[];
 
 expectType<FacialFeatures>(calculator.calculateFacialFeatures(landmarks));
+expectType<FacialFeatures>(calculator.calculateFacialFeatures(landmarks, { aspectRatio: 16 / 9 }));
 expectType<QualityScores>(calculator.calculateQualityScores(features));
+expectType<QualityScores>(calculator.calculateQualityScores(features, qualityCheck));
+expectError(calculator.calculateQualityScores(features, 85));
+expectType<ScoreExplanation>(calculator.explainQualityScores(features));
+expectType<0.6>(LOW_CONFIDENCE_THRESHOLD);
+
+// Type tests for score explanations
+declare const explanation: ScoreExplanation;
+expectType<FeatureExplanation>(explanation.eyes);
+expectType<FeatureExplanation>(explanation.proportions);
+expectType<ScoredFeature>(explanation.jaw.feature);
+expectType<readonly SubMetricEvidence[]>(explanation.nose.subMetrics);
+expectError(explanation.overall);
+
+declare const evidence: SubMetricEvidence;
+expectType<number>(evidence.value);
+expectType<readonly [number, number]>(evidence.idealRange);
+expectType<number>(evidence.contribution);
+expectType<ScoringCurve>(evidence.curve);
+
+// Type tests for scoring curves
+expectAssignable<ScoringCurve>({ type: 'step' });
+expectAssignable<ScoringCurve>({ type: 'gaussian', sigma: 0.5 });
+expectAssignable<ScoringCurve>({ type: 'logistic', midpoint: 0.5, steepness: 10 });
+expectAssignable<ScoringCurve>({ type: 'linear' });
+expectNotAssignable<ScoringCurve>({ type: 'cubic' });
+expectNotAssignable<ScoringCurve>({ type: 'linear', sigma: 0.5 });
+expectAssignable<ScoringCurves>({ default: { type: 'linear', margin: 1 }, eyes: { symmetry: { type: 'gaussian' } } });
+expectNotAssignable<ScoringCurves>({ eyes: { width: { type: 'step' } } });
+expectType<number>(evaluateScoringCurve({ type: 'gaussian' }, 1.2, [0.9, 1.1]));
+expectError(evaluateScoringCurve('gaussian', 1.2, [0.9, 1.1]));
+expectAssignable<ScoredFeature>('mouth');
+expectNotAssignable<ScoredFeature>('overall');
 
 // Test constructor overloads
 expectType<FacialMetricsCalculator>(new FacialMetricsCalculator());
@@ -131,6 +271,13 @@ expectAssignable<BaselineRanges>({
     symmetry: [0.9, 1.1],
     tilt: [-5, 5],
   },
+  brows: {
+    archRatio: [0.08, 0.16],
+    peakOffset: [0.15, 0.5],
+    tilt: [0, 10],
+    browEyeRatio: [0.4, 0.65],
+    symmetry: [0.9, 1.1],
+  },
   nose: {
     widthRatio: [0.75, 0.85],
     projection: [0.67, 0.75],
@@ -141,11 +288,19 @@ expectAssignable<BaselineRanges>({
     chinRatio: [0.85, 0.95],
     asymmetry: [0.95, 1.05],
   },
+  mouth: {
+    lipRatio: [0.55, 0.75],
+    widthToIpd: [0.75, 0.9],
+    cupidsBowSymmetry: [0.9, 1.1],
+    commissureTilt: [-3, 3],
+  },
 });
 
 // Test weight factor constraints (should sum to reasonable values)
 expectAssignable<WeightingFactors>({
   eyes: { aspectRatio: 0.4, symmetry: 0.35, tilt: 0.25 }, // sums to 1.0
+  brows: { archRatio: 0.2, peakOffset: 0.2, tilt: 0.2, browEyeRatio: 0.2, symmetry: 0.2 },
   nose: { width: 0.4, projection: 0.35, symmetry: 0.25 },
   jaw: { angle: 0.45, projection: 0.3, asymmetry: 0.25 },
+  mouth: { lipRatio: 0.35, widthToIpd: 0.25, cupidsBowSymmetry: 0.2, commissureTilt: 0.2 },
 });
\ No newline at end of file
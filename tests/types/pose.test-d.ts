@@ -0,0 +1,77 @@
+/**
+ * Type definition tests for head pose estimation
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  AlignedLandmarks,
+  AlignmentMethod,
+  HeadPose,
+  HeadPoseOptions,
+  HeadPoseSource,
+  PoseCorrection,
+  RotationMatrix,
+  Vector3,
+} from '../../src/types/pose';
+import type { Matrix, NormalizedLandmark } from '../../src/types/mediapipe';
+import {
+  estimateHeadPose,
+  rotationFromTransformationMatrix,
+  rotationFromLandmarks,
+  rotationToEulerAngles,
+} from '../../src/lib/headPose';
+import { alignToFrontalPose } from '../../src/lib/poseAlignment';
+
+// Type tests for head pose
+declare const pose: HeadPose;
+expectType<number>(pose.yaw);
+expectType<number>(pose.pitch);
+expectType<number>(pose.roll);
+expectType<RotationMatrix>(pose.rotation);
+expectType<HeadPoseSource>(pose.source);
+
+expectAssignable<HeadPoseSource>('transformation_matrix');
+expectAssignable<HeadPoseSource>('landmarks');
+expectNotAssignable<HeadPoseSource>('face_position');
+
+// Rotation matrices are fixed-size 3x3 tuples
+expectAssignable<RotationMatrix>([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+expectNotAssignable<RotationMatrix>([[1, 0, 0], [0, 1, 0]]);
+expectNotAssignable<Vector3>([1, 0]);
+
+// Type tests for options
+declare const options: HeadPoseOptions;
+expectType<Matrix | null | undefined>(options.transformationMatrix);
+expectType<number | undefined>(options.aspectRatio);
+
+// Type tests for estimation functions
+declare const landmarks: readonly NormalizedLandmark[];
+declare const matrix: Matrix;
+declare const rotation: RotationMatrix;
+
+expectType<HeadPose | null>(estimateHeadPose(landmarks));
+expectType<HeadPose | null>(estimateHeadPose(landmarks, { transformationMatrix: matrix, aspectRatio: 4 / 3 }));
+expectType<HeadPose | null>(estimateHeadPose(landmarks, { transformationMatrix: null }));
+expectType<RotationMatrix | null>(rotationFromTransformationMatrix(matrix));
+expectType<RotationMatrix | null>(rotationFromLandmarks(landmarks, 1));
+expectType<{ yaw: number; pitch: number; roll: number }>(rotationToEulerAngles(rotation));
+
+// Test readonly constraints
+expectError(pose.yaw = 0);
+expectError(rotation[0][0] = 1);
+
+// Type tests for frontal alignment
+declare const meshLandmarks: readonly NormalizedLandmark[];
+declare const faceMatrix: Matrix | null;
+expectType<AlignedLandmarks>(alignToFrontalPose(meshLandmarks));
+expectType<AlignedLandmarks>(alignToFrontalPose(meshLandmarks, { transformationMatrix: faceMatrix, aspectRatio: 4 / 3 }));
+expectType<AlignedLandmarks>(alignToFrontalPose(meshLandmarks, { referenceLandmarks: meshLandmarks }));
+expectError(alignToFrontalPose(meshLandmarks, { referenceLandmarks: 'frontal' }));
+
+declare const correction: PoseCorrection;
+expectType<AlignmentMethod>(correction.method);
+expectType<number>(correction.angle);
+expectType<number | null>(correction.residual);
+expectAssignable<AlignmentMethod>('procrustes');
+expectAssignable<AlignmentMethod>('none');
+expectNotAssignable<AlignmentMethod>('icp');
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * Type definition tests for scoring profiles
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type { ProfileReference, ProfileValidationError, ScoringProfile } from '../../src/types/profile';
+import type { BaselineRanges, WeightingFactors } from '../../src/types/metrics';
+import { getProfile, listProfiles, parseScoringProfile, toProfileReference } from '../../src/lib/profiles';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+
+// Loading tests
+expectType<ScoringProfile>(parseScoringProfile({}));
+expectType<ScoringProfile>(getProfile());
+expectType<ScoringProfile>(getProfile('symmetry'));
+expectError(getProfile(1));
+expectType<readonly ScoringProfile[]>(listProfiles());
+
+// Profile type tests
+declare const profile: ScoringProfile;
+expectType<BaselineRanges>(profile.baselineRanges);
+expectType<WeightingFactors>(profile.weightingFactors);
+expectType<ProfileReference>(toProfileReference(profile));
+
+expectAssignable<ProfileReference>({ name: 'standard', version: '1.0.0' });
+expectNotAssignable<ProfileReference>({ name: 'standard' });
+
+// Calculator construction tests
+expectType<FacialMetricsCalculator>(FacialMetricsCalculator.fromProfile(profile));
+expectType<FacialMetricsCalculator>(new FacialMetricsCalculator(undefined, undefined, {}, { name: 'custom', version: '0.1.0' }));
+expectError(FacialMetricsCalculator.fromProfile('standard'));
+
+// Error type tests
+declare const error: ProfileValidationError;
+expectType<'INVALID_PROFILE' | 'UNKNOWN_PROFILE'>(error.code);
+expectType<string>(error.path);
\ No newline at end of file
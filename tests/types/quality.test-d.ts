@@ -13,7 +13,7 @@ import type {
   QualityValidationError,
 } from '../../src/types/quality';
 import { QualityValidator } from '../../src/lib/quality';
-import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import type { NormalizedLandmark, Matrix } from '../../src/types/mediapipe';
 
 // Type tests for quality check result
 declare const result: QualityCheckResult;
@@ -92,8 +92,23 @@ declare const imageElement: HTMLImageElement;
 declare const canvasElement: HTMLCanvasElement;
 declare const landmarks: readonly NormalizedLandmark[];
 
-expectType<Promise<QualityCheckResult>>(validator.validateImage(imageElement, landmarks));
-expectType<Promise<QualityCheckResult>>(validator.validateImage(canvasElement, landmarks));
+expectType<QualityCheckResult>(validator.validateImage(imageElement, landmarks));
+expectType<QualityCheckResult>(validator.validateImage(canvasElement, landmarks));
+expectType<QualityCheckResult>(validator.validateImage(imageElement, landmarks, { faceCount: 2 }));
+expectError(validator.validateImage(imageElement, landmarks, { faceCount: '2' }));
+
+// Worker-safe frame sources
+declare const offscreenCanvas: OffscreenCanvas;
+declare const videoFrame: VideoFrame;
+declare const imageData: ImageData;
+expectType<QualityCheckResult>(validator.validateImage(offscreenCanvas, landmarks));
+expectType<QualityCheckResult>(validator.validateImage(videoFrame, landmarks));
+expectType<QualityCheckResult>(validator.validateImage(imageData, landmarks));
+expectError(validator.validateImage(imageData.data, landmarks));
+
+declare const transformationMatrix: Matrix;
+expectType<QualityCheckResult>(validator.validateImage(imageElement, landmarks, { transformationMatrix }));
+expectType<QualityCheckResult>(validator.validateImage(imageElement, landmarks, { transformationMatrix: null }));
 
 // Test constructor overloads
 expectType<QualityValidator>(new QualityValidator());
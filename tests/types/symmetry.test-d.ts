@@ -0,0 +1,45 @@
+/**
+ * Type definition tests for bilateral symmetry analysis
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  FacialMidline,
+  LandmarkPair,
+  MirroredComposites,
+  RegionAsymmetry,
+  SymmetryAnalysis,
+  SymmetryRegion,
+} from '../../src/types/symmetry';
+import type { Vector3 } from '../../src/types/pose';
+import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import { analyzeSymmetry, renderMirroredComposites, SYMMETRY_PAIRS } from '../../src/lib/symmetry';
+
+// Region type tests
+expectAssignable<SymmetryRegion>('eyes');
+expectAssignable<SymmetryRegion>('contour');
+expectNotAssignable<SymmetryRegion>('ears');
+
+expectType<readonly LandmarkPair[]>(SYMMETRY_PAIRS.mouth);
+expectAssignable<LandmarkPair>([33, 263]);
+expectNotAssignable<LandmarkPair>([33]);
+
+// Analysis type tests
+declare const landmarks: readonly NormalizedLandmark[];
+expectType<SymmetryAnalysis | null>(analyzeSymmetry(landmarks));
+expectType<SymmetryAnalysis | null>(analyzeSymmetry(landmarks, { aspectRatio: 4 / 3 }));
+expectError(analyzeSymmetry(landmarks, { aspectRatio: '4:3' }));
+
+declare const analysis: SymmetryAnalysis;
+expectType<FacialMidline>(analysis.midline);
+expectType<Vector3>(analysis.midline.normal);
+expectType<RegionAsymmetry>(analysis.regions.nose);
+expectType<Vector3>(analysis.regions.eyes.vector);
+expectType<number>(analysis.regions.eyes.magnitude);
+expectType<number>(analysis.overallAsymmetry);
+expectError(analysis.regions.ears);
+
+// Composite type tests
+declare const canvas: HTMLCanvasElement;
+expectType<MirroredComposites>(renderMirroredComposites(canvas, analysis.midline));
+expectType<HTMLCanvasElement>(renderMirroredComposites(canvas, analysis.midline).leftLeft);
\ No newline at end of file
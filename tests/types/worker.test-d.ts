@@ -0,0 +1,51 @@
+/**
+ * Type definition tests for the worker-backed analysis engine
+ */
+
+import { expectType, expectError, expectAssignable, expectNotAssignable } from 'tsd';
+import type {
+  AnalysisEngineError,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  FrameAnalysisResult,
+} from '../../src/types/worker';
+import type { DetectedFace, MediaPipeCapabilities, MediaPipeErrorCode } from '../../src/types/mediapipe';
+import type { ImageQualityMetrics, QualityValidationContext } from '../../src/types/quality';
+import { AnalysisEngine } from '../../src/lib/analysisEngine';
+import { analyzePixelQuality } from '../../src/lib/imageQuality';
+
+// Engine API type tests
+declare const engine: AnalysisEngine;
+declare const bitmap: ImageBitmap;
+declare const controller: AbortController;
+expectType<boolean>(AnalysisEngine.isSupported());
+expectType<Promise<MediaPipeCapabilities | null>>(engine.initialize());
+expectType<Promise<MediaPipeCapabilities | null>>(engine.initialize({ signal: controller.signal, timeoutMs: 30000 }));
+expectType<Promise<FrameAnalysisResult>>(engine.analyze(bitmap));
+expectType<Promise<FrameAnalysisResult>>(engine.analyze(bitmap, { signal: controller.signal }));
+expectType<Promise<ImageQualityMetrics>>(engine.measureQuality(bitmap, { signal: controller.signal }));
+expectType<void>(engine.dispose());
+expectError(engine.analyze(document.createElement('img'))); // frames are transferred as ImageBitmaps
+
+declare const result: FrameAnalysisResult;
+expectType<readonly DetectedFace[]>(result.faces);
+expectType<ImageQualityMetrics>(result.imageQuality);
+expectType<number>(result.durationMs);
+
+// Message protocol type tests
+expectAssignable<AnalysisWorkerRequest>({ type: 'cancel', id: 1 });
+expectAssignable<AnalysisWorkerRequest>({ type: 'analyze', id: 1, bitmap });
+expectNotAssignable<AnalysisWorkerRequest>({ type: 'analyze', id: 1 });
+expectAssignable<AnalysisWorkerRequest>({ type: 'measure', id: 1, bitmap });
+expectAssignable<AnalysisWorkerResponse>({ type: 'error', id: 1, code: 'DETECTION_FAILED', message: 'failed' });
+expectNotAssignable<AnalysisWorkerResponse>({ type: 'error', id: 1, code: 'OFFLINE', message: 'failed' });
+
+declare const engineError: AnalysisEngineError;
+expectType<'WORKER_UNAVAILABLE' | 'WORKER_FAILED' | 'CANCELLED' | 'NOT_INITIALIZED' | MediaPipeErrorCode>(engineError.code);
+
+// Pixel analysis shared by worker and main thread
+declare const pixels: Uint8ClampedArray;
+expectType<ImageQualityMetrics>(analyzePixelQuality(pixels, 640, 480));
+
+declare const context: QualityValidationContext;
+expectType<ImageQualityMetrics | undefined>(context.imageQuality);
\ No newline at end of file
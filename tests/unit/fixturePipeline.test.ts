@@ -0,0 +1,105 @@
+/**
+ * End-to-end check of detection and scoring against the MediaPipe canonical face mesh
+ *
+ * The fixture is the 468-vertex canonical face model shipped in MediaPipe's face geometry
+ * metadata, projected into a 640×480 frame at 0.03 image heights per centimeter, with iris
+ * points placed between the eye corners at the population-average 11.7 mm diameter.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import type { DetectedFaceMetrics } from '../../src/types/metrics';
+import { FixtureFaceDetector } from '../../src/lib/fixtureDetector';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+import { calibrateFeatures, createCalibration } from '../../src/lib/calibration';
+import { DEFAULT_PROFILE_NAME } from '../../src/lib/profiles';
+
+const FIXTURE_PATH = resolve(__dirname, '../fixtures/canonical-face-mesh.json');
+
+// Only the dimensions are read: the fixture detector ignores the pixels
+const FRAME: ImageData = { width: 640, height: 480, data: new Uint8ClampedArray(0), colorSpace: 'srgb' };
+
+// Scores are rounded to whole points; allow one point either way
+const SCORE_TOLERANCE = 1;
+
+const EXPECTED_SCORES = [
+  ['eyes', 60],
+  ['brows', 70],
+  ['nose', 25],
+  ['jaw', 70],
+  ['mouth', 100],
+  ['proportions', 4],
+  ['overall', 55],
+] as const;
+
+function loadDetector(): FixtureFaceDetector {
+  return FixtureFaceDetector.fromJson(readFileSync(FIXTURE_PATH, 'utf8'));
+}
+
+async function analyzeFixture(): Promise<DetectedFaceMetrics> {
+  const calculator = new FacialMetricsCalculator(undefined, undefined, { detector: loadDetector() });
+  const result = await calculator.detectAndCalculate(FRAME);
+  if (result === null) throw new Error('No face detected in the fixture');
+  return result;
+}
+
+describe('fixture pipeline', () => {
+  it('replays the recorded face through the detector', async () => {
+    const faces = await loadDetector().detectFaces();
+
+    expect(faces).toHaveLength(1);
+    expect(faces[0]?.landmarks).toHaveLength(478);
+    expect(faces[0]?.irises).not.toBeNull();
+  });
+
+  it('measures the canonical face in image-height units', async () => {
+    const { features } = await analyzeFixture();
+
+    // Iris centers sit 6.30 cm apart in the model, 0.03 image heights per cm
+    expect(features.eyes.interPupillaryDistance).toBeCloseTo(0.18907, 4);
+    expect(features.eyes.irisDiameter ?? NaN).toBeCloseTo(0.0351, 4);
+    expect(features.eyes.leftEye.aspectRatio).toBeCloseTo(3.861, 3);
+    expect(features.brows.leftBrow.archRatio).toBeCloseTo(0.1250, 3);
+    expect(features.nose.width).toBeCloseTo(0.09555, 4);
+    expect(features.nose.length).toBeCloseTo(0.13111, 4);
+    expect(features.jaw.angle).toBeCloseTo(124.59, 1);
+    expect(features.mouth.lipRatio).toBeCloseTo(0.7275, 3);
+    expect(features.mouth.widthToIpdRatio).toBeCloseTo(0.7794, 3);
+    expect(features.proportions.faceRatio).toBeCloseTo(1.2623, 3);
+    expect(features.proportions.thirds[0]).toBeCloseTo(0.2608, 3);
+    expect(features.proportions.thirds[1]).toBeCloseTo(0.3600, 3);
+    expect(features.proportions.thirds[2]).toBeCloseTo(0.3791, 3);
+  });
+
+  it('finds the mirror-symmetric model symmetric', async () => {
+    const { features } = await analyzeFixture();
+
+    expect(features.alignment.yaw).toBeCloseTo(0, 6);
+    expect(features.alignment.roll).toBeCloseTo(0, 6);
+    expect(features.eyes.eyeSymmetry).toBeCloseTo(1, 6);
+    expect(features.brows.symmetry).toBeCloseTo(1, 6);
+    expect(features.nose.nostrilSymmetry).toBeCloseTo(1, 6);
+    expect(features.jaw.asymmetry).toBeCloseTo(1, 6);
+    expect(features.mouth.commissureTilt).toBeCloseTo(0, 6);
+    expect(features.eyes.leftEye.tilt).toBeCloseTo(-features.eyes.rightEye.tilt, 6);
+  });
+
+  it('converts to the model centimeters through the iris calibration', async () => {
+    const { features } = await analyzeFixture();
+
+    const calibrated = calibrateFeatures(features, createCalibration(features, { type: 'iris' }, 640 / 480));
+
+    expect(calibrated.eyes.interPupillaryDistance.millimeters ?? NaN).toBeCloseTo(63.0, 1);
+    expect(calibrated.nose.length.millimeters ?? NaN).toBeCloseTo(43.7, 1);
+  });
+
+  it('scores the canonical face with the default profile', async () => {
+    const { scores } = await analyzeFixture();
+
+    expect(scores.profile.name).toBe(DEFAULT_PROFILE_NAME);
+    for (const [feature, expected] of EXPECTED_SCORES) {
+      expect(Math.abs(scores[feature] - expected), feature).toBeLessThanOrEqual(SCORE_TOLERANCE);
+    }
+  });
+});
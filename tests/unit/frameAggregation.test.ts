@@ -0,0 +1,110 @@
+/**
+ * Burst aggregation: MAD outlier rejection and per-field medians
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import type { FacialFeatures } from '../../src/types/metrics';
+import { parseLandmarkFixture } from '../../src/lib/fixtureDetector';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+import { aggregateFacialFeatures } from '../../src/lib/frameAggregation';
+
+const FIXTURE_PATH = resolve(__dirname, '../fixtures/canonical-face-mesh.json');
+
+function loadFeatures(): FacialFeatures {
+  const fixture = parseLandmarkFixture(JSON.parse(readFileSync(FIXTURE_PATH, 'utf8')) as unknown);
+  const face = fixture.faces[0];
+  if (face === undefined) throw new Error('Fixture has no face');
+  return new FacialMetricsCalculator().calculateFacialFeatures(face.landmarks, {
+    aspectRatio: fixture.imageWidth / fixture.imageHeight,
+  });
+}
+
+function withMeasurements(base: FacialFeatures, noseWidth: number, jawAngle: number): FacialFeatures {
+  return {
+    ...base,
+    nose: { ...base.nose, width: noseWidth },
+    jaw: { ...base.jaw, angle: jawAngle },
+  };
+}
+
+describe('aggregateFacialFeatures', () => {
+  const base = loadFeatures();
+
+  it('rejects a frame whose metrics are far from the rest', () => {
+    const frames = [
+      withMeasurements(base, 0.093, 123.6),
+      withMeasurements(base, 0.094, 124.1),
+      withMeasurements(base, 0.095, 124.6),
+      withMeasurements(base, 0.2, 150),
+      withMeasurements(base, 0.096, 125.1),
+      withMeasurements(base, 0.097, 125.6),
+    ];
+
+    const result = aggregateFacialFeatures(frames);
+
+    expect(result.frameCount).toBe(6);
+    expect(result.rejectedFrames).toEqual([3]);
+    expect(result.representativeFrame).toBe(2);
+    expect(result.features.nose.width).toBeCloseTo(0.095, 9);
+    expect(result.features.jaw.angle).toBeCloseTo(124.6, 9);
+    expect(result.spread['nose.width']?.median).toBeCloseTo(0.095, 9);
+    expect(result.spread['nose.width']?.mad).toBeCloseTo(0.001, 9);
+  });
+
+  it('keeps every frame when they are identical and the MAD is 0', () => {
+    const result = aggregateFacialFeatures([base, base, base, base]);
+
+    expect(result.rejectedFrames).toEqual([]);
+    expect(result.spread['nose.width']).toEqual({ median: base.nose.width, mad: 0, variance: 0 });
+    expect(result.features).toEqual(base);
+  });
+
+  it('does not reject frames when too few are kept to define normal', () => {
+    const result = aggregateFacialFeatures([withMeasurements(base, 0.095, 124.6), withMeasurements(base, 0.2, 150)]);
+
+    expect(result.rejectedFrames).toEqual([]);
+    expect(result.features.nose.width).toBeCloseTo(0.1475, 9);
+  });
+
+  it('needs at least one frame', () => {
+    expect(() => aggregateFacialFeatures([])).toThrow(
+      expect.objectContaining({ code: 'INSUFFICIENT_FRAMES' })
+    );
+  });
+
+  it('takes the median of each field independently', () => {
+    const frames = [
+      withMeasurements(base, 0.1, 126),
+      withMeasurements(base, 0.3, 122),
+      withMeasurements(base, 0.2, 124),
+      withMeasurements(base, 0.4, 128),
+    ];
+
+    const { features } = aggregateFacialFeatures(frames);
+
+    expect(features.nose.width).toBeCloseTo(0.25, 9);
+    expect(features.jaw.angle).toBeCloseTo(125, 9);
+    expect(features.nose.length).toBe(base.nose.length);
+    expect(features.proportions.thirds).toEqual(base.proportions.thirds);
+    expect(features.eyes.interPupillaryDistanceSource).toBe(base.eyes.interPupillaryDistanceSource);
+    expect(features.alignment.method).toBe(base.alignment.method);
+  });
+
+  it('skips frames that lack an optional field', () => {
+    const withIris = (frame: FacialFeatures, irisDiameter: number | null): FacialFeatures =>
+      ({ ...frame, eyes: { ...frame.eyes, irisDiameter } });
+    const frames = [
+      withIris(withMeasurements(base, 0.095, 124.6), 0.035),
+      withIris(withMeasurements(base, 0.096, 124.6), 0.05),
+      withIris(withMeasurements(base, 0.098, 124.6), null),
+    ];
+
+    const result = aggregateFacialFeatures(frames);
+
+    expect(result.representativeFrame).toBe(1);
+    expect(result.features.eyes.irisDiameter ?? NaN).toBeCloseTo(0.0425, 9);
+    expect(result.features.nose.width).toBeCloseTo(0.096, 9);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Consistency checks for the landmark region map and its named anchors
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateLandmarkRegions } from '../../src/lib/landmarkRegions';
+
+describe('validateLandmarkRegions', () => {
+  it('finds no issues in the shipped region map and anchors', () => {
+    expect(validateLandmarkRegions()).toEqual([]);
+  });
+
+  it('reports repeated, out-of-range and misplaced indices', () => {
+    const issues = validateLandmarkRegions(
+      { FIRST: [1, 1, 500], SECOND: [1] },
+      { TIP: { region: 'SECOND', index: 2 } },
+      []
+    );
+
+    expect(issues).toEqual([
+      { type: 'duplicate_index', region: 'FIRST', index: 1 },
+      { type: 'out_of_range', region: 'FIRST', index: 500 },
+      { type: 'cross_region', region: 'SECOND', index: 1, otherRegion: 'FIRST' },
+      { type: 'anchor_outside_region', region: 'SECOND', index: 2, anchor: 'TIP' },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Lengths and millimeter scales must not depend on the frame's aspect ratio
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import { parseLandmarkFixture } from '../../src/lib/fixtureDetector';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+import { calibrateFeatures, createCalibration } from '../../src/lib/calibration';
+
+const FIXTURE_PATH = resolve(__dirname, '../fixtures/canonical-face-mesh.json');
+
+// The same face recorded in a frame twice as wide: normalized x and z halve
+const STRETCH = 2;
+
+function loadLandmarks(): readonly NormalizedLandmark[] {
+  const fixture = parseLandmarkFixture(JSON.parse(readFileSync(FIXTURE_PATH, 'utf8')) as unknown);
+  const face = fixture.faces[0];
+  if (face === undefined) throw new Error('Fixture has no face');
+  return face.landmarks;
+}
+
+function squeeze(landmarks: readonly NormalizedLandmark[]): NormalizedLandmark[] {
+  return landmarks.map(landmark => ({
+    ...landmark,
+    x: landmark.x / STRETCH,
+    ...(landmark.z !== undefined && { z: landmark.z / STRETCH }),
+  }));
+}
+
+describe('measurement units', () => {
+  const calculator = new FacialMetricsCalculator();
+  const landmarks = loadLandmarks();
+  const square = calculator.calculateFacialFeatures(landmarks, { aspectRatio: 1 });
+  const wide = calculator.calculateFacialFeatures(squeeze(landmarks), { aspectRatio: STRETCH });
+
+  it('measures the same lengths in image-height units whatever the aspect ratio', () => {
+    expect(wide.eyes.leftEye.height).toBeCloseTo(square.eyes.leftEye.height, 6);
+    expect(wide.eyes.leftEye.aspectRatio).toBeCloseTo(square.eyes.leftEye.aspectRatio, 6);
+    expect(wide.eyes.irisDiameter ?? NaN).toBeCloseTo(square.eyes.irisDiameter ?? NaN, 6);
+    expect(wide.nose.length).toBeCloseTo(square.nose.length, 6);
+    expect(wide.mouth.upperLipHeight).toBeCloseTo(square.mouth.upperLipHeight, 6);
+  });
+
+  it('compares face height with width in image-height units', () => {
+    expect(wide.proportions.faceRatio).toBeCloseTo(square.proportions.faceRatio, 6);
+    expect(wide.proportions.thirds[0]).toBeCloseTo(square.proportions.thirds[0], 6);
+  });
+
+  it('derives the same millimeter lengths from the iris and from a reference edge', () => {
+    const irisSquare = calibrateFeatures(square, createCalibration(square, { type: 'iris' }));
+    const irisWide = calibrateFeatures(wide, createCalibration(wide, { type: 'iris' }, STRETCH));
+    expect(irisWide.nose.length.millimeters ?? NaN).toBeCloseTo(irisSquare.nose.length.millimeters ?? NaN, 6);
+
+    const edge = { start: { x: 0.2, y: 0.5 }, end: { x: 0.6, y: 0.7 }, millimeters: 85.6 } as const;
+    const referenceSquare = createCalibration(square, { type: 'reference', ...edge });
+    const referenceWide = createCalibration(
+      wide,
+      {
+        type: 'reference',
+        start: { x: edge.start.x / STRETCH, y: edge.start.y },
+        end: { x: edge.end.x / STRETCH, y: edge.end.y },
+        millimeters: edge.millimeters,
+      },
+      STRETCH
+    );
+    expect(referenceWide?.millimetersPerUnit ?? NaN).toBeCloseTo(referenceSquare?.millimetersPerUnit ?? NaN, 6);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * Shared MediaPipe initialization: per-caller cancellation and deadlines
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { TasksVisionBindings } from '../../src/types/mediapipe';
+import { MediaPipeFaceLandmarker } from '../../src/lib/mediapipe';
+
+// The package never finishes loading, so every run stays in flight until it is abandoned
+function createPendingLandmarker(): { landmarker: MediaPipeFaceLandmarker; loads: () => number } {
+  const loadTasksVision = vi.fn(() => new Promise<TasksVisionBindings>(() => undefined));
+  return {
+    landmarker: new MediaPipeFaceLandmarker({}, { loadTasksVision }),
+    loads: () => loadTasksVision.mock.calls.length,
+  };
+}
+
+describe('MediaPipeFaceLandmarker.initialize', () => {
+  it('rejects an already cancelled caller without starting a run', async () => {
+    const { landmarker, loads } = createPendingLandmarker();
+
+    await expect(landmarker.initialize({ signal: AbortSignal.abort() })).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(loads()).toBe(0);
+  });
+
+  it('lets a joined caller give up on its own signal and deadline', async () => {
+    const { landmarker, loads } = createPendingLandmarker();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstWait = landmarker.initialize({ signal: first.signal, timeoutMs: 0 });
+    const secondWait = landmarker.initialize({ signal: second.signal, timeoutMs: 0 });
+    const thirdWait = landmarker.initialize({ timeoutMs: 10 });
+
+    second.abort();
+    await expect(secondWait).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(thirdWait).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(loads()).toBe(1);
+
+    // The first caller still holds the run, so a new caller joins it rather than starting another
+    const fourth = new AbortController();
+    const fourthWait = landmarker.initialize({ signal: fourth.signal, timeoutMs: 0 });
+    expect(loads()).toBe(1);
+    fourth.abort();
+    await expect(fourthWait).rejects.toMatchObject({ code: 'ABORTED' });
+
+    first.abort();
+    await expect(firstWait).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('abandons the run once every caller has given up, so the next call starts over', async () => {
+    const { landmarker, loads } = createPendingLandmarker();
+    const caller = new AbortController();
+
+    const wait = landmarker.initialize({ signal: caller.signal, timeoutMs: 0 });
+    caller.abort();
+    await expect(wait).rejects.toMatchObject({ code: 'ABORTED' });
+
+    const retry = new AbortController();
+    const retryWait = landmarker.initialize({ signal: retry.signal, timeoutMs: 0 });
+    expect(loads()).toBe(2);
+    retry.abort();
+    await expect(retryWait).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+});
\ No newline at end of file
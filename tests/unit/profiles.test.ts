@@ -0,0 +1,79 @@
+/**
+ * Built-in scoring profiles and validation of profile JSON
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getProfile, listProfiles, parseScoringProfile } from '../../src/lib/profiles';
+import standardProfile from '../../src/profiles/standard.json';
+
+describe('parseScoringProfile', () => {
+  it('keeps every validated range and weight of the built-in profiles', () => {
+    const standard = getProfile('standard');
+
+    expect(standard.baselineRanges).toEqual(standardProfile.baselineRanges);
+    expect(standard.weightingFactors).toEqual(standardProfile.weightingFactors);
+    expect(listProfiles().map(profile => profile.name)).toEqual(['standard', 'symmetry']);
+  });
+
+  it('rejects a section whose weights do not sum to 1', () => {
+    const weightingFactors = {
+      ...standardProfile.weightingFactors,
+      eyes: { aspectRatio: 0.5, symmetry: 0.5, tilt: 0.5 },
+    };
+
+    expect(() => parseScoringProfile({ ...standardProfile, weightingFactors })).toThrow(
+      expect.objectContaining({ code: 'INVALID_PROFILE', path: 'weightingFactors.eyes' })
+    );
+  });
+
+  it('accepts weights rounded to three decimals', () => {
+    const weightingFactors = {
+      ...standardProfile.weightingFactors,
+      eyes: { aspectRatio: 0.333, symmetry: 0.333, tilt: 0.333 },
+    };
+
+    expect(parseScoringProfile({ ...standardProfile, weightingFactors }).weightingFactors.eyes.tilt).toBe(0.333);
+  });
+
+  it('rejects a missing range and an unknown key', () => {
+    const { tilt: _tilt, ...eyes } = standardProfile.baselineRanges.eyes;
+    const missing = { ...standardProfile, baselineRanges: { ...standardProfile.baselineRanges, eyes } };
+    const unknown = {
+      ...standardProfile,
+      baselineRanges: { ...standardProfile.baselineRanges, eyes: { ...standardProfile.baselineRanges.eyes, width: [1, 2] } },
+    };
+
+    expect(() => parseScoringProfile(missing)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PROFILE', path: 'baselineRanges.eyes.tilt' })
+    );
+    expect(() => parseScoringProfile(unknown)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PROFILE', path: 'baselineRanges.eyes.width' })
+    );
+  });
+
+  it('keeps only the parameters each curve type takes', () => {
+    const curves = {
+      default: { type: 'gaussian', sigma: 0.25 },
+      eyes: { tilt: { type: 'logistic', steepness: 6 } },
+      proportions: { faceRatio: { type: 'step' } },
+    };
+    const profile = parseScoringProfile({
+      ...standardProfile,
+      baselineRanges: { ...standardProfile.baselineRanges, curves },
+    });
+
+    expect(profile.baselineRanges.curves).toEqual(curves);
+    expect(() =>
+      parseScoringProfile({
+        ...standardProfile,
+        baselineRanges: { ...standardProfile.baselineRanges, curves: { default: { type: 'step', sigma: 1 } } },
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_PROFILE', path: 'baselineRanges.curves.default.sigma' }));
+    expect(() =>
+      parseScoringProfile({
+        ...standardProfile,
+        baselineRanges: { ...standardProfile.baselineRanges, curves: { nose: { widthRatio: { type: 'linear', margin: 0 } } } },
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_PROFILE', path: 'baselineRanges.curves.nose.widthRatio.margin' }));
+  });
+});
\ No newline at end of file
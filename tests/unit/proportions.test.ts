@@ -0,0 +1,42 @@
+/**
+ * Facial thirds measured from the trichion estimated above the mesh
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import { calculateProportionMetrics, FIFTHS_INDICES, THIRDS_INDICES, TRICHION_EXTRAPOLATION } from '../../src/lib/proportions';
+
+// Midline points at equal thirds of a 0.6-high face, with the mesh top short of the hairline
+const TRICHION_Y = 0.2;
+const GLABELLA_Y = 0.4;
+const SUBNASALE_Y = 0.6;
+const MENTON_Y = 0.8;
+const FOREHEAD_TOP_Y = GLABELLA_Y - (GLABELLA_Y - TRICHION_Y) / TRICHION_EXTRAPOLATION;
+
+function createFace(): NormalizedLandmark[] {
+  const landmarks: NormalizedLandmark[] = Array.from({ length: 468 }, () => ({ x: 0.5, y: 0.5 }));
+  landmarks[THIRDS_INDICES.FOREHEAD_TOP] = { x: 0.5, y: FOREHEAD_TOP_Y };
+  landmarks[THIRDS_INDICES.GLABELLA] = { x: 0.5, y: GLABELLA_Y };
+  landmarks[THIRDS_INDICES.SUBNASALE] = { x: 0.5, y: SUBNASALE_Y };
+  landmarks[THIRDS_INDICES.MENTON] = { x: 0.5, y: MENTON_Y };
+  FIFTHS_INDICES.forEach((index, i) => {
+    landmarks[index] = { x: 0.3 + 0.08 * i, y: GLABELLA_Y };
+  });
+  return landmarks;
+}
+
+describe('calculateProportionMetrics', () => {
+  it('starts the upper third at the extrapolated trichion, not the mesh top', () => {
+    const proportions = calculateProportionMetrics(createFace());
+
+    expect(proportions.trichion.y).toBeCloseTo(TRICHION_Y, 6);
+    proportions.thirds.forEach(third => expect(third).toBeCloseTo(1 / 3, 6));
+    expect(proportions.thirdsDeviation).toBeCloseTo(0, 6);
+  });
+
+  it('takes the face ratio in image-height units', () => {
+    // The face is 0.6 high and 0.4 wide in a square frame, and twice as wide in a 2:1 frame
+    expect(calculateProportionMetrics(createFace()).faceRatio).toBeCloseTo(1.5, 6);
+    expect(calculateProportionMetrics(createFace(), 2).faceRatio).toBeCloseTo(0.75, 6);
+  });
+});
\ No newline at end of file
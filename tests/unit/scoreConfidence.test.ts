@@ -0,0 +1,50 @@
+/**
+ * Score confidence falls for features whose landmarks lie outside the frame
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import type { NormalizedLandmark } from '../../src/types/mediapipe';
+import { parseLandmarkFixture } from '../../src/lib/fixtureDetector';
+import { FacialMetricsCalculator } from '../../src/lib/metrics';
+
+const FIXTURE_PATH = resolve(__dirname, '../fixtures/canonical-face-mesh.json');
+const ASPECT_RATIO = 640 / 480;
+
+function loadLandmarks(): readonly NormalizedLandmark[] {
+  const fixture = parseLandmarkFixture(JSON.parse(readFileSync(FIXTURE_PATH, 'utf8')) as unknown);
+  const face = fixture.faces[0];
+  if (face === undefined) throw new Error('Fixture has no face');
+  return face.landmarks;
+}
+
+function shiftDown(landmarks: readonly NormalizedLandmark[], offset: number): NormalizedLandmark[] {
+  return landmarks.map(landmark => ({ ...landmark, y: landmark.y + offset }));
+}
+
+describe('score confidence', () => {
+  const calculator = new FacialMetricsCalculator();
+  const landmarks = loadLandmarks();
+
+  it('trusts every feature of a face that is fully in frame', () => {
+    const features = calculator.calculateFacialFeatures(landmarks, { aspectRatio: ASPECT_RATIO });
+    const { confidence } = calculator.calculateQualityScores(features);
+
+    expect(Object.values(features.frameCoverage)).toEqual([1, 1, 1, 1, 1, 1]);
+    expect(confidence.jaw).toBe(1);
+    expect(confidence.overall).toBe(1);
+  });
+
+  it('lowers confidence for features cut off by the frame edge', () => {
+    // Moves the chin and lower jaw below the bottom edge while the eyes stay in frame
+    const features = calculator.calculateFacialFeatures(shiftDown(landmarks, 0.25), { aspectRatio: ASPECT_RATIO });
+    const { confidence } = calculator.calculateQualityScores(features);
+
+    expect(features.frameCoverage.eyes).toBe(1);
+    expect(features.frameCoverage.jaw).toBeLessThan(1);
+    expect(confidence.eyes).toBe(1);
+    expect(confidence.jaw).toBeCloseTo(features.frameCoverage.jaw, 9);
+    expect(confidence.overall).toBeLessThan(1);
+  });
+});
@@ -1,10 +1,11 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
+import { mediapipeAssets } from './plugins/mediapipeAssets';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediapipeAssets()],
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),
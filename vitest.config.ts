@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+import { resolve } from 'path';
+
+// Unit tests run in Node against recorded landmark fixtures, so the
+// React and MediaPipe asset plugins from vite.config.ts are left out
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, './src'),
+    },
+  },
+  test: {
+    include: ['tests/unit/**/*.test.ts'],
+    environment: 'node',
+  },
+});
\ No newline at end of file